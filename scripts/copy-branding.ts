@@ -0,0 +1,90 @@
+/**
+ * Moves event covers and logos that still point at the photo bucket into the
+ * public event-branding bucket. The photo bucket is private, so those URLs no
+ * longer load; each image is copied to <event id>/<kind>-<timestamp>.<ext> and
+ * the event's URL is rewritten to the copy. The originals are left in place.
+ *
+ * Usage:
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run copy-branding               # copy and rewrite
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run copy-branding -- --dry-run  # list what would change
+ */
+import { createServiceClient, errorMessage } from "./lib/supabase";
+
+const PHOTO_BUCKET = "event-photos";
+const BRANDING_BUCKET = "event-branding";
+const PHOTO_BUCKET_URL = `/storage/v1/object/public/${PHOTO_BUCKET}/`;
+const DRY_RUN = process.argv.includes("--dry-run");
+
+const supabase = createServiceClient();
+
+const COLUMNS = { cover: "cover_photo_url", logo: "logo_url" } as const;
+type Kind = keyof typeof COLUMNS;
+
+/** Object path of a public photo bucket URL, or null for URLs anywhere else. */
+const photoBucketPath = (url: string | null) => {
+  if (!url?.includes(PHOTO_BUCKET_URL)) return null;
+  return decodeURIComponent(url.split(PHOTO_BUCKET_URL)[1].split("?")[0]);
+};
+
+const copyImage = async (eventId: string, kind: Kind, sourcePath: string) => {
+  const { data: file, error: downloadError } = await supabase.storage.from(PHOTO_BUCKET).download(sourcePath);
+  if (downloadError) throw downloadError;
+
+  const fileExt = sourcePath.split(".").pop();
+  const targetPath = `${eventId}/${kind}-${Date.now()}.${fileExt}`;
+  const { error: uploadError } = await supabase.storage
+    .from(BRANDING_BUCKET)
+    .upload(targetPath, file, { contentType: file.type || undefined });
+  if (uploadError) throw uploadError;
+
+  return supabase.storage.from(BRANDING_BUCKET).getPublicUrl(targetPath).data.publicUrl;
+};
+
+const main = async () => {
+  const { data: events, error } = await supabase
+    .from("events")
+    .select("id, name, cover_photo_url, logo_url")
+    .or(`cover_photo_url.like.*${PHOTO_BUCKET_URL}*,logo_url.like.*${PHOTO_BUCKET_URL}*`);
+  if (error) throw error;
+
+  if (!events || events.length === 0) {
+    console.log("No branding images to copy");
+    return;
+  }
+
+  let copied = 0;
+  for (const event of events) {
+    for (const kind of Object.keys(COLUMNS) as Kind[]) {
+      const column = COLUMNS[kind];
+      const sourcePath = photoBucketPath(event[column]);
+      if (!sourcePath) continue;
+
+      if (DRY_RUN) {
+        console.log(`${event.name}: ${kind} ${PHOTO_BUCKET}/${sourcePath}`);
+        continue;
+      }
+
+      try {
+        const publicUrl = await copyImage(event.id, kind, sourcePath);
+        const { error: updateError } = await supabase
+          .from("events")
+          .update({ [column]: publicUrl })
+          .eq("id", event.id);
+        if (updateError) throw updateError;
+        copied += 1;
+        console.log(`Copied the ${kind} of ${event.name}`);
+      } catch (copyError) {
+        // Left pointing at the photo bucket so the next run tries again
+        console.error(`Could not copy the ${kind} of ${event.name} (${event.id}): ${errorMessage(copyError)}`);
+        process.exitCode = 1;
+      }
+    }
+  }
+
+  if (!DRY_RUN) console.log(`Copied ${copied} image(s) into ${BRANDING_BUCKET}`);
+};
+
+main().catch((error) => {
+  console.error(`Could not copy branding images: ${errorMessage(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+import type { EmailMessage } from "./transport";
+
+export interface DigestPhoto {
+  thumbnailUrl: string;
+}
+
+export interface MatchDigest {
+  recipientName: string | null;
+  eventName: string;
+  matchCount: number;
+  /** A selection of the matched photos; the email shows these as thumbnails. */
+  photos: DigestPhoto[];
+  /** Link to the Face Match tab filtered to the event. */
+  viewUrl: string;
+}
+
+/** How many thumbnails a digest shows before pointing to the app for the rest. */
+export const DIGEST_THUMBNAILS = 6;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const photosOfYou = (count: number) => `${count} photo${count === 1 ? "" : "s"} of you`;
+
+/** Renders the "We found 12 photos of you" email sent after an event. */
+export const renderMatchDigest = (digest: MatchDigest): Omit<EmailMessage, "to"> => {
+  const { recipientName, eventName, matchCount, viewUrl } = digest;
+  const photos = digest.photos.slice(0, DIGEST_THUMBNAILS);
+  const remaining = matchCount - photos.length;
+  const greeting = recipientName ? `Hi ${recipientName},` : "Hi,";
+  const subject = `We found ${photosOfYou(matchCount)} from ${eventName}`;
+
+  const text = [
+    greeting,
+    "",
+    `We found ${photosOfYou(matchCount)} from ${eventName}.`,
+    "",
+    `See and download them here: ${viewUrl}`,
+    "",
+    "You're receiving this because notifications are turned on in your AI FaceSync privacy settings.",
+  ].join("\n");
+
+  const thumbnails = photos
+    .map(
+      (photo) => `
+          <td style="padding:4px;">
+            <a href="${escapeHtml(viewUrl)}">
+              <img src="${escapeHtml(photo.thumbnailUrl)}" width="160" height="160" alt="Photo from ${escapeHtml(eventName)}"
+                style="display:block;width:160px;height:160px;object-fit:cover;border-radius:8px;border:0;" />
+            </a>
+          </td>`
+    )
+    .reduce<string[]>((rows, cell, index) => {
+      // Three thumbnails per row
+      if (index % 3 === 0) rows.push("");
+      rows[rows.length - 1] += cell;
+      return rows;
+    }, [])
+    .map((cells) => `<tr>${cells}\n        </tr>`)
+    .join("\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f7f7f7;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+      <tr>
+        <td>
+          <p style="margin:0 0 16px;">${escapeHtml(greeting)}</p>
+          <h1 style="margin:0 0 16px;font-size:22px;">We found ${escapeHtml(photosOfYou(matchCount))} from ${escapeHtml(eventName)}</h1>
+          <table role="presentation" cellpadding="0" cellspacing="0">
+        ${thumbnails}
+          </table>
+          ${remaining > 0 ? `<p style="margin:16px 0 0;color:#6b7280;">And ${remaining} more.</p>` : ""}
+          <p style="margin:24px 0;">
+            <a href="${escapeHtml(viewUrl)}" style="display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:8px;">
+              View your photos
+            </a>
+          </p>
+          <p style="margin:0;font-size:12px;color:#9ca3af;">
+            You're receiving this because notifications are turned on in your AI FaceSync privacy settings.
+          </p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  return { subject, html, text };
+};
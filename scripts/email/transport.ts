@@ -0,0 +1,56 @@
+import nodemailer from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Delivers rendered emails. Implementations decide where they go. */
+export interface EmailTransport {
+  /** Short description for logs, e.g. "smtp://127.0.0.1:54325". */
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Use TLS from the start (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export const createSmtpTransport = ({ host, port, secure = false, user, password, from }: SmtpOptions): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass: password } : undefined,
+  });
+
+  return {
+    name: `smtp://${host}:${port}`,
+    async send({ to, subject, html, text }) {
+      await transporter.sendMail({ from, to, subject, html, text });
+    },
+  };
+};
+
+/**
+ * SMTP transport configured from SMTP_* environment variables. Defaults to the
+ * catch-all mail server that `supabase start` runs locally, whose web UI
+ * (http://127.0.0.1:54324) shows every message sent to it.
+ */
+export const createTransportFromEnv = () =>
+  createSmtpTransport({
+    host: process.env.SMTP_HOST ?? "127.0.0.1",
+    port: Number(process.env.SMTP_PORT ?? 54325),
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM ?? "AI FaceSync <no-reply@facesync.local>",
+  });
@@ -0,0 +1,84 @@
+import path from "path";
+import { createRequire } from "module";
+import sharp from "sharp";
+import * as tf from "@tensorflow/tfjs";
+import * as faceapi from "@vladmandic/face-api/dist/face-api.node-wasm.js";
+import { toPhotoFaceData, type PhotoFaceData } from "../../src/lib/face/face-data";
+import { EMBEDDING_DIMENSIONS, FACE_API_MODEL, type DetectedFace } from "../../src/lib/face/types";
+
+// Same weights the browser loads, from the installed package
+const MODEL_DIR = path.join(path.dirname(createRequire(import.meta.url).resolve("@vladmandic/face-api/package.json")), "model");
+
+// Same detector confidence as the browser provider
+const MIN_CONFIDENCE = 0.5;
+
+// Photos are scaled down to this longest side before detection to bound memory use
+const MAX_DIMENSION = 2048;
+
+let loading: Promise<void> | null = null;
+
+/** Starts the WASM backend and loads the detector, landmark and recognition nets once. */
+const load = () => {
+  if (!loading) {
+    loading = (async () => {
+      // The node-wasm build of face-api registers the backend on this same tfjs instance
+      await tf.setBackend("wasm");
+      await tf.ready();
+      await Promise.all([
+        faceapi.nets.ssdMobilenetv1.loadFromDisk(MODEL_DIR),
+        faceapi.nets.faceLandmark68Net.loadFromDisk(MODEL_DIR),
+        faceapi.nets.faceRecognitionNet.loadFromDisk(MODEL_DIR),
+      ]);
+    })();
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+};
+
+// Unit length like the browser's normalizeEmbedding, which lives with browser-only helpers
+const normalize = (vector: Float32Array) => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return Array.from(vector, (value) => (norm === 0 ? value : value / norm));
+};
+
+/**
+ * Detects the faces in an image file and returns them in the `photos.face_data`
+ * shape, with the same model name as browser detection so the embeddings compare.
+ */
+export const detectPhotoFaces = async (file: Buffer): Promise<PhotoFaceData> => {
+  await load();
+
+  // Apply the EXIF orientation, as browsers do when they draw the photo
+  const { data, info } = await sharp(file)
+    .rotate()
+    .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const input = tf.tensor3d(new Uint8Array(data), [info.height, info.width, 3], "int32");
+  try {
+    const results = await faceapi
+      .detectAllFaces(input, new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_CONFIDENCE }))
+      .withFaceLandmarks()
+      .withFaceDescriptors();
+
+    const faces: DetectedFace[] = results.map((result) => ({
+      box: {
+        x: result.detection.box.x,
+        y: result.detection.box.y,
+        width: result.detection.box.width,
+        height: result.detection.box.height,
+      },
+      score: result.detection.score,
+      landmarks: result.landmarks.positions.map((point) => ({ x: point.x, y: point.y })),
+      embedding: normalize(result.descriptor),
+    }));
+
+    return toPhotoFaceData(faces, FACE_API_MODEL, EMBEDDING_DIMENSIONS, { width: info.width, height: info.height });
+  } finally {
+    input.dispose();
+  }
+};
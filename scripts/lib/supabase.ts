@@ -0,0 +1,29 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../../src/integrations/supabase/types";
+
+/** Defaults to the local Supabase stack started with `supabase start`. */
+export const SUPABASE_URL = process.env.SUPABASE_URL ?? "http://127.0.0.1:54321";
+
+/**
+ * Supabase client for scripts that run outside the browser. Uses the service role
+ * key, so it bypasses RLS and can call the service-only RPCs.
+ */
+export const createServiceClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    console.error("SUPABASE_SERVICE_ROLE_KEY is not set. Run `supabase status` to find the local service_role key.");
+    process.exit(1);
+  }
+
+  return createClient<Database>(SUPABASE_URL, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
+
+/** Message of a caught error. Supabase returns errors as plain objects rather than Error instances. */
+export const errorMessage = (error: unknown) => {
+  if (error && typeof error === "object" && "message" in error && typeof error.message === "string") {
+    return error.message;
+  }
+  return String(error);
+};
@@ -0,0 +1,129 @@
+/**
+ * Background worker for the processing_jobs queue.
+ *
+ * Every photo insert (or change to its face data) queues a job. The worker claims
+ * due jobs in batches and matches the photo's faces against the enrolled users who
+ * belong to the event, have scanned for it or for all events, or already have
+ * matches in it, so photos uploaded after someone scanned still reach them.
+ *
+ * Face data sent by the uploader's browser is only provisional: the worker
+ * downloads the stored file, detects the faces itself with the same face-api
+ * models (WASM backend) and replaces face_data with its own result before
+ * matching. Its writes use the service role, which doesn't queue the photo again.
+ *
+ * Usage:
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run worker            # poll until stopped
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run worker -- --once  # drain the queue and exit
+ *
+ * SUPABASE_URL defaults to the local Supabase stack started with `supabase start`.
+ */
+import type { Database, Json } from "../src/integrations/supabase/types";
+import { detectPhotoFaces } from "./lib/face-detection";
+import { SUPABASE_URL, createServiceClient, errorMessage } from "./lib/supabase";
+
+type ProcessingJob = Database["public"]["Tables"]["processing_jobs"]["Row"];
+
+const BATCH_SIZE = Number(process.env.WORKER_BATCH_SIZE ?? 10);
+const POLL_INTERVAL_MS = Number(process.env.WORKER_POLL_INTERVAL_MS ?? 5000);
+const RUN_ONCE = process.argv.includes("--once");
+
+const supabase = createServiceClient();
+
+let stopping = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const matchPhoto = async (job: ProcessingJob): Promise<Json> => {
+  const { data: photo, error: photoError } = await supabase
+    .from("photos")
+    .select("id, file_path")
+    .eq("id", job.photo_id)
+    .maybeSingle();
+
+  if (photoError) throw photoError;
+  if (!photo) return { matches_created: 0, skipped: "photo_not_found" };
+
+  const { data: file, error: downloadError } = await supabase.storage.from("event-photos").download(photo.file_path);
+  if (downloadError) throw downloadError;
+
+  const faceData = await detectPhotoFaces(Buffer.from(await file.arrayBuffer()));
+
+  const { error: updateError } = await supabase
+    .from("photos")
+    .update({ face_data: faceData as unknown as Json, faces_detected: faceData.faces.length })
+    .eq("id", photo.id);
+
+  if (updateError) throw updateError;
+
+  const { data: matchesCreated, error: matchError } = await supabase.rpc("match_photo_for_enrolled_users", {
+    target_photo_id: job.photo_id,
+  });
+
+  if (matchError) throw matchError;
+  return { matches_created: matchesCreated, faces_detected: faceData.faces.length };
+};
+
+const handlers: Record<string, (job: ProcessingJob) => Promise<Json>> = {
+  match_photo: matchPhoto,
+};
+
+const processJob = async (job: ProcessingJob) => {
+  try {
+    const handler = handlers[job.job_type];
+    if (!handler) throw new Error(`Unknown job type "${job.job_type}"`);
+
+    const result = await handler(job);
+    const { error } = await supabase.rpc("complete_processing_job", { job_id: job.id, job_result: result });
+    if (error) throw error;
+
+    console.log(`[${job.id}] ${job.job_type} for photo ${job.photo_id} completed`, result);
+  } catch (error) {
+    const message = errorMessage(error);
+    console.error(`[${job.id}] ${job.job_type} attempt ${job.attempts}/${job.max_attempts} failed: ${message}`);
+
+    const { error: failError } = await supabase.rpc("fail_processing_job", { job_id: job.id, error_message: message });
+    if (failError) console.error(`[${job.id}] Could not record failure: ${failError.message}`);
+  }
+};
+
+/** Claims and processes batches until no job is due. Returns how many jobs were processed. */
+const drainQueue = async () => {
+  let processed = 0;
+  while (!stopping) {
+    const { data: jobs, error } = await supabase.rpc("claim_processing_jobs", { batch_size: BATCH_SIZE });
+    if (error) throw error;
+    if (!jobs || jobs.length === 0) break;
+
+    for (const job of jobs) {
+      await processJob(job);
+      processed++;
+    }
+  }
+  return processed;
+};
+
+const main = async () => {
+  const stop = () => {
+    console.log("Stopping after the current job...");
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log(`Processing jobs from ${SUPABASE_URL}${RUN_ONCE ? " (once)" : ""}`);
+
+  while (!stopping) {
+    try {
+      const processed = await drainQueue();
+      if (processed > 0) console.log(`Processed ${processed} job(s)`);
+    } catch (error) {
+      console.error(`Could not claim jobs: ${errorMessage(error)}`);
+      if (RUN_ONCE) process.exitCode = 1;
+    }
+
+    if (RUN_ONCE) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+};
+
+main();
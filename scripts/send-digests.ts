@@ -0,0 +1,97 @@
+/**
+ * Emails each attendee a digest of the photos found of them at events that have
+ * finished ("We found 12 photos of you from Spring Gala").
+ *
+ * Matches are only sent once, users who turned off notifications in their privacy
+ * settings are skipped, and every send is recorded in activity_logs.
+ *
+ * Usage:
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run digests               # send pending digests
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run digests -- --dry-run  # print them instead
+ *
+ * APP_URL is where links in the email point (default http://localhost:8080). See
+ * scripts/email/transport.ts for the SMTP_* settings.
+ */
+import { createServiceClient, errorMessage } from "./lib/supabase";
+import { DIGEST_THUMBNAILS, renderMatchDigest } from "./email/digest";
+import { createTransportFromEnv } from "./email/transport";
+
+const APP_URL = (process.env.APP_URL ?? "http://localhost:8080").replace(/\/$/, "");
+const DRY_RUN = process.argv.includes("--dry-run");
+
+const supabase = createServiceClient();
+
+// Thumbnails come from the private photo bucket, so the email carries signed URLs
+const THUMBNAIL_URL_SECONDS = 14 * 24 * 60 * 60;
+
+const faceMatchUrl = (eventId: string) =>
+  `${APP_URL}/dashboard?${new URLSearchParams({ tab: "face-match", event: eventId })}`;
+
+const main = async () => {
+  const transport = createTransportFromEnv();
+
+  const { data: digests, error } = await supabase.rpc("get_pending_match_digests");
+  if (error) throw error;
+
+  if (!digests || digests.length === 0) {
+    console.log("No digests to send");
+    return;
+  }
+
+  let sent = 0;
+  for (const digest of digests) {
+    const { data: thumbnails, error: signError } = await supabase.storage
+      .from("event-photos")
+      .createSignedUrls(digest.file_paths.slice(0, DIGEST_THUMBNAILS), THUMBNAIL_URL_SECONDS);
+    if (signError) throw signError;
+
+    const message = renderMatchDigest({
+      recipientName: digest.full_name,
+      eventName: digest.event_name,
+      matchCount: digest.match_count,
+      photos: thumbnails.filter((thumbnail) => thumbnail.signedUrl).map((thumbnail) => ({
+        thumbnailUrl: thumbnail.signedUrl,
+      })),
+      viewUrl: faceMatchUrl(digest.event_id),
+    });
+
+    if (DRY_RUN) {
+      console.log(`--- To: ${digest.email}\nSubject: ${message.subject}\n\n${message.text}\n`);
+      continue;
+    }
+
+    try {
+      await transport.send({ to: digest.email, ...message });
+
+      const { error: markError } = await supabase.rpc("mark_match_digest_sent", { match_ids: digest.match_ids });
+      if (markError) throw markError;
+
+      const { error: logError } = await supabase.from("activity_logs").insert({
+        user_id: digest.user_id,
+        activity_type: "email_sent",
+        description: `Match digest sent for ${digest.event_name}`,
+        metadata: {
+          kind: "match_digest",
+          event_id: digest.event_id,
+          match_count: digest.match_count,
+          transport: transport.name,
+        },
+      });
+      if (logError) console.error(`Could not log digest sent to ${digest.email}: ${logError.message}`);
+
+      sent++;
+      console.log(`Sent digest of ${digest.match_count} photo(s) from ${digest.event_name} to ${digest.email}`);
+    } catch (sendError) {
+      // Left unmarked so the next run tries again
+      console.error(`Could not send digest to ${digest.email}: ${errorMessage(sendError)}`);
+      process.exitCode = 1;
+    }
+  }
+
+  if (!DRY_RUN) console.log(`Sent ${sent} of ${digests.length} digest(s) via ${transport.name}`);
+};
+
+main().catch((error) => {
+  console.error(`Could not send digests: ${errorMessage(error)}`);
+  process.exit(1);
+});
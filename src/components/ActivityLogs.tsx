@@ -5,7 +5,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Activity, RefreshCw, User, Calendar, Camera, Upload, Shield, Trash2 } from "lucide-react";
+import { Activity, RefreshCw, User, Calendar, Camera, Upload, Shield, ShieldAlert, Trash2, ThumbsDown, Mail, Ticket } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Database } from "@/integrations/supabase/types";
 
@@ -16,8 +16,11 @@ type ActivityLog = Database['public']['Tables']['activity_logs']['Row'] & {
   } | null;
 };
 
+type MatchFeedbackStats = Database['public']['Functions']['get_match_feedback_stats']['Returns'][number];
+
 const ActivityLogs = () => {
   const [logs, setLogs] = useState<ActivityLog[]>([]);
+  const [feedbackStats, setFeedbackStats] = useState<MatchFeedbackStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<string>('all');
   const { toast } = useToast();
@@ -26,6 +29,10 @@ const ActivityLogs = () => {
     fetchLogs();
   }, [filter]);
 
+  useEffect(() => {
+    fetchFeedbackStats();
+  }, []);
+
   const fetchLogs = async () => {
     try {
       let query = supabase
@@ -59,6 +66,15 @@ const ActivityLogs = () => {
     }
   };
 
+  const fetchFeedbackStats = async () => {
+    const { data, error } = await supabase.rpc('get_match_feedback_stats');
+    if (error) {
+      console.error('Error fetching match feedback stats:', error);
+      return;
+    }
+    setFeedbackStats(data || []);
+  };
+
   const getActivityIcon = (type: string) => {
     switch (type) {
       case 'login':
@@ -71,6 +87,12 @@ const ActivityLogs = () => {
         return <Upload className="h-4 w-4" />;
       case 'face_scanned':
         return <Camera className="h-4 w-4" />;
+      case 'liveness_failed':
+        return <ShieldAlert className="h-4 w-4" />;
+      case 'email_sent':
+        return <Mail className="h-4 w-4" />;
+      case 'invite_redeemed':
+        return <Ticket className="h-4 w-4" />;
       case 'user_role_changed':
       case 'user_created':
       case 'user_deleted':
@@ -86,12 +108,15 @@ const ActivityLogs = () => {
       case 'user_created':
       case 'event_created':
       case 'photo_uploaded':
+      case 'invite_redeemed':
         return 'default';
       case 'logout':
         return 'secondary';
       case 'face_scanned':
+      case 'email_sent':
         return 'outline';
       case 'user_role_changed':
+      case 'liveness_failed':
         return 'destructive';
       case 'user_deleted':
         return 'destructive';
@@ -109,6 +134,7 @@ const ActivityLogs = () => {
   const refreshLogs = () => {
     setLoading(true);
     fetchLogs();
+    fetchFeedbackStats();
   };
 
   if (loading) {
@@ -146,6 +172,9 @@ const ActivityLogs = () => {
               <SelectItem value="event_created">Event Created</SelectItem>
               <SelectItem value="photo_uploaded">Photo Uploaded</SelectItem>
               <SelectItem value="face_scanned">Face Scanned</SelectItem>
+              <SelectItem value="liveness_failed">Liveness Failed</SelectItem>
+              <SelectItem value="email_sent">Email Sent</SelectItem>
+              <SelectItem value="invite_redeemed">Invite Redeemed</SelectItem>
               <SelectItem value="user_role_changed">Role Changed</SelectItem>
               <SelectItem value="user_created">User Created</SelectItem>
               <SelectItem value="user_deleted">User Deleted</SelectItem>
@@ -218,6 +247,49 @@ const ActivityLogs = () => {
         </Card>
       </div>
 
+      {/* Match Feedback */}
+      {feedbackStats.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ThumbsDown className="h-5 w-5" />
+              Match Feedback by Event
+            </CardTitle>
+            <CardDescription>
+              How often attendees reject the photos matched to them
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead className="text-right">Matches</TableHead>
+                  <TableHead className="text-right">Confirmed</TableHead>
+                  <TableHead className="text-right">Rejected</TableHead>
+                  <TableHead className="text-right">False Positive Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {feedbackStats.map((stats) => (
+                  <TableRow key={stats.event_id}>
+                    <TableCell className="font-medium">{stats.event_name}</TableCell>
+                    <TableCell className="text-right">{stats.total_matches}</TableCell>
+                    <TableCell className="text-right">{stats.confirmed_count}</TableCell>
+                    <TableCell className="text-right">{stats.rejected_count}</TableCell>
+                    <TableCell className="text-right">
+                      {stats.false_positive_rate === null
+                        ? <span className="text-muted-foreground">No feedback yet</span>
+                        : `${(Number(stats.false_positive_rate) * 100).toFixed(1)}%`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Activity Table */}
       <Card>
         <CardHeader>
@@ -4,24 +4,45 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { CalendarDays, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { DEFAULT_MATCH_THRESHOLD, MAX_MATCH_THRESHOLD, MIN_MATCH_THRESHOLD } from "@/lib/face";
+import { getSlugFormatError, isSlugAvailable, isSlugTakenError, saveBrandingImage, slugify } from "@/lib/event-branding";
+import EventBrandingFields, { type EventBrandingValue } from "@/components/EventBrandingFields";
 
 interface CreateEventProps {
   onEventCreated: () => void;
 }
 
+const EMPTY_BRANDING: EventBrandingValue = { slug: "", brandColor: null, logo: null, cover: null };
+
 const CreateEvent = ({ onEventCreated }: CreateEventProps) => {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [visibility, setVisibility] = useState<'public' | 'private' | 'hybrid'>('public');
+  const [matchThreshold, setMatchThreshold] = useState(DEFAULT_MATCH_THRESHOLD);
+  const [branding, setBranding] = useState<EventBrandingValue>(EMPTY_BRANDING);
+  // The slug follows the name until it is edited by hand
+  const [slugEdited, setSlugEdited] = useState(false);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!slugEdited) setBranding(current => ({ ...current, slug: slugify(value) }));
+  };
+
+  const handleBrandingChange = (value: EventBrandingValue) => {
+    if (value.slug !== branding.slug) setSlugEdited(true);
+    setBranding(value);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -30,7 +51,13 @@ const CreateEvent = ({ onEventCreated }: CreateEventProps) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { error } = await supabase
+      const slugError = getSlugFormatError(branding.slug);
+      if (slugError) throw new Error(slugError);
+      if (!(await isSlugAvailable(branding.slug))) {
+        throw new Error('Another event already uses this URL. Choose a different one.');
+      }
+
+      const { data: event, error } = await supabase
         .from('events')
         .insert({
           name,
@@ -38,11 +65,29 @@ const CreateEvent = ({ onEventCreated }: CreateEventProps) => {
           start_date: startDate,
           end_date: endDate || null,
           visibility,
+          match_threshold: matchThreshold,
+          slug: branding.slug,
+          brand_color: branding.brandColor,
           created_by: user.id,
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      // Images are stored under the event's id, so they go up once it exists
+      if (branding.logo || branding.cover) {
+        const { error: brandingError } = await supabase
+          .from('events')
+          .update({
+            logo_url: await saveBrandingImage(event.id, 'logo', branding.logo),
+            cover_photo_url: await saveBrandingImage(event.id, 'cover', branding.cover),
+          })
+          .eq('id', event.id);
+
+        if (brandingError) throw brandingError;
+      }
+
       toast({
         title: "Success!",
         description: "Event created successfully.",
@@ -54,7 +99,10 @@ const CreateEvent = ({ onEventCreated }: CreateEventProps) => {
       setStartDate("");
       setEndDate("");
       setVisibility('public');
-      
+      setMatchThreshold(DEFAULT_MATCH_THRESHOLD);
+      setBranding(EMPTY_BRANDING);
+      setSlugEdited(false);
+
       // Refresh events list
       onEventCreated();
 
@@ -65,13 +113,15 @@ const CreateEvent = ({ onEventCreated }: CreateEventProps) => {
           user_id: user.id,
           activity_type: 'event_created',
           description: `Created event: ${name}`,
-          metadata: { event_name: name, visibility }
+          metadata: { event_name: name, slug: branding.slug, visibility, match_threshold: matchThreshold }
         });
 
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: isSlugTakenError(error)
+          ? "Another event took this URL while you were filling in the form. Choose a different one."
+          : getErrorMessage(error, "Failed to create the event"),
         variant: "destructive",
       });
     } finally {
@@ -108,7 +158,7 @@ const CreateEvent = ({ onEventCreated }: CreateEventProps) => {
                 type="text"
                 placeholder="e.g., Annual Tech Summit 2025, Spring Gala Dinner"
                 value={name}
-                onChange={(e) => setName(e.target.value)}
+                onChange={(e) => handleNameChange(e.target.value)}
                 required
               />
             </div>
@@ -156,10 +206,40 @@ const CreateEvent = ({ onEventCreated }: CreateEventProps) => {
                 <SelectContent>
                   <SelectItem value="public">Public - Anyone can access</SelectItem>
                   <SelectItem value="private">Private - Invite only</SelectItem>
-                  <SelectItem value="hybrid">Hybrid - Mixed access</SelectItem>
+                  <SelectItem value="hybrid">Hybrid - Public page, photos for attendees with the access code</SelectItem>
                 </SelectContent>
               </Select>
+              {visibility === 'hybrid' && (
+                <p className="text-sm text-muted-foreground">
+                  An access code is generated for the event. Once it's created, select the event to see the code and share it with attendees.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="match-threshold">
+                Face Match Threshold: {Math.round(matchThreshold * 100)}%
+              </Label>
+              <Slider
+                id="match-threshold"
+                min={MIN_MATCH_THRESHOLD}
+                max={MAX_MATCH_THRESHOLD}
+                step={0.01}
+                value={[matchThreshold]}
+                onValueChange={([value]) => setMatchThreshold(value)}
+              />
+              <p className="text-sm text-muted-foreground">
+                Default minimum similarity for attendees' matches. Lower values find more photos but include more lookalikes.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">Branding</h3>
+              <p className="text-sm text-muted-foreground">
+                Shown on the event's public page and in the event selector. You can add a cover from the event's own photos once they're uploaded.
+              </p>
             </div>
+            <EventBrandingFields value={branding} onChange={handleBrandingChange} />
 
             <div className="flex justify-end">
               <Button type="submit" disabled={loading} className="min-w-[120px]">
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Copy, KeyRound, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+
+interface EventAccessCodeProps {
+  eventId: string;
+}
+
+/** Shows a hybrid event's access code to staff, with copy and reset. */
+const EventAccessCode = ({ eventId }: EventAccessCodeProps) => {
+  const [code, setCode] = useState<string | null>(null);
+  const [resetting, setResetting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCode();
+  }, [eventId]);
+
+  const fetchCode = async () => {
+    const { data, error } = await supabase.rpc('get_event_access_code', { target_event_id: eventId });
+    if (error) {
+      console.error('Error fetching access code:', error);
+      return;
+    }
+    setCode(data);
+  };
+
+  const copyCode = async () => {
+    if (!code) return;
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({
+        title: "Code Copied",
+        description: "Access code copied to your clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to copy the code"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetCode = async () => {
+    setResetting(true);
+    try {
+      const { data, error } = await supabase.rpc('reset_event_access_code', { target_event_id: eventId });
+
+      if (error) throw error;
+      setCode(data);
+      toast({
+        title: "New Access Code",
+        description: "The old code no longer works. People who already joined keep their access.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to reset the access code"),
+        variant: "destructive",
+      });
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  if (!code) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-sm">
+      <KeyRound className="h-4 w-4 text-muted-foreground" />
+      <span className="text-muted-foreground">Access code:</span>
+      <span className="font-mono font-medium tracking-widest">{code}</span>
+      <Button variant="ghost" size="sm" onClick={copyCode} aria-label="Copy access code">
+        <Copy className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={resetCode} disabled={resetting} aria-label="Generate a new access code">
+        <RefreshCw className={`h-4 w-4 ${resetting ? 'animate-spin' : ''}`} />
+      </Button>
+    </div>
+  );
+};
+
+export default EventAccessCode;
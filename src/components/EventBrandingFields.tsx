@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, Image as ImageIcon, Images, Upload, X, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { withSignedUrls } from "@/lib/photo-storage";
+import {
+  DEFAULT_BRAND_COLOR,
+  MAX_SLUG_LENGTH,
+  getSlugFormatError,
+  isSlugAvailable,
+  type BrandingImage,
+} from "@/lib/event-branding";
+
+export interface EventBrandingValue {
+  slug: string;
+  brandColor: string | null;
+  logo: BrandingImage;
+  cover: BrandingImage;
+}
+
+interface EventBrandingFieldsProps {
+  value: EventBrandingValue;
+  onChange: (value: EventBrandingValue) => void;
+  /** The event being edited: excluded from the slug check, and its photos can be picked as the cover. */
+  eventId?: string;
+}
+
+// Wait for typing to pause before checking the slug
+const SLUG_CHECK_DELAY_MS = 400;
+const COVER_CHOICES = 24;
+
+/** Object URL for a picked file, or the stored URL, revoked when it changes. */
+const usePreviewUrl = (image: BrandingImage) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!(image instanceof File)) {
+      setUrl(image);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+
+  return url;
+};
+
+/** Slug, brand colour, logo and cover inputs shared by the create and edit forms. */
+const EventBrandingFields = ({ value, onChange, eventId }: EventBrandingFieldsProps) => {
+  const [slugStatus, setSlugStatus] = useState<'checking' | 'available' | 'taken' | null>(null);
+  const [photoChoices, setPhotoChoices] = useState<Array<{ id: string; file_path: string; file_name: string }> | null>(null);
+  const [pickedPhotoId, setPickedPhotoId] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+  const logoUrl = usePreviewUrl(value.logo);
+  const coverUrl = usePreviewUrl(value.cover);
+  const slugFormatError = value.slug ? getSlugFormatError(value.slug) : null;
+
+  useEffect(() => {
+    if (!value.slug || slugFormatError) {
+      setSlugStatus(null);
+      return;
+    }
+
+    setSlugStatus('checking');
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const available = await isSlugAvailable(value.slug, eventId);
+        if (!cancelled) setSlugStatus(available ? 'available' : 'taken');
+      } catch (error) {
+        console.error('Error checking slug:', error);
+        if (!cancelled) setSlugStatus(null);
+      }
+    }, SLUG_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value.slug, eventId, slugFormatError]);
+
+  const loadPhotoChoices = async () => {
+    if (!eventId) return;
+    const { data, error } = await supabase.rpc('get_safe_photos', { event_id_filter: eventId });
+    if (error) {
+      console.error('Error fetching event photos:', error);
+      return;
+    }
+    try {
+      setPhotoChoices(await withSignedUrls((data || []).slice(0, COVER_CHOICES)));
+    } catch (signError) {
+      console.error('Error signing event photos:', signError);
+    }
+  };
+
+  // Photo URLs are signed and expire, so the chosen photo is copied to the public branding bucket on save
+  const pickPhotoAsCover = async (photo: { id: string; file_path: string; file_name: string }) => {
+    try {
+      const response = await fetch(photo.file_path);
+      if (!response.ok) throw new Error(`Could not load ${photo.file_name}`);
+      const blob = await response.blob();
+      setPickedPhotoId(photo.id);
+      onChange({ ...value, cover: new File([blob], photo.file_name, { type: blob.type }) });
+    } catch (error) {
+      console.error('Error loading event photo:', error);
+    }
+  };
+
+  const pickFile = (key: 'logo' | 'cover') => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change event
+    event.target.value = "";
+    if (!file) return;
+    if (key === 'cover') setPickedPhotoId(null);
+    onChange({ ...value, [key]: file });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="event-slug">Public Page URL</Label>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground whitespace-nowrap">{window.location.origin}/e/</span>
+          <Input
+            id="event-slug"
+            value={value.slug}
+            maxLength={MAX_SLUG_LENGTH}
+            onChange={(e) => onChange({ ...value, slug: e.target.value.toLowerCase() })}
+            placeholder="spring-gala-2025"
+            className="font-mono"
+          />
+        </div>
+        {slugFormatError && <p className="text-sm text-destructive">{slugFormatError}</p>}
+        {slugStatus === 'checking' && <p className="text-sm text-muted-foreground">Checking...</p>}
+        {slugStatus === 'available' && (
+          <p className="text-sm text-green-600 flex items-center gap-1">
+            <CheckCircle className="h-4 w-4" />
+            Available
+          </p>
+        )}
+        {slugStatus === 'taken' && (
+          <p className="text-sm text-destructive flex items-center gap-1">
+            <XCircle className="h-4 w-4" />
+            Another event already uses this URL
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="brand-color">Brand Colour</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="brand-color"
+            type="color"
+            value={value.brandColor ?? DEFAULT_BRAND_COLOR}
+            onChange={(e) => onChange({ ...value, brandColor: e.target.value })}
+            className="w-14 h-10 p-1"
+          />
+          <span className="font-mono text-sm text-muted-foreground">{value.brandColor ?? "Default"}</span>
+          {value.brandColor && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...value, brandColor: null })}>
+              Reset
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Logo</Label>
+          <div className="h-24 w-24 rounded-md border bg-muted flex items-center justify-center overflow-hidden">
+            {logoUrl ? (
+              <img src={logoUrl} alt="Event logo" className="max-h-full max-w-full object-contain" />
+            ) : (
+              <ImageIcon className="h-8 w-8 text-muted-foreground" />
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => logoInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload
+            </Button>
+            {value.logo && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...value, logo: null })}>
+                <X className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+          <input ref={logoInputRef} type="file" accept="image/*" onChange={pickFile('logo')} className="hidden" />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Cover Photo</Label>
+          <div className="h-24 w-full rounded-md border bg-muted flex items-center justify-center overflow-hidden">
+            {coverUrl ? (
+              <img src={coverUrl} alt="Event cover" className="h-full w-full object-cover" />
+            ) : (
+              <ImageIcon className="h-8 w-8 text-muted-foreground" />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => coverInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload
+            </Button>
+            {eventId && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => (photoChoices ? setPhotoChoices(null) : loadPhotoChoices())}
+              >
+                <Images className="h-4 w-4 mr-2" />
+                {photoChoices ? "Hide event photos" : "Choose from event photos"}
+              </Button>
+            )}
+            {value.cover && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange({ ...value, cover: null })}>
+                <X className="h-4 w-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+          <input ref={coverInputRef} type="file" accept="image/*" onChange={pickFile('cover')} className="hidden" />
+        </div>
+      </div>
+
+      {photoChoices && (
+        photoChoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This event has no photos yet.</p>
+        ) : (
+          <div className="grid grid-cols-4 md:grid-cols-6 gap-2 max-h-56 overflow-y-auto">
+            {photoChoices.map(photo => (
+              <button
+                key={photo.id}
+                type="button"
+                onClick={() => pickPhotoAsCover(photo)}
+                className={cn(
+                  "aspect-square rounded-md overflow-hidden border-2 transition-colors",
+                  value.cover instanceof File && pickedPhotoId === photo.id
+                    ? "border-accent"
+                    : "border-transparent hover:border-accent/50"
+                )}
+              >
+                <img src={photo.file_path} alt={photo.file_name} loading="lazy" className="h-full w-full object-cover" />
+              </button>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default EventBrandingFields;
@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Copy, Link2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { formatInviteCode, getInviteUrl, inviteGetsCode, isInviteOutstanding, type EventInvite } from "@/lib/invites";
+import { EVENT_ROLE_LABELS, type EventMemberRole } from "@/components/EventMembers";
+
+interface EventInvitesProps {
+  eventId: string;
+  eventName: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' },
+];
+
+/** Creates invite links and codes for an event and lists the ones still usable, with revoke. */
+const EventInvites = ({ eventId, eventName }: EventInvitesProps) => {
+  const [invites, setInvites] = useState<EventInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [role, setRole] = useState<EventMemberRole>('viewer');
+  const [singleUse, setSingleUse] = useState(false);
+  const [maxUses, setMaxUses] = useState("");
+  const [expiry, setExpiry] = useState('7');
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getCurrentUser();
+  }, []);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [eventId]);
+
+  const getCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+    }
+  };
+
+  const fetchInvites = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('event_invites')
+        .select('*')
+        .eq('event_id', eventId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvites((data || []).filter(isInviteOutstanding));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to load invites"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const logInviteChange = async (description: string, metadata: Record<string, unknown>) => {
+    await supabase
+      .from('activity_logs')
+      .insert({
+        user_id: currentUserId,
+        activity_type: 'event_updated',
+        description,
+        metadata: { event_id: eventId, event_name: eventName, ...metadata, timestamp: new Date().toISOString() }
+      });
+  };
+
+  const createInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const limit = singleUse ? 1 : maxUses ? Number(maxUses) : null;
+    if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+      toast({
+        title: "Invalid Limit",
+        description: "Enter a whole number of uses, or leave it empty for no limit.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { data, error } = await supabase.rpc('create_event_invite', {
+        target_event_id: eventId,
+        invite_role: role,
+        invite_max_uses: limit,
+        invite_expires_at: expiry === 'never'
+          ? null
+          : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString(),
+      });
+
+      if (error) throw error;
+      const invite = data?.[0];
+      if (!invite) throw new Error("The invite was not created");
+
+      await logInviteChange(`Created an invite to ${eventName}`, {
+        action: 'invite_created',
+        invite_id: invite.id,
+        role,
+        max_uses: limit,
+        expires_at: invite.expires_at,
+      });
+
+      setInvites(current => [invite, ...current]);
+      setMaxUses("");
+      await copyText(getInviteUrl(invite.token), "Invite link copied to your clipboard");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create the invite"),
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeInvite = async (invite: EventInvite) => {
+    try {
+      const { data, error } = await supabase
+        .from('event_invites')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invite.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error("You can only revoke invites to events you own");
+
+      await logInviteChange(`Revoked an invite to ${eventName}`, {
+        action: 'invite_revoked',
+        invite_id: invite.id,
+        use_count: invite.use_count,
+      });
+
+      setInvites(current => current.filter(i => i.id !== invite.id));
+      toast({
+        title: "Invite Revoked",
+        description: "The link and code no longer work. People who already joined keep their access.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to revoke the invite"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyText = async (text: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied",
+        description,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to copy"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={createInvite} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+        <div className="space-y-2">
+          <Label>Role</Label>
+          <Select value={role} onValueChange={(value: EventMemberRole) => setRole(value)}>
+            <SelectTrigger aria-label="Invite role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(EVENT_ROLE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Uses</Label>
+          <Select value={singleUse ? 'single' : 'multi'} onValueChange={(value) => setSingleUse(value === 'single')}>
+            <SelectTrigger aria-label="Invite uses">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single">Single use</SelectItem>
+              <SelectItem value="multi">Multiple uses</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invite-max-uses">Max uses</Label>
+          <Input
+            id="invite-max-uses"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={singleUse ? "1" : maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            disabled={singleUse}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Expires after</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger aria-label="Invite expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={creating}>
+          <Link2 className="h-4 w-4 mr-2" />
+          {creating ? "Creating..." : "Create Invite"}
+        </Button>
+      </form>
+      <p className="text-sm text-muted-foreground">
+        Share the link, or read out the code for people to enter at {window.location.host}/join. New accounts join the event as soon as they sign up.
+        {!inviteGetsCode(role, singleUse ? 1 : maxUses ? Number(maxUses) : null, expiry !== 'never') &&
+          " This invite will be link only: codes are for viewer invites with a use limit or an expiry."}
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-accent"></div>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Used</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="w-28"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invites.map((invite) => (
+              <TableRow key={invite.id}>
+                <TableCell className="font-mono tracking-widest whitespace-nowrap">
+                  {invite.code ? formatInviteCode(invite.code) : <span className="font-sans tracking-normal text-muted-foreground">Link only</span>}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{EVENT_ROLE_LABELS[invite.role]}</Badge>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {invite.use_count}{invite.max_uses !== null ? ` / ${invite.max_uses}` : ''}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {invite.expires_at ? new Date(invite.expires_at).toLocaleDateString() : 'Never'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyText(getInviteUrl(invite.token), "Invite link copied to your clipboard")}
+                      aria-label="Copy invite link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => revokeInvite(invite)} aria-label="Revoke invite">
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {invites.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                  No outstanding invites
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default EventInvites;
@@ -0,0 +1,739 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { CalendarCog, Edit, Archive, ArchiveRestore, Trash2, Save, X, Palette, Users, QrCode } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { BRANDING_BUCKET, getSlugFormatError, isSlugAvailable, isSlugTakenError, saveBrandingImage } from "@/lib/event-branding";
+import { PHOTO_BUCKET } from "@/lib/photo-storage";
+import EventBrandingFields, { type EventBrandingValue } from "@/components/EventBrandingFields";
+import EventMembers, { type EventMemberRole } from "@/components/EventMembers";
+import EventInvites from "@/components/EventInvites";
+import EventPoster from "@/components/EventPoster";
+import type { Database } from "@/integrations/supabase/types";
+
+type EventVisibility = Database['public']['Enums']['event_visibility'];
+type DeletionSummary = Database['public']['Functions']['get_event_deletion_summary']['Returns'][number];
+
+interface ManagedEvent {
+  id: string;
+  name: string;
+  description: string | null;
+  start_date: string;
+  end_date: string | null;
+  visibility: EventVisibility | null;
+  created_by: string;
+  archived_at: string | null;
+  slug: string;
+  brand_color: string | null;
+  logo_url: string | null;
+  cover_photo_url: string | null;
+  photos: { count: number }[];
+}
+
+interface EventDraft {
+  name: string;
+  description: string;
+  start_date: string;
+  end_date: string;
+  visibility: EventVisibility;
+}
+
+interface EventManagementProps {
+  isAdmin: boolean;
+  /** The current user's role in each event they belong to */
+  eventRoles: Record<string, EventMemberRole>;
+  onEventsChanged: () => void;
+}
+
+// Storage lists and removes at most this many objects per request
+const STORAGE_PAGE_SIZE = 100;
+
+const toDraft = (event: ManagedEvent): EventDraft => ({
+  name: event.name,
+  description: event.description ?? "",
+  start_date: event.start_date,
+  end_date: event.end_date ?? "",
+  visibility: event.visibility ?? 'public',
+});
+
+const toBranding = (event: ManagedEvent): EventBrandingValue => ({
+  slug: event.slug,
+  brandColor: event.brand_color,
+  logo: event.logo_url,
+  cover: event.cover_photo_url,
+});
+
+/** Removes every file in a storage folder. Returns how many were removed. */
+const removeFolder = async (bucket: string, folder: string) => {
+  let removed = 0;
+  for (;;) {
+    const { data: files, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: STORAGE_PAGE_SIZE });
+
+    if (error) throw error;
+    if (!files || files.length === 0) return removed;
+
+    const { data: removedFiles, error: removeError } = await supabase.storage
+      .from(bucket)
+      .remove(files.map(file => `${folder}/${file.name}`));
+
+    if (removeError) throw removeError;
+    // Storage skips files it may not delete without an error; stop rather than list them forever
+    if (!removedFiles || removedFiles.length === 0) {
+      throw new Error(`${files.length} file${files.length !== 1 ? 's' : ''} could not be removed`);
+    }
+    removed += removedFiles.length;
+  }
+};
+
+/** Removes the event's photo files and its uploaded logo and cover. */
+const removeEventFiles = async (eventId: string) =>
+  (await removeFolder(PHOTO_BUCKET, eventId)) + (await removeFolder(BRANDING_BUCKET, eventId));
+
+const EventManagement = ({ isAdmin, eventRoles, onEventsChanged }: EventManagementProps) => {
+  const [events, setEvents] = useState<ManagedEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EventDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ManagedEvent | null>(null);
+  const [deletionSummary, setDeletionSummary] = useState<DeletionSummary | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [brandingTarget, setBrandingTarget] = useState<ManagedEvent | null>(null);
+  const [brandingDraft, setBrandingDraft] = useState<EventBrandingValue | null>(null);
+  const [savingBranding, setSavingBranding] = useState(false);
+  const [membersTarget, setMembersTarget] = useState<ManagedEvent | null>(null);
+  const [posterTarget, setPosterTarget] = useState<ManagedEvent | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getCurrentUser();
+    fetchEvents();
+  }, []);
+
+  const getCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+    }
+  };
+
+  const fetchEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, name, description, start_date, end_date, visibility, created_by, archived_at, slug, brand_color, logo_url, cover_photo_url, photos(count)')
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to load events"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const logEventUpdate = async (description: string, metadata: Record<string, unknown>) => {
+    await supabase
+      .from('activity_logs')
+      .insert({
+        user_id: currentUserId,
+        activity_type: 'event_updated',
+        description,
+        metadata: { ...metadata, timestamp: new Date().toISOString() }
+      });
+  };
+
+  // RLS silently skips events the user may not update, so check a row came back
+  const updateEvent = async (eventId: string, changes: Database['public']['Tables']['events']['Update']) => {
+    const { data, error } = await supabase
+      .from('events')
+      .update(changes)
+      .eq('id', eventId)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error("You can only change events you own");
+    }
+  };
+
+  const startEditing = (event: ManagedEvent) => {
+    setEditingId(event.id);
+    setDraft(toDraft(event));
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const saveEvent = async (event: ManagedEvent) => {
+    if (!draft) return;
+
+    if (!draft.name.trim() || !draft.start_date) {
+      toast({
+        title: "Missing Details",
+        description: "Events need a name and a start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (draft.end_date && draft.end_date < draft.start_date) {
+      toast({
+        title: "Invalid Dates",
+        description: "The end date can't be before the start date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Only send and log what actually changed
+    const before = toDraft(event);
+    const changed = (Object.keys(draft) as Array<keyof EventDraft>).filter(key => draft[key] !== before[key]);
+    if (changed.length === 0) {
+      cancelEditing();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const changes = Object.fromEntries(changed.map(key => [
+        key,
+        key === 'end_date' || key === 'description' ? draft[key] || null : draft[key],
+      ]));
+      await updateEvent(event.id, changes);
+
+      await logEventUpdate(`Updated event: ${draft.name}`, {
+        event_id: event.id,
+        event_name: draft.name,
+        action: 'edited',
+        changes: Object.fromEntries(changed.map(key => [key, { from: before[key], to: draft[key] }])),
+      });
+
+      toast({
+        title: "Event Updated",
+        description: `Saved changes to ${draft.name}.`,
+      });
+      cancelEditing();
+      await fetchEvents();
+      onEventsChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update the event"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setArchived = async (event: ManagedEvent, archived: boolean) => {
+    try {
+      await updateEvent(event.id, { archived_at: archived ? new Date().toISOString() : null });
+
+      await logEventUpdate(`${archived ? 'Archived' : 'Restored'} event: ${event.name}`, {
+        event_id: event.id,
+        event_name: event.name,
+        action: archived ? 'archived' : 'restored',
+      });
+
+      toast({
+        title: archived ? "Event Archived" : "Event Restored",
+        description: archived
+          ? `${event.name} is hidden from the event selector. Its photos and matches are kept.`
+          : `${event.name} is back in the event selector.`,
+      });
+      await fetchEvents();
+      onEventsChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update the event"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openBranding = (event: ManagedEvent) => {
+    setBrandingTarget(event);
+    setBrandingDraft(toBranding(event));
+  };
+
+  const closeBranding = () => {
+    setBrandingTarget(null);
+    setBrandingDraft(null);
+  };
+
+  const saveBranding = async () => {
+    const event = brandingTarget;
+    if (!event || !brandingDraft) return;
+
+    const slugError = getSlugFormatError(brandingDraft.slug);
+    if (slugError) {
+      toast({
+        title: "Invalid URL",
+        description: slugError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingBranding(true);
+    try {
+      if (brandingDraft.slug !== event.slug && !(await isSlugAvailable(brandingDraft.slug, event.id))) {
+        throw new Error('Another event already uses this URL. Choose a different one.');
+      }
+
+      const before = toBranding(event);
+      const changes: Database['public']['Tables']['events']['Update'] = {};
+      if (brandingDraft.slug !== before.slug) changes.slug = brandingDraft.slug;
+      if (brandingDraft.brandColor !== before.brandColor) changes.brand_color = brandingDraft.brandColor;
+      if (brandingDraft.logo !== before.logo) {
+        changes.logo_url = await saveBrandingImage(event.id, 'logo', brandingDraft.logo);
+      }
+      if (brandingDraft.cover !== before.cover) {
+        changes.cover_photo_url = await saveBrandingImage(event.id, 'cover', brandingDraft.cover);
+      }
+
+      if (Object.keys(changes).length === 0) {
+        closeBranding();
+        return;
+      }
+
+      await updateEvent(event.id, changes);
+
+      await logEventUpdate(`Updated branding for event: ${event.name}`, {
+        event_id: event.id,
+        event_name: event.name,
+        action: 'branding',
+        changes: Object.keys(changes),
+        ...(changes.slug && { slug: { from: event.slug, to: changes.slug } }),
+      });
+
+      toast({
+        title: "Branding Updated",
+        description: changes.slug
+          ? `Saved. The public page is now at /e/${changes.slug} and the old link no longer works.`
+          : `Saved branding for ${event.name}.`,
+      });
+      closeBranding();
+      await fetchEvents();
+      onEventsChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: isSlugTakenError(error)
+          ? "Another event already uses this URL. Choose a different one."
+          : getErrorMessage(error, "Failed to update the branding"),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingBranding(false);
+    }
+  };
+
+  const confirmDelete = async (event: ManagedEvent) => {
+    setDeleteTarget(event);
+    setDeletionSummary(null);
+
+    const { data, error } = await supabase.rpc('get_event_deletion_summary', { target_event_id: event.id });
+    if (error) {
+      console.error('Error fetching deletion summary:', error);
+      return;
+    }
+    setDeletionSummary(data?.[0] ?? null);
+  };
+
+  const deleteEvent = async () => {
+    const event = deleteTarget;
+    if (!event) return;
+
+    setDeleting(true);
+    try {
+      const { error } = await supabase
+        .from('events')
+        .delete()
+        .eq('id', event.id);
+
+      if (error) throw error;
+
+      // The rows are gone, so a failure here only leaves unreachable files behind
+      let filesRemoved = 0;
+      let storageError: unknown = null;
+      try {
+        filesRemoved = await removeEventFiles(event.id);
+      } catch (error) {
+        storageError = error;
+      }
+
+      await logEventUpdate(`Deleted event: ${event.name}`, {
+        event_id: event.id,
+        event_name: event.name,
+        action: 'deleted',
+        photos_deleted: deletionSummary?.photo_count ?? event.photos[0]?.count ?? 0,
+        face_matches_deleted: deletionSummary?.face_match_count ?? null,
+        files_removed: filesRemoved,
+        storage_error: storageError ? getErrorMessage(storageError, "Unknown error") : null,
+      });
+
+      if (storageError) {
+        toast({
+          title: "Event Deleted",
+          description: `${event.name} was deleted, but some photo files could not be removed from storage: ${getErrorMessage(storageError, "Unknown error")}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Event Deleted",
+          description: `${event.name} and ${filesRemoved} photo file${filesRemoved !== 1 ? 's' : ''} were deleted.`,
+        });
+      }
+
+      setDeleteTarget(null);
+      await fetchEvents();
+      onEventsChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the event"),
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const canEdit = (event: ManagedEvent) => isAdmin || eventRoles[event.id] === 'owner';
+  const managedEvents = events.filter(canEdit);
+  const visibleEvents = managedEvents.filter(event => showArchived || !event.archived_at);
+  const archivedCount = managedEvents.filter(event => event.archived_at).length;
+  const deletePhotoCount = deletionSummary?.photo_count ?? deleteTarget?.photos[0]?.count ?? 0;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <CalendarCog className="h-6 w-6 text-accent" />
+        <div>
+          <h2 className="text-2xl font-bold text-primary">Events</h2>
+          <p className="text-muted-foreground">
+            Edit the events you own, manage who can access them, and archive or delete them
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>All Events</CardTitle>
+            <CardDescription>
+              Archived events keep their photos and matches but are hidden from the event selector. Only admins can delete events.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived" className="text-sm">
+              Show archived ({archivedCount})
+            </Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Visibility</TableHead>
+                <TableHead>Photos</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleEvents.map((event) => editingId === event.id && draft ? (
+                <TableRow key={event.id}>
+                  <TableCell className="space-y-2 min-w-[240px]">
+                    <Input
+                      aria-label="Event name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    />
+                    <Textarea
+                      aria-label="Description"
+                      placeholder="Description"
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      rows={2}
+                    />
+                  </TableCell>
+                  <TableCell className="space-y-2">
+                    <Input
+                      aria-label="Start date"
+                      type="date"
+                      value={draft.start_date}
+                      onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+                    />
+                    <Input
+                      aria-label="End date"
+                      type="date"
+                      value={draft.end_date}
+                      onChange={(e) => setDraft({ ...draft, end_date: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={draft.visibility}
+                      onValueChange={(value: EventVisibility) => setDraft({ ...draft, visibility: value })}
+                    >
+                      <SelectTrigger className="w-28" aria-label="Visibility">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="public">Public</SelectItem>
+                        <SelectItem value="private">Private</SelectItem>
+                        <SelectItem value="hybrid">Hybrid</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>{event.photos[0]?.count ?? 0}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" onClick={() => saveEvent(event)} disabled={saving} aria-label="Save changes">
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={cancelEditing} disabled={saving} aria-label="Cancel editing">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={event.id} className={event.archived_at ? 'opacity-60' : undefined}>
+                  <TableCell>
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {event.logo_url ? (
+                          <img src={event.logo_url} alt="" className="h-5 w-5 rounded object-contain" />
+                        ) : event.brand_color && (
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: event.brand_color }} />
+                        )}
+                        {event.name}
+                        {event.archived_at && <Badge variant="secondary">Archived</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground font-mono">/e/{event.slug}</p>
+                      {event.description && (
+                        <p className="text-sm text-muted-foreground line-clamp-2">{event.description}</p>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(`${event.start_date}T00:00:00`).toLocaleDateString()}
+                    {event.end_date && event.end_date !== event.start_date && (
+                      <> – {new Date(`${event.end_date}T00:00:00`).toLocaleDateString()}</>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">{event.visibility ?? 'public'}</Badge>
+                  </TableCell>
+                  <TableCell>{event.photos[0]?.count ?? 0}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {canEdit(event) && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => startEditing(event)}
+                            disabled={Boolean(editingId)}
+                            aria-label={`Edit ${event.name}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setMembersTarget(event)}
+                            aria-label={`Members of ${event.name}`}
+                          >
+                            <Users className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPosterTarget(event)}
+                            aria-label={`QR code and poster for ${event.name}`}
+                          >
+                            <QrCode className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openBranding(event)}
+                            aria-label={`Branding for ${event.name}`}
+                          >
+                            <Palette className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setArchived(event, !event.archived_at)}
+                            aria-label={`${event.archived_at ? 'Restore' : 'Archive'} ${event.name}`}
+                          >
+                            {event.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </Button>
+                        </>
+                      )}
+                      {isAdmin && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => confirmDelete(event)}
+                          aria-label={`Delete ${event.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {visibleEvents.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No events yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(membersTarget)} onOpenChange={(open) => !open && setMembersTarget(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Members of {membersTarget?.name}</DialogTitle>
+            <DialogDescription>
+              Only members can see a private or hybrid event's photos. Admins can always see and manage every event.
+            </DialogDescription>
+          </DialogHeader>
+          {membersTarget && (
+            <div className="space-y-6">
+              <EventMembers eventId={membersTarget.id} eventName={membersTarget.name} />
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Invites</h3>
+                <EventInvites eventId={membersTarget.id} eventName={membersTarget.name} />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(posterTarget)} onOpenChange={(open) => !open && setPosterTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>QR Code for {posterTarget?.name}</DialogTitle>
+            <DialogDescription>
+              Put it on posters at the venue so attendees can find their photos. The poster uses the event's branding.
+            </DialogDescription>
+          </DialogHeader>
+          {posterTarget && <EventPoster eventId={posterTarget.id} event={posterTarget} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(brandingTarget)} onOpenChange={(open) => !open && !savingBranding && closeBranding()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Branding for {brandingTarget?.name}</DialogTitle>
+            <DialogDescription>
+              Shown on the event's public page and in the event selector. Changing the URL breaks links and QR codes already shared.
+            </DialogDescription>
+          </DialogHeader>
+          {brandingTarget && brandingDraft && (
+            <EventBrandingFields value={brandingDraft} onChange={setBrandingDraft} eventId={brandingTarget.id} />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeBranding} disabled={savingBranding}>
+              Cancel
+            </Button>
+            <Button onClick={saveBranding} disabled={savingBranding}>
+              {savingBranding ? "Saving..." : "Save Branding"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && !deleting && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>This permanently deletes the event and everything attached to it:</p>
+                <ul className="list-disc pl-5 space-y-1">
+                  <li>
+                    {deletePhotoCount} photo{deletePhotoCount !== 1 ? 's' : ''} and the faces detected in them
+                  </li>
+                  <li>The original image files, logo and cover in storage</li>
+                  <li>
+                    {deletionSummary
+                      ? `${deletionSummary.face_match_count} face match${deletionSummary.face_match_count !== 1 ? 'es' : ''} for ${deletionSummary.matched_user_count} user${deletionSummary.matched_user_count !== 1 ? 's' : ''}`
+                      : 'All face matches found in its photos'}
+                  </li>
+                  {Boolean(deletionSummary?.member_count) && (
+                    <li>{deletionSummary?.member_count} event membership{deletionSummary?.member_count !== 1 ? 's' : ''}</li>
+                  )}
+                </ul>
+                <p>This cannot be undone. To hide the event but keep its photos, archive it instead.</p>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the delete finishes
+                e.preventDefault();
+                deleteEvent();
+              }}
+              disabled={deleting}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {deleting ? "Deleting..." : "Delete Event"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EventManagement;
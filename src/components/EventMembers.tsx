@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import type { Database } from "@/integrations/supabase/types";
+
+export type EventMemberRole = Database['public']['Enums']['event_member_role'];
+type EventMember = Database['public']['Functions']['get_event_members']['Returns'][number];
+
+export const EVENT_ROLE_LABELS: Record<EventMemberRole, string> = {
+  owner: 'Owner',
+  photographer: 'Photographer',
+  viewer: 'Viewer',
+};
+
+interface EventMembersProps {
+  eventId: string;
+  eventName: string;
+}
+
+/** Lists an event's members for its owners, with invite, role change and removal. */
+const EventMembers = ({ eventId, eventName }: EventMembersProps) => {
+  const [members, setMembers] = useState<EventMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<EventMemberRole>('photographer');
+  const [adding, setAdding] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getCurrentUser();
+  }, []);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [eventId]);
+
+  const getCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      setCurrentUserId(user.id);
+    }
+  };
+
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_event_members', { target_event_id: eventId });
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to load members"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const logMemberChange = async (description: string, metadata: Record<string, unknown>) => {
+    await supabase
+      .from('activity_logs')
+      .insert({
+        user_id: currentUserId,
+        activity_type: 'event_updated',
+        description,
+        metadata: { event_id: eventId, event_name: eventName, ...metadata, timestamp: new Date().toISOString() }
+      });
+  };
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAdding(true);
+    try {
+      const { error } = await supabase.rpc('add_event_member', {
+        target_event_id: eventId,
+        member_email: email,
+        member_role: role,
+      });
+
+      if (error) throw error;
+
+      await logMemberChange(`Added ${email} to ${eventName} as ${role}`, {
+        action: 'member_added',
+        member_email: email,
+        role,
+      });
+
+      toast({
+        title: "Member Added",
+        description: `${email} can now access ${eventName} as ${role}.`,
+      });
+      setEmail("");
+      await fetchMembers();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to add the member"),
+        variant: "destructive",
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const changeRole = async (member: EventMember, newRole: EventMemberRole) => {
+    try {
+      const { error } = await supabase
+        .from('event_members')
+        .update({ role: newRole })
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      await logMemberChange(`Changed ${member.email}'s role in ${eventName} to ${newRole}`, {
+        action: 'member_role_changed',
+        member_user_id: member.user_id,
+        role: { from: member.role, to: newRole },
+      });
+
+      setMembers(current => current.map(m => (m.id === member.id ? { ...m, role: newRole } : m)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to change the role"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeMember = async (member: EventMember) => {
+    try {
+      const { error } = await supabase
+        .from('event_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      await logMemberChange(`Removed ${member.email} from ${eventName}`, {
+        action: 'member_removed',
+        member_user_id: member.user_id,
+        role: member.role,
+      });
+
+      setMembers(current => current.filter(m => m.id !== member.id));
+      toast({
+        title: "Member Removed",
+        description: `${member.full_name || member.email} no longer has access to ${eventName}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to remove the member"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={addMember} className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="member-email">Add by email</Label>
+          <Input
+            id="member-email"
+            type="email"
+            placeholder="photographer@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+        <Select value={role} onValueChange={(value: EventMemberRole) => setRole(value)}>
+          <SelectTrigger className="sm:w-40" aria-label="Role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(EVENT_ROLE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={adding}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          {adding ? "Adding..." : "Add"}
+        </Button>
+      </form>
+      <p className="text-sm text-muted-foreground">
+        Owners edit the event and manage its members, photographers upload photos, and viewers browse the photos and find themselves. People need an account before they can be added.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-accent"></div>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead className="w-12"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map((member) => (
+              <TableRow key={member.id}>
+                <TableCell>
+                  <p className="font-medium">{member.full_name || 'No name'}</p>
+                  <p className="text-sm text-muted-foreground">{member.email}</p>
+                </TableCell>
+                <TableCell>
+                  {/* Owners can't demote or remove themselves, so an event always keeps one */}
+                  <Select
+                    value={member.role}
+                    onValueChange={(value: EventMemberRole) => changeRole(member, value)}
+                    disabled={member.user_id === currentUserId}
+                  >
+                    <SelectTrigger className="w-36" aria-label={`Role of ${member.email}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(EVENT_ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMember(member)}
+                    disabled={member.user_id === currentUserId}
+                    aria-label={`Remove ${member.email}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {members.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-muted-foreground py-6">
+                  No members yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default EventMembers;
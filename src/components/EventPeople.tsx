@@ -0,0 +1,477 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Contact, Merge, RefreshCw, Search, Split, UserPlus, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { signPhotoPaths } from "@/lib/photo-storage";
+import FaceCrop from "@/components/FaceCrop";
+import { clusterFaces, fromVectorLiteral, type BoundingBox } from "@/lib/face";
+import type { Database } from "@/integrations/supabase/types";
+
+type EventFace = Database['public']['Functions']['get_event_faces']['Returns'][number];
+type PersonCluster = Database['public']['Functions']['get_event_face_clusters']['Returns'][number];
+type ProfileResult = Database['public']['Functions']['search_profiles']['Returns'][number];
+
+// Faces seen only once are left ungrouped rather than shown as a person each
+const MIN_CLUSTER_SIZE = 2;
+
+// The API caps each response at 1000 rows, so an event's faces are read a page at a time
+const FACES_PAGE_SIZE = 1000;
+
+const fetchEventFaces = async (eventId: string) => {
+  const faces: EventFace[] = [];
+  for (let from = 0; ; from += FACES_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('get_event_faces', { target_event_id: eventId })
+      .range(from, from + FACES_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    faces.push(...(data || []));
+    if (!data || data.length < FACES_PAGE_SIZE) return faces;
+  }
+};
+
+interface EventPeopleProps {
+  selectedEvent: string;
+  events: Array<{ id: string; name: string; }>;
+}
+
+const EventPeople = ({ selectedEvent, events }: EventPeopleProps) => {
+  const [faces, setFaces] = useState<EventFace[]>([]);
+  // Signed URLs of the faces' photos, by file_path
+  const [photoUrls, setPhotoUrls] = useState<Map<string, string>>(new Map());
+  const [clusters, setClusters] = useState<PersonCluster[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [clustering, setClustering] = useState(false);
+  const [selectedClusters, setSelectedClusters] = useState<string[]>([]);
+  const [splitCluster, setSplitCluster] = useState<PersonCluster | null>(null);
+  const [splitFaceIds, setSplitFaceIds] = useState<string[]>([]);
+  const [attachCluster, setAttachCluster] = useState<PersonCluster | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [profileResults, setProfileResults] = useState<ProfileResult[]>([]);
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const selectedEventName = events.find(e => e.id === selectedEvent)?.name || "No event selected";
+  const facesById = new Map(faces.map(face => [face.id, face]));
+  const ungroupedCount = faces.filter(face => !face.cluster_id).length;
+
+  useEffect(() => {
+    setSelectedClusters([]);
+    if (selectedEvent) {
+      loadPeople();
+    } else {
+      setFaces([]);
+      setClusters([]);
+    }
+  }, [selectedEvent]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const loadPeople = async () => {
+    setLoading(true);
+    try {
+      const [eventFaces, clustersResult] = await Promise.all([
+        fetchEventFaces(selectedEvent),
+        supabase.rpc('get_event_face_clusters', { target_event_id: selectedEvent }),
+      ]);
+
+      if (clustersResult.error) throw clustersResult.error;
+
+      setFaces(eventFaces);
+      setPhotoUrls(await signPhotoPaths(eventFaces.map(face => face.file_path)));
+      setClusters(clustersResult.data || []);
+    } catch (error) {
+      showError(error, "Failed to load people");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runClustering = async () => {
+    setClustering(true);
+    try {
+      // Faces already attached to someone stay where an owner put them
+      const attached = new Set(clusters.filter(cluster => cluster.user_id).map(cluster => cluster.id));
+      const candidates = faces.filter(face => !face.cluster_id || !attached.has(face.cluster_id));
+
+      // Embeddings from different models are not comparable
+      const byModel = new Map<string, EventFace[]>();
+      candidates.forEach(face => {
+        byModel.set(face.model, [...(byModel.get(face.model) ?? []), face]);
+      });
+
+      const groups = Array.from(byModel.values())
+        .flatMap(modelFaces => clusterFaces(
+          modelFaces.map(face => ({ id: face.id, embedding: fromVectorLiteral(face.embedding) }))
+        ))
+        .filter(group => group.faceIds.length >= MIN_CLUSTER_SIZE);
+
+      const { error } = await supabase.rpc('save_face_clusters', {
+        target_event_id: selectedEvent,
+        clusters: groups.map(group => ({
+          face_ids: group.faceIds,
+          representative_face_id: group.representativeId,
+        })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "People Found",
+        description: `Grouped ${candidates.length} faces into ${groups.length} people.`,
+      });
+      await loadPeople();
+    } catch (error) {
+      showError(error, "Failed to group faces");
+    } finally {
+      setClustering(false);
+    }
+  };
+
+  const toggleSelected = (clusterId: string) => {
+    setSelectedClusters(prev =>
+      prev.includes(clusterId) ? prev.filter(id => id !== clusterId) : [...prev, clusterId]
+    );
+  };
+
+  const mergeSelected = async () => {
+    // Keep the cluster with the most photos; the list is already sorted that way
+    const [target, ...sources] = clusters
+      .filter(cluster => selectedClusters.includes(cluster.id))
+      .map(cluster => cluster.id);
+    if (!target || sources.length === 0) return;
+
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc('merge_face_clusters', {
+        target_cluster_id: target,
+        source_cluster_ids: sources,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "People Merged",
+        description: `Merged ${sources.length + 1} groups into one person.`,
+      });
+      setSelectedClusters([]);
+      await loadPeople();
+    } catch (error) {
+      showError(error, "Failed to merge people");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openSplit = (cluster: PersonCluster) => {
+    setSplitCluster(cluster);
+    setSplitFaceIds([]);
+  };
+
+  const splitSelectedFaces = async () => {
+    if (!splitCluster || splitFaceIds.length === 0) return;
+
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc('split_face_cluster', {
+        source_cluster_id: splitCluster.id,
+        face_ids: splitFaceIds,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Person Split",
+        description: `Moved ${splitFaceIds.length} face${splitFaceIds.length !== 1 ? 's' : ''} into a new person.`,
+      });
+      setSplitCluster(null);
+      await loadPeople();
+    } catch (error) {
+      showError(error, "Failed to split person");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openAttach = (cluster: PersonCluster) => {
+    setAttachCluster(cluster);
+    setSearchTerm("");
+    setProfileResults([]);
+  };
+
+  const searchProfiles = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchTerm.trim()) return;
+
+    try {
+      const { data, error } = await supabase.rpc('search_profiles', {
+        search_term: searchTerm.trim(),
+        target_event_id: selectedEvent,
+      });
+      if (error) throw error;
+      setProfileResults(data || []);
+    } catch (error) {
+      showError(error, "Failed to search users");
+    }
+  };
+
+  const attachToProfile = async (profile: ProfileResult) => {
+    if (!attachCluster) return;
+
+    setWorking(true);
+    try {
+      const { data: created, error } = await supabase.rpc('attach_face_cluster', {
+        target_cluster_id: attachCluster.id,
+        target_user_id: profile.user_id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Person Identified",
+        description: `Attached to ${profile.full_name || profile.email} and added ${created ?? 0} new photo match${created === 1 ? '' : 'es'}.`,
+      });
+      setAttachCluster(null);
+      await loadPeople();
+    } catch (error) {
+      showError(error, "Failed to attach person");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const renderFace = (face: EventFace | undefined, className?: string) =>
+    face ? (
+      <FaceCrop src={photoUrls.get(face.file_path) ?? ""} box={face.bbox as unknown as BoundingBox} className={className} />
+    ) : (
+      <div className={`aspect-square rounded-md bg-muted flex items-center justify-center ${className ?? ''}`}>
+        <Contact className="h-8 w-8 text-muted-foreground" />
+      </div>
+    );
+
+  const clusterName = (cluster: PersonCluster, index: number) =>
+    cluster.full_name || cluster.email || `Person ${index + 1}`;
+
+  const splitClusterFaces = splitCluster ? faces.filter(face => face.cluster_id === splitCluster.id) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Contact className="h-6 w-6 text-accent" />
+        <div>
+          <h2 className="text-2xl font-bold text-primary">People</h2>
+          <p className="text-muted-foreground">
+            Everyone who appears in {selectedEventName}, grouped by face
+          </p>
+        </div>
+      </div>
+
+      {!selectedEvent ? (
+        <Card className="border-yellow-500/50">
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">Select an event to see the people in it.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <p className="text-sm text-muted-foreground">
+              {faces.length} faces detected · {clusters.length} people · {ungroupedCount} ungrouped
+            </p>
+            <div className="flex gap-2">
+              {selectedClusters.length >= 2 && (
+                <Button variant="outline" size="sm" onClick={mergeSelected} disabled={working}>
+                  <Merge className="h-4 w-4 mr-2" />
+                  Merge {selectedClusters.length} selected
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={loadPeople} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button size="sm" onClick={runClustering} disabled={clustering || loading || faces.length === 0}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                {clustering ? "Grouping..." : "Find People"}
+              </Button>
+            </div>
+          </div>
+
+          {loading && (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+            </div>
+          )}
+
+          {!loading && clusters.length === 0 && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-center space-y-2">
+                  <Contact className="h-12 w-12 text-muted-foreground mx-auto" />
+                  <h3 className="text-lg font-semibold text-foreground">No People Yet</h3>
+                  <p className="text-muted-foreground">
+                    {faces.length > 0
+                      ? 'Click "Find People" to group the faces in this event.'
+                      : "Upload photos to this event to detect faces."}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {!loading && clusters.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+              {clusters.map((cluster, index) => (
+                <Card key={cluster.id} className="overflow-hidden">
+                  <div className="relative">
+                    {renderFace(facesById.get(cluster.representative_face_id), "rounded-none")}
+                    <Checkbox
+                      checked={selectedClusters.includes(cluster.id)}
+                      onCheckedChange={() => toggleSelected(cluster.id)}
+                      className="absolute top-2 left-2 bg-background"
+                      aria-label="Select for merging"
+                    />
+                  </div>
+                  <CardContent className="p-3 space-y-2">
+                    <div>
+                      <p className="text-sm font-medium truncate">{clusterName(cluster, index)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {cluster.photo_count} photo{cluster.photo_count !== 1 ? 's' : ''} · {cluster.face_count} face{cluster.face_count !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    {cluster.user_id && <Badge variant="secondary">Identified</Badge>}
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" className="flex-1 px-2" onClick={() => openSplit(cluster)}>
+                        <Split className="h-3 w-3 mr-1" />
+                        Faces
+                      </Button>
+                      {!cluster.user_id && (
+                        <Button variant="ghost" size="sm" className="flex-1 px-2" onClick={() => openAttach(cluster)}>
+                          <UserPlus className="h-3 w-3 mr-1" />
+                          Attach
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Split dialog */}
+      <Dialog open={Boolean(splitCluster)} onOpenChange={(open) => !open && setSplitCluster(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Faces in this group</DialogTitle>
+            <DialogDescription>
+              Select faces that belong to someone else and move them into a new person.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-4 md:grid-cols-6 gap-2 max-h-[50vh] overflow-y-auto">
+            {splitClusterFaces.map(face => {
+              const selected = splitFaceIds.includes(face.id);
+              return (
+                <button
+                  key={face.id}
+                  type="button"
+                  onClick={() => setSplitFaceIds(prev => selected ? prev.filter(id => id !== face.id) : [...prev, face.id])}
+                  className={`rounded-md border-2 transition-colors ${selected ? 'border-accent' : 'border-transparent'}`}
+                >
+                  {renderFace(face)}
+                </button>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSplitCluster(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={splitSelectedFaces}
+              disabled={working || splitFaceIds.length === 0 || splitFaceIds.length === splitClusterFaces.length}
+            >
+              <Split className="h-4 w-4 mr-2" />
+              Split {splitFaceIds.length || ''} into new person
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Attach dialog */}
+      <Dialog open={Boolean(attachCluster)} onOpenChange={(open) => !open && setAttachCluster(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Who is this?</DialogTitle>
+            <DialogDescription>
+              Attaching this person to one of the event's members adds all of their photos to that member's Face Match results.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={searchProfiles} className="flex gap-2">
+            <Input
+              placeholder="Search members by name or email"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {profileResults.map(profile => (
+              <div key={profile.user_id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{profile.full_name || 'Unnamed user'}</p>
+                  <p className="text-xs text-muted-foreground truncate">{profile.email}</p>
+                </div>
+                <Button size="sm" onClick={() => attachToProfile(profile)} disabled={working}>
+                  Attach
+                </Button>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Information */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg text-accent">How Grouping Works</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Faces are compared in your browser and grouped by similarity. Running it again regroups everyone except people already attached to a user.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg text-accent">Fixing Mistakes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              Select two or more people to merge them, or open a person's faces to split out someone who doesn't belong.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default EventPeople;
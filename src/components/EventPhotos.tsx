@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Images, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import PhotoGallery, { type GalleryPhoto } from "@/components/PhotoGallery";
+import { withSignedUrls } from "@/lib/photo-storage";
+
+interface EventPhotosProps {
+  selectedEvent: string;
+  events: Array<{ id: string; name: string }>;
+}
+
+/** Browse every photo of the selected event (or of all events). */
+const EventPhotos = ({ selectedEvent, events }: EventPhotosProps) => {
+  const [photos, setPhotos] = useState<GalleryPhoto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const selectedEventName = events.find(e => e.id === selectedEvent)?.name || "All Events";
+
+  useEffect(() => {
+    fetchPhotos();
+  }, [selectedEvent]);
+
+  const fetchPhotos = async () => {
+    setLoading(true);
+    try {
+      // get_safe_photos leaves out face data, which only matching needs
+      const { data, error } = await supabase.rpc('get_safe_photos', {
+        event_id_filter: selectedEvent || undefined,
+      });
+
+      if (error) throw error;
+      setPhotos(await withSignedUrls((data || []).map(photo => ({
+        ...photo,
+        event_name: events.find(e => e.id === photo.event_id)?.name,
+      }))));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to load photos"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Images className="h-6 w-6 text-accent" />
+          <div>
+            <h2 className="text-2xl font-bold text-primary">Event Photos</h2>
+            <p className="text-muted-foreground">
+              All photos from {selectedEventName}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchPhotos} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading ? (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center space-y-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent mx-auto"></div>
+              <p className="text-muted-foreground">Loading photos...</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <PhotoGallery
+          photos={photos}
+          archiveName={`${selectedEventName} photos`}
+          emptyMessage={`No photos have been uploaded to ${selectedEventName} yet.`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EventPhotos;
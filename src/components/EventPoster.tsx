@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { saveBlob } from "@/lib/zip-download";
+import { formatInviteCode, getInviteUrl, isInviteOutstanding, type EventInvite } from "@/lib/invites";
+import { buildPosterHtml, getEventPageUrl, printHtml, renderQrPng, renderQrSvg, type PosterEvent } from "@/lib/event-poster";
+import type { Database } from "@/integrations/supabase/types";
+
+interface EventPosterProps {
+  eventId: string;
+  event: PosterEvent & { visibility: Database['public']['Enums']['event_visibility'] | null };
+}
+
+// The select's value is this or an invite id
+const SEARCH_TARGET = 'search';
+
+/**
+ * QR codes for an event's face search page or one of its invites, with SVG and
+ * PNG downloads and a printable A4 poster. Everything is rendered in the browser.
+ */
+const EventPoster = ({ eventId, event }: EventPosterProps) => {
+  const [invites, setInvites] = useState<EventInvite[]>([]);
+  const hasPublicPage = event.visibility !== 'private';
+  const [target, setTarget] = useState(hasPublicPage ? SEARCH_TARGET : "");
+  const [qrSvg, setQrSvg] = useState<string | null>(null);
+  const [printing, setPrinting] = useState(false);
+  const { toast } = useToast();
+
+  const invite = invites.find(i => i.id === target);
+  const url = target === SEARCH_TARGET ? getEventPageUrl(event.slug) : invite ? getInviteUrl(invite.token) : null;
+  const fileBase = `${event.slug}-${invite ? 'invite' : 'photos'}-qr`;
+
+  useEffect(() => {
+    fetchInvites();
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!url) {
+      setQrSvg(null);
+      return;
+    }
+    let cancelled = false;
+    renderQrSvg(url)
+      .then(svg => !cancelled && setQrSvg(svg))
+      .catch(error => console.error('Error rendering QR code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const fetchInvites = async () => {
+    // A poster hangs where anyone can scan it, so it never carries an invite that grants more than viewing
+    const { data, error } = await supabase
+      .from('event_invites')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('role', 'viewer')
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching invites:', error);
+      return;
+    }
+    const outstanding = (data || []).filter(isInviteOutstanding);
+    setInvites(outstanding);
+    if (!hasPublicPage && outstanding.length > 0) {
+      setTarget(current => current || outstanding[0].id);
+    }
+  };
+
+  const downloadSvg = () => {
+    if (!qrSvg) return;
+    saveBlob(new Blob([qrSvg], { type: 'image/svg+xml' }), `${fileBase}.svg`);
+  };
+
+  const downloadPng = async () => {
+    if (!url) return;
+    try {
+      saveBlob(await renderQrPng(url), `${fileBase}.png`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create the PNG"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const printPoster = async () => {
+    if (!url) return;
+    setPrinting(true);
+    try {
+      const html = await buildPosterHtml(event, {
+        url,
+        inviteCode: invite?.code ? formatInviteCode(invite.code) : undefined,
+      });
+      await printHtml(html);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create the poster"),
+        variant: "destructive",
+      });
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>QR code opens</Label>
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger aria-label="QR code target">
+            <SelectValue placeholder="Choose an invite" />
+          </SelectTrigger>
+          <SelectContent>
+            {hasPublicPage && (
+              <SelectItem value={SEARCH_TARGET}>Face search page</SelectItem>
+            )}
+            {invites.map(i => (
+              <SelectItem key={i.id} value={i.id}>
+                Invite {i.code ? formatInviteCode(i.code) : "(link only)"}
+                {i.max_uses !== null ? ` (${i.use_count}/${i.max_uses} used)` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!hasPublicPage && invites.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Private events have no public page. Create a viewer invite under Members to put one on a poster.
+          </p>
+        )}
+        {hasPublicPage && event.visibility === 'hybrid' && target === SEARCH_TARGET && (
+          <p className="text-sm text-muted-foreground">
+            Attendees will need to sign in and enter the access code. Use a viewer invite to let them straight in.
+          </p>
+        )}
+      </div>
+
+      {url && (
+        <div className="flex flex-col items-center gap-3">
+          <div className="h-56 w-56 rounded-md border bg-white p-2">
+            {qrSvg && (
+              <img
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrSvg)}`}
+                alt={`QR code for ${url}`}
+                className="h-full w-full"
+              />
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground font-mono break-all text-center">{url}</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={downloadSvg} disabled={!qrSvg}>
+              <Download className="h-4 w-4 mr-2" />
+              SVG
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadPng}>
+              <Download className="h-4 w-4 mr-2" />
+              PNG
+            </Button>
+            <Button size="sm" onClick={printPoster} disabled={printing}>
+              <Printer className="h-4 w-4 mr-2" />
+              {printing ? "Preparing..." : "Print A4 Poster"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventPoster;
@@ -0,0 +1,30 @@
+import { cn } from "@/lib/utils";
+import type { BoundingBox } from "@/lib/face";
+
+interface FaceCropProps {
+  src: string;
+  /** Face box as fractions of the image width/height, as stored in photos.face_data. */
+  box: BoundingBox;
+  className?: string;
+}
+
+/** Shows just the face region of an image by scaling and offsetting it as a background. */
+const FaceCrop = ({ src, box, className }: FaceCropProps) => {
+  const position = (offset: number, extent: number) =>
+    extent >= 1 ? 0 : (offset / (1 - extent)) * 100;
+
+  return (
+    <div
+      role="img"
+      aria-label="Face crop"
+      className={cn("aspect-square rounded-md bg-muted bg-no-repeat", className)}
+      style={{
+        backgroundImage: `url("${src}")`,
+        backgroundSize: `${100 / box.width}% ${100 / box.height}%`,
+        backgroundPosition: `${position(box.x, box.width)}% ${position(box.y, box.height)}%`,
+      }}
+    />
+  );
+};
+
+export default FaceCrop;
@@ -0,0 +1,429 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { UserCheck, Camera, RefreshCw, Trash2, ShieldCheck, CheckCircle, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { useCamera } from "@/hooks/use-camera";
+import { useFaceTracker } from "@/hooks/use-face-tracker";
+import { completeLivenessCheck, startLivenessCheck, type LivenessCheck } from "@/lib/liveness-checks";
+import {
+  averageEmbeddings,
+  getFaceEmbeddingProvider,
+  isInPose,
+  toVectorLiteral,
+  type HeadPose,
+  type LivenessChallengeType,
+  type LivenessResult,
+  type LivenessStatus,
+} from "@/lib/face";
+
+interface FaceTemplate {
+  id: string;
+  model: string;
+  sample_count: number;
+  updated_at: string;
+}
+
+// A template is trusted by matching from then on, so every capture needs its own liveness pass.
+// save_face_template only accepts checks the server has confirmed, one for each challenge.
+const ENROLLMENT_STEPS: Array<{ pose: HeadPose; challenge: LivenessChallengeType; prompt: string }> = [
+  { pose: 'frontal', challenge: 'blink', prompt: "Look straight at the camera" },
+  { pose: 'left', challenge: 'turn_left', prompt: "Keep your head turned to your left" },
+  { pose: 'right', challenge: 'turn_right', prompt: "Keep your head turned to your right" },
+];
+
+const FaceEnrollment = () => {
+  const [template, setTemplate] = useState<FaceTemplate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [enrolling, setEnrolling] = useState(false);
+  const [samples, setSamples] = useState<number[][]>([]);
+  const [livenessResults, setLivenessResults] = useState<LivenessResult[]>([]);
+  const [livenessCheckIds, setLivenessCheckIds] = useState<string[]>([]);
+  const [livenessCheck, setLivenessCheck] = useState<LivenessCheck | null>(null);
+  const [challengeStatus, setChallengeStatus] = useState<LivenessStatus>('pending');
+  const [verifying, setVerifying] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { videoRef, attachVideo, stream, start, stop, captureFrame } = useCamera();
+  const challenge = livenessCheck?.challenge ?? null;
+  const trackedFrame = useFaceTracker(
+    videoRef,
+    enrolling && Boolean(stream) && Boolean(challenge) && challengeStatus === 'pending' && !verifying
+  );
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchTemplate();
+  }, []);
+
+  // Evaluate the current step's liveness challenge against each tracked video frame
+  useEffect(() => {
+    if (!trackedFrame || !livenessCheck || challengeStatus !== 'pending' || verifying) return;
+
+    const status = livenessCheck.challenge.update(trackedFrame.faces, trackedFrame.timestamp);
+    if (status === 'passed') {
+      confirmLiveness(livenessCheck);
+    } else if (status === 'failed') {
+      setChallengeStatus('failed');
+    }
+  }, [trackedFrame, livenessCheck, challengeStatus, verifying]);
+
+  const beginStep = async (step: number) => {
+    setLivenessCheck(null);
+    setChallengeStatus('pending');
+    try {
+      setLivenessCheck(await startLivenessCheck(ENROLLMENT_STEPS[step].challenge));
+    } catch (error) {
+      setChallengeStatus('failed');
+      toast({
+        title: "Liveness Error",
+        description: getErrorMessage(error, "Failed to start the liveness check"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The server replays the challenge from the tracked frames before the capture counts
+  const confirmLiveness = async (check: LivenessCheck) => {
+    setVerifying(true);
+    try {
+      setChallengeStatus(await completeLivenessCheck(check) ? 'passed' : 'failed');
+    } catch (error) {
+      setChallengeStatus('failed');
+      toast({
+        title: "Liveness Error",
+        description: getErrorMessage(error, "Failed to confirm the liveness check"),
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const fetchTemplate = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('face_templates')
+        .select('id, model, sample_count, updated_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setTemplate(data);
+    } catch (error) {
+      console.error('Error fetching face template:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEnrollment = async () => {
+    try {
+      await start();
+      setSamples([]);
+      setLivenessResults([]);
+      setLivenessCheckIds([]);
+      beginStep(0);
+      setEnrolling(true);
+    } catch (error) {
+      toast({
+        title: "Camera Error",
+        description: "Failed to access camera. Please ensure camera permissions are granted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cancelEnrollment = () => {
+    stop();
+    setEnrolling(false);
+    setSamples([]);
+    setLivenessResults([]);
+    setLivenessCheckIds([]);
+    setLivenessCheck(null);
+  };
+
+  const captureSample = async () => {
+    const step = ENROLLMENT_STEPS[samples.length];
+    const livenessResult = challenge?.result();
+    const canvas = canvasRef.current;
+    if (!step || challengeStatus !== 'passed' || !livenessResult?.passed || !canvas || !captureFrame(canvas)) return;
+
+    setProcessing(true);
+    try {
+      const provider = getFaceEmbeddingProvider();
+      await provider.load();
+      const faces = await provider.detectFaces(canvas);
+
+      if (faces.length !== 1) {
+        toast({
+          title: faces.length ? "More Than One Face" : "No Face Detected",
+          description: faces.length
+            ? "Make sure only your face is in view and try again."
+            : "Keep your face inside the circle and try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // The capture itself has to show the pose the step asked for
+      const face = faces[0];
+      if (!isInPose(face.landmarks, step.pose)) {
+        toast({
+          title: "Pose Not Matched",
+          description: `${step.prompt} while you capture.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const nextSamples = [...samples, face.embedding];
+      const nextResults = [...livenessResults, livenessResult];
+      const nextCheckIds = [...livenessCheckIds, livenessCheck.id];
+      if (nextSamples.length < ENROLLMENT_STEPS.length) {
+        setSamples(nextSamples);
+        setLivenessResults(nextResults);
+        setLivenessCheckIds(nextCheckIds);
+        beginStep(nextSamples.length);
+        return;
+      }
+
+      await saveTemplate(nextSamples, nextResults, nextCheckIds, provider.name);
+    } catch (error) {
+      toast({
+        title: "Enrollment Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const saveTemplate = async (embeddings: number[][], liveness: LivenessResult[], checkIds: string[], model: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase.rpc('save_face_template', {
+      template_embedding: toVectorLiteral(averageEmbeddings(embeddings)),
+      template_model: model,
+      liveness_check_ids: checkIds,
+    });
+
+    if (error) throw error;
+
+    await supabase
+      .from('activity_logs')
+      .insert({
+        user_id: user.id,
+        activity_type: 'face_scanned',
+        description: template ? 'Re-enrolled face profile' : 'Enrolled face profile',
+        metadata: {
+          enrollment: true,
+          sample_count: embeddings.length,
+          poses: ENROLLMENT_STEPS.map(step => step.pose),
+          liveness: liveness.map(result => ({
+            passed: result.passed,
+            challenge: result.challenge,
+            duration_ms: result.durationMs
+          })),
+          model,
+        }
+      });
+
+    stop();
+    setEnrolling(false);
+    setSamples([]);
+    setLivenessResults([]);
+    setLivenessCheckIds([]);
+    setLivenessCheck(null);
+    await fetchTemplate();
+
+    toast({
+      title: "Face Profile Saved",
+      description: "New photos will be matched against your profile without rescanning.",
+    });
+  };
+
+  const deleteTemplate = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('face_templates')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      setTemplate(null);
+
+      toast({
+        title: "Face Profile Deleted",
+        description: "Your stored face template has been removed.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const currentStep = ENROLLMENT_STEPS[samples.length];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg text-accent">
+          <UserCheck className="h-5 w-5" />
+          Face Profile
+        </CardTitle>
+        <CardDescription>
+          Optionally save a face profile so photos uploaded later are matched to you automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-accent mx-auto"></div>
+        )}
+
+        {!loading && !enrolling && template && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Enrolled on {new Date(template.updated_at).toLocaleDateString()} from {template.sample_count} capture{template.sample_count !== 1 ? 's' : ''}.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={startEnrollment}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Re-enroll
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="text-destructive">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete face profile?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Your stored face template will be removed. Existing matches are kept, but new photos will no longer be matched until you scan or enroll again.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={deleteTemplate}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        )}
+
+        {!loading && !enrolling && !template && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Enrollment takes {ENROLLMENT_STEPS.length} quick captures from slightly different angles.
+            </p>
+            <Button size="sm" onClick={startEnrollment}>
+              <UserCheck className="h-4 w-4 mr-2" />
+              Enroll My Face
+            </Button>
+          </div>
+        )}
+
+        {enrolling && currentStep && (
+          <div className="max-w-md mx-auto text-center space-y-4">
+            <div className="relative">
+              <video
+                ref={attachVideo}
+                autoPlay
+                playsInline
+                muted
+                className="w-full max-w-sm mx-auto rounded-lg border"
+              />
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <div className="w-48 h-48 border-2 border-accent rounded-full opacity-50"></div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                Step {samples.length + 1} of {ENROLLMENT_STEPS.length}: {currentStep.prompt}
+              </p>
+              <Progress value={(samples.length / ENROLLMENT_STEPS.length) * 100} className="h-2" />
+            </div>
+            {challenge && challengeStatus === 'pending' && (
+              <div className="flex items-center justify-center gap-2 text-accent">
+                <ShieldCheck className="h-5 w-5 animate-pulse" />
+                <span className="font-medium">
+                  {verifying ? "Confirming liveness..." : `Liveness check: ${challenge.prompt}`}
+                </span>
+              </div>
+            )}
+            {challengeStatus === 'passed' && (
+              <div className="flex items-center justify-center gap-2 text-green-600">
+                <CheckCircle className="h-5 w-5" />
+                <span className="font-medium">Liveness confirmed</span>
+              </div>
+            )}
+            {challengeStatus === 'failed' && (
+              <div className="flex items-center justify-center gap-2 text-destructive">
+                <XCircle className="h-5 w-5" />
+                <span className="font-medium">
+                  {challenge?.result()?.passed
+                    ? "Liveness check failed: it couldn't be confirmed"
+                    : challenge?.result()?.reason === 'multiple_faces'
+                      ? "Liveness check failed: more than one face in view"
+                      : "Liveness check failed: we didn't see the movement in time"}
+                </span>
+              </div>
+            )}
+            <div className="flex gap-2 justify-center">
+              {challengeStatus === 'failed' ? (
+                <Button onClick={() => beginStep(samples.length)} variant="outline">
+                  Try Again
+                </Button>
+              ) : (
+                <Button
+                  onClick={captureSample}
+                  disabled={processing || challengeStatus !== 'passed'}
+                  className="bg-accent hover:bg-accent/90"
+                >
+                  <Camera className="h-4 w-4 mr-2" />
+                  {processing ? "Processing..." : "Capture"}
+                </Button>
+              )}
+              <Button variant="outline" onClick={cancelEnrollment} disabled={processing}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <canvas ref={canvasRef} className="hidden" />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FaceEnrollment;
@@ -1,104 +1,157 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Camera, Download, RefreshCw, Search, AlertCircle } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Camera, RefreshCw, Search, AlertCircle, SlidersHorizontal, Save, ThumbsUp, ThumbsDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import FacePhoto, { type FacePhotoBox } from "@/components/FacePhoto";
+import PhotoGallery, { type GalleryPhoto } from "@/components/PhotoGallery";
+import { withSignedUrls } from "@/lib/photo-storage";
+import {
+  DEFAULT_MATCH_THRESHOLD,
+  MATCH_BANDS,
+  MAX_MATCH_THRESHOLD,
+  MIN_MATCH_THRESHOLD,
+  getMatchBand,
+  toVectorLiteral,
+  type BoundingBox,
+  type FaceScan,
+} from "@/lib/face";
+import type { Database } from "@/integrations/supabase/types";
+
+type MatchFeedback = Database['public']['Enums']['match_feedback'];
+
+// Photo ids fetched per request; a UUID adds about 37 characters to the URL
+const PHOTO_FETCH_BATCH = 100;
 
 interface FaceMatchProps {
   selectedEvent: string;
-  events: Array<{ id: string; name: string; }>;
+  events: Array<{ id: string; name: string; match_threshold?: number | null; }>;
+  faceScan?: FaceScan | null;
+  canEditThreshold?: boolean;
+  onEventUpdated?: () => void;
 }
 
-interface Photo {
-  id: string;
-  file_name: string;
-  file_path: string;
-  file_size: number;
-  created_at: string;
-  confidence_score?: number;
+interface Photo extends GalleryPhoto {
+  event_id: string;
+  feedback?: MatchFeedback | null;
+  /** The matched face, normalised to the image size. */
+  bbox?: BoundingBox | null;
 }
 
-const FaceMatch = ({ selectedEvent, events }: FaceMatchProps) => {
+const FaceMatch = ({ selectedEvent, events, faceScan, canEditThreshold, onEventUpdated }: FaceMatchProps) => {
+  const currentEvent = events.find(e => e.id === selectedEvent);
+  const eventThreshold = Number(currentEvent?.match_threshold ?? DEFAULT_MATCH_THRESHOLD);
+
   const [matchedPhotos, setMatchedPhotos] = useState<Photo[]>([]);
   const [loading, setLoading] = useState(false);
   const [hasScanned, setHasScanned] = useState(false);
+  // The slider moves sliderValue; matches are only re-queried once it is released
+  const [threshold, setThreshold] = useState(eventThreshold);
+  const [sliderValue, setSliderValue] = useState(eventThreshold);
+  const [savingThreshold, setSavingThreshold] = useState(false);
+  const [feedbackPending, setFeedbackPending] = useState<string | null>(null);
+  const [zoomToMe, setZoomToMe] = useState(false);
+  // Face boxes for the photo open in the lightbox
+  const [viewerBoxes, setViewerBoxes] = useState<{ photoId: string; boxes: FacePhotoBox[] } | null>(null);
+  // Only the latest label request may update viewerBoxes
+  const viewerRequest = useRef(0);
   const { toast } = useToast();
 
-  const selectedEventName = events.find(e => e.id === selectedEvent)?.name || "All Events";
+  const selectedEventName = currentEvent?.name || "All Events";
 
   useEffect(() => {
-    checkForPreviousScans();
-  }, [selectedEvent]);
-
-  const checkForPreviousScans = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Check if user has any face scan activities
-      const { data: scans } = await supabase
-        .from('activity_logs')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('activity_type', 'face_scanned')
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-      if (scans && scans.length > 0) {
-        setHasScanned(true);
-        await loadMatches();
-      }
-    } catch (error: any) {
-      console.error('Error checking scans:', error);
-    }
-  };
+    loadMatches(faceScan, threshold);
+  }, [selectedEvent, faceScan, threshold]);
 
-  const loadMatches = async () => {
+  const loadMatches = async (scan: FaceScan | null | undefined, minSimilarity: number) => {
     setLoading(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Use secure function to get face matches with audit logging
-      const { data: faceMatches, error: matchError } = await supabase
-        .rpc('get_user_face_matches', { 
-          target_user_id: user.id 
-        });
+      // Without a fresh scan, search with the enrolled face template if there is one
+      const { data: template } = scan
+        ? { data: null }
+        : await supabase
+            .from('face_templates')
+            .select('id')
+            .eq('user_id', user.id)
+            .maybeSingle();
+      const searched = Boolean(scan || template);
+
+      // Searches run server-side; otherwise show the matches already on record
+      const { data: foundMatches, error: matchError } = searched
+        ? await supabase.rpc('match_faces', {
+            // Omitting the probe makes match_faces use the enrolled template
+            probe_embedding: scan ? toVectorLiteral(scan.embedding) : undefined,
+            probe_model: scan?.model,
+            event_id_filter: selectedEvent || null,
+            match_threshold: minSimilarity,
+          })
+        : await supabase.rpc('get_user_face_matches');
 
       if (matchError) throw matchError;
 
+      // Stored matches were recorded at whatever threshold applied then
+      const faceMatches = searched
+        ? foundMatches
+        : foundMatches?.filter(match => Number(match.confidence_score) >= minSimilarity * 100);
+
+      setHasScanned(searched || (faceMatches?.length ?? 0) > 0);
+
       if (!faceMatches || faceMatches.length === 0) {
         setMatchedPhotos([]);
+        if (searched) {
+          toast({
+            title: "No Matches",
+            description: "No photos found with matching faces. Try scanning again or check a different event.",
+            variant: "destructive",
+          });
+        }
         return;
       }
 
-      // Get photo details for matched photos
+      // Get photo details for matched photos. The ids go in the query string, so fetch them in batches
       const photoIds = faceMatches.map(match => match.photo_id);
-      let photoQuery = supabase
-        .from('photos')
-        .select('*')
-        .in('id', photoIds);
-
-      // Filter by event if one is selected
-      if (selectedEvent) {
-        photoQuery = photoQuery.eq('event_id', selectedEvent);
+      const batches: string[][] = [];
+      for (let i = 0; i < photoIds.length; i += PHOTO_FETCH_BATCH) {
+        batches.push(photoIds.slice(i, i + PHOTO_FETCH_BATCH));
       }
 
-      const { data: photos, error: photoError } = await photoQuery
-        .order('created_at', { ascending: false });
+      const results = await Promise.all(batches.map(ids => {
+        const photoQuery = supabase
+          .from('photos')
+          .select('*')
+          .in('id', ids);
 
+        // Filter by event if one is selected
+        return selectedEvent ? photoQuery.eq('event_id', selectedEvent) : photoQuery;
+      }));
+
+      const photoError = results.find(result => result.error)?.error;
       if (photoError) throw photoError;
 
+      const photos = results
+        .flatMap(result => result.data ?? [])
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
       // Combine photo data with confidence scores from face matches
-      const matchedPhotosWithScores = photos?.map(photo => {
+      const matchedPhotosWithScores = await withSignedUrls(photos.map(photo => {
         const match = faceMatches.find(m => m.photo_id === photo.id);
         return {
           ...photo,
-          confidence_score: match?.confidence_score ? Math.round(Number(match.confidence_score)) : undefined
+          event_name: events.find(e => e.id === photo.event_id)?.name,
+          confidence_score: match?.confidence_score ? Math.round(Number(match.confidence_score)) : undefined,
+          feedback: match?.feedback ?? null,
+          bbox: (match?.bbox as unknown as BoundingBox | null) ?? null
         };
-      }) || [];
+      }));
 
       setMatchedPhotos(matchedPhotosWithScores);
 
@@ -107,7 +160,7 @@ const FaceMatch = ({ selectedEvent, events }: FaceMatchProps) => {
           title: "Matches Found!",
           description: `Found ${matchedPhotosWithScores.length} photo${matchedPhotosWithScores.length !== 1 ? 's' : ''} containing your face.`,
         });
-      } else {
+      } else if (searched) {
         toast({
           title: "No Matches",
           description: "No photos found with matching faces. Try scanning again or check a different event.",
@@ -126,38 +179,148 @@ const FaceMatch = ({ selectedEvent, events }: FaceMatchProps) => {
     }
   };
 
-  const handleDownload = async (photo: Photo) => {
+  const refreshMatches = () => {
+    loadMatches(faceScan, threshold);
+  };
+
+  const saveThresholdAsDefault = async () => {
+    if (!selectedEvent) return;
+    setSavingThreshold(true);
     try {
-      const response = await fetch(photo.file_path);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = photo.file_name;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      window.URL.revokeObjectURL(url);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('events')
+        .update({ match_threshold: threshold })
+        .eq('id', selectedEvent)
+        .select('id');
+
+      if (error) throw error;
+      // RLS filters out events the user may not update instead of raising an error
+      if (!data || data.length === 0) {
+        throw new Error("Only the event's creator or an admin can change its default threshold.");
+      }
+
+      await supabase
+        .from('activity_logs')
+        .insert({
+          user_id: user.id,
+          activity_type: 'event_updated',
+          description: `Set default match threshold for ${selectedEventName} to ${Math.round(threshold * 100)}%`,
+          metadata: { event_id: selectedEvent, match_threshold: threshold }
+        });
 
       toast({
-        title: "Download Started",
-        description: `Downloading ${photo.file_name}`,
+        title: "Default Saved",
+        description: `Face matches in ${selectedEventName} now default to a ${Math.round(threshold * 100)}% threshold.`,
       });
-    } catch (error: any) {
+      onEventUpdated?.();
+    } catch (error) {
       toast({
-        title: "Download Error",
-        description: "Failed to download the photo.",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the default threshold"),
         variant: "destructive",
       });
+    } finally {
+      setSavingThreshold(false);
     }
   };
 
-  const refreshMatches = () => {
-    loadMatches();
+  const submitFeedback = async (photo: Photo, verdict: MatchFeedback) => {
+    setFeedbackPending(photo.id);
+    try {
+      const { data: templateUpdated, error } = await supabase.rpc('submit_match_feedback', {
+        match_photo_id: photo.id,
+        verdict,
+      });
+
+      if (error) throw error;
+
+      if (verdict === 'rejected') {
+        // Rejected photos are excluded server-side from now on
+        setMatchedPhotos(prev => prev.filter(p => p.id !== photo.id));
+        toast({
+          title: "Photo Hidden",
+          description: "Thanks! We won't show you this photo again.",
+        });
+      } else {
+        setMatchedPhotos(prev => prev.map(p => p.id === photo.id ? { ...p, feedback: verdict } : p));
+        toast({
+          title: "Match Confirmed",
+          description: templateUpdated
+            ? "Thanks! Your face profile has been updated to improve future matches."
+            : "Thanks for confirming this photo.",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save your feedback"),
+        variant: "destructive",
+      });
+    } finally {
+      setFeedbackPending(null);
+    }
   };
 
+  const loadViewerBoxes = async (photo: Photo) => {
+    const ownBox: FacePhotoBox[] = photo.bbox ? [{ box: photo.bbox, label: "You", highlight: true }] : [];
+    const request = ++viewerRequest.current;
+    setViewerBoxes({ photoId: photo.id, boxes: ownBox });
+
+    // Other known people in the photo, as far as their privacy settings allow
+    const { data: labels, error } = await supabase.rpc('get_photo_face_labels', { photo_ids: [photo.id] });
+    // The lightbox may have moved on while the labels were loading
+    if (request !== viewerRequest.current) return;
+    if (error) {
+      console.error('Error fetching face labels:', error);
+      return;
+    }
+
+    const labelled: FacePhotoBox[] = (labels || []).map(label => ({
+      box: label.bbox as unknown as BoundingBox,
+      label: label.is_self ? "You" : label.full_name || "Someone",
+      highlight: label.is_self,
+    }));
+    const boxes = labels?.some(label => label.is_self) ? labelled : [...ownBox, ...labelled];
+    setViewerBoxes({ photoId: photo.id, boxes });
+  };
+
+  const renderFeedback = (photo: Photo) => (
+    <div className="flex gap-2">
+      {photo.feedback === 'confirmed' ? (
+        <Badge variant="outline" className="text-green-600 border-green-600/50">
+          <ThumbsUp className="h-3 w-3 mr-1" />
+          Confirmed
+        </Badge>
+      ) : (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1"
+            disabled={feedbackPending === photo.id}
+            onClick={() => submitFeedback(photo, 'confirmed')}
+          >
+            <ThumbsUp className="h-3 w-3 mr-1" />
+            Yes, that's me
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="flex-1"
+            disabled={feedbackPending === photo.id}
+            onClick={() => submitFeedback(photo, 'rejected')}
+          >
+            <ThumbsDown className="h-3 w-3 mr-1" />
+            Not me
+          </Button>
+        </>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
@@ -178,7 +341,7 @@ const FaceMatch = ({ selectedEvent, events }: FaceMatchProps) => {
               <div>
                 <h3 className="text-lg font-semibold text-foreground">No Face Scan Found</h3>
                 <p className="text-muted-foreground">
-                  Please complete a face scan first using the "Scan Face" tab to see your matching photos.
+                  Please complete a face scan or enroll your face profile using the "Scan Face" tab to see your matching photos.
                 </p>
               </div>
             </div>
@@ -194,13 +357,56 @@ const FaceMatch = ({ selectedEvent, events }: FaceMatchProps) => {
               Showing results for: <strong>{selectedEventName}</strong>
             </span>
           </div>
-          <Button variant="outline" size="sm" onClick={refreshMatches} disabled={loading}>
-            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="zoom-to-me" checked={zoomToMe} onCheckedChange={setZoomToMe} />
+              <Label htmlFor="zoom-to-me" className="text-sm">Zoom to me</Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={refreshMatches} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
       )}
 
+      {hasScanned && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-medium">Match threshold: {Math.round(sliderValue * 100)}%</span>
+              </div>
+              {canEditThreshold && selectedEvent && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={saveThresholdAsDefault}
+                  disabled={savingThreshold || threshold === eventThreshold}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save as event default
+                </Button>
+              )}
+            </div>
+            <Slider
+              min={MIN_MATCH_THRESHOLD}
+              max={MAX_MATCH_THRESHOLD}
+              step={0.01}
+              value={[sliderValue]}
+              onValueChange={([value]) => setSliderValue(value)}
+              onValueCommit={([value]) => setThreshold(value)}
+              disabled={loading}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>More photos</span>
+              <span>Fewer, surer matches</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {loading && (
         <Card>
           <CardContent className="pt-6">
@@ -221,55 +427,37 @@ const FaceMatch = ({ selectedEvent, events }: FaceMatchProps) => {
                 Found {matchedPhotos.length} Matching Photo{matchedPhotos.length !== 1 ? 's' : ''}
               </CardTitle>
               <CardDescription>
-                Click on any photo to download the high-resolution version
+                Open any photo to see it full size, or select photos to download them as a ZIP file
               </CardDescription>
             </CardHeader>
           </Card>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {matchedPhotos.map((photo) => (
-              <Card key={photo.id} className="overflow-hidden hover:shadow-lg transition-shadow">
-                <div className="aspect-square relative group cursor-pointer">
-                  <img
-                    src={photo.file_path}
-                    alt={photo.file_name}
-                    className="w-full h-full object-cover"
-                    onError={(e) => {
-                      // Fallback for broken images
-                      e.currentTarget.src = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgZmlsbD0iI2Y3ZjdmNyIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwiIGZvbnQtc2l6ZT0iMTQiIGZpbGw9IiM5OTk5OTkiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5JbWFnZSBOb3QgRm91bmQ8L3RleHQ+PC9zdmc+";
-                    }}
-                  />
-                  <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                    <Button
-                      size="sm"
-                      onClick={() => handleDownload(photo)}
-                      className="bg-accent hover:bg-accent/90"
-                    >
-                      <Download className="h-4 w-4 mr-2" />
-                      Download
-                    </Button>
-                  </div>
-                  {photo.confidence_score && (
-                    <Badge 
-                      variant="secondary" 
-                      className="absolute top-2 right-2 bg-black/70 text-white"
-                    >
-                      {photo.confidence_score}% match
-                    </Badge>
-                  )}
-                </div>
-                <CardContent className="p-3">
-                  <p className="text-sm font-medium truncate">{photo.file_name}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {new Date(photo.created_at).toLocaleDateString()}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    {(photo.file_size / 1024 / 1024).toFixed(1)} MB
-                  </p>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+          <PhotoGallery
+            photos={matchedPhotos}
+            archiveName={`${selectedEventName} photos`}
+            groups={MATCH_BANDS.map(({ band, label, description }) => ({ id: band, label, description }))}
+            groupOf={(photo) => getMatchBand(photo.confidence_score ?? 0)}
+            renderImage={(photo) => (
+              <FacePhoto
+                src={photo.file_path}
+                alt={photo.file_name}
+                boxes={photo.bbox ? [{ box: photo.bbox, highlight: true }] : []}
+                zoomTo={zoomToMe ? photo.bbox : null}
+              />
+            )}
+            renderLightboxImage={(photo) => (
+              <FacePhoto
+                src={photo.file_path}
+                alt={photo.file_name}
+                boxes={viewerBoxes?.photoId === photo.id
+                  ? viewerBoxes.boxes
+                  : photo.bbox ? [{ box: photo.bbox, label: "You", highlight: true }] : []}
+                fit="contain"
+              />
+            )}
+            renderActions={renderFeedback}
+            onLightboxPhotoChange={loadViewerBoxes}
+          />
         </>
       )}
 
@@ -313,7 +501,7 @@ const FaceMatch = ({ selectedEvent, events }: FaceMatchProps) => {
           </CardHeader>
           <CardContent>
             <p className="text-sm text-muted-foreground">
-              Match percentages indicate the AI's confidence level in face recognition accuracy.
+              Match percentages indicate the AI's confidence level in face recognition accuracy. Lower the threshold to see possible matches, or raise it to keep only strong ones.
             </p>
           </CardContent>
         </Card>
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { BoundingBox } from "@/lib/face";
+
+export interface FacePhotoBox {
+  /** Face box as fractions of the image width/height. */
+  box: BoundingBox;
+  label?: string;
+  highlight?: boolean;
+}
+
+interface FacePhotoProps {
+  src: string;
+  alt: string;
+  boxes?: FacePhotoBox[];
+  /** `cover` fills the frame like object-cover; `contain` shows the whole photo. */
+  fit?: 'cover' | 'contain';
+  /** When set, the view is cropped to this face with some surrounding context. */
+  zoomTo?: BoundingBox | null;
+  className?: string;
+}
+
+const FALLBACK_IMAGE = "data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgZmlsbD0iI2Y3ZjdmNyIvPjx0ZXh0IHg9IjUwJSIgeT0iNTAlIiBmb250LWZhbWlseT0iQXJpYWwiIGZvbnQtc2l6ZT0iMTQiIGZpbGw9IiM5OTk5OTkiIHRleHQtYW5jaG9yPSJtaWRkbGUiIGR5PSIuM2VtIj5JbWFnZSBOb3QgRm91bmQ8L3RleHQ+PC9zdmc+";
+
+// How much wider than the face the zoomed view is
+const ZOOM_CONTEXT = 2.5;
+
+/**
+ * A photo with face boxes drawn over it. Rendered as an SVG in the image's own
+ * pixel space so boxes stay aligned whatever the fit, and zooming is just a
+ * different viewBox.
+ */
+const FacePhoto = ({ src, alt, boxes = [], fit = 'cover', zoomTo, className }: FacePhotoProps) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setSize(null);
+    setFailed(false);
+    const image = new Image();
+    image.onload = () => setSize({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => setFailed(true);
+    image.src = src;
+    return () => {
+      image.onload = null;
+      image.onerror = null;
+    };
+  }, [src]);
+
+  if (failed || !size) {
+    return (
+      <img
+        src={failed ? FALLBACK_IMAGE : src}
+        alt={alt}
+        className={cn("w-full h-full", fit === 'cover' ? "object-cover" : "object-contain", className)}
+      />
+    );
+  }
+
+  const { width, height } = size;
+  let viewBox = `0 0 ${width} ${height}`;
+  if (zoomTo) {
+    const side = Math.min(
+      Math.max(zoomTo.width * width, zoomTo.height * height) * ZOOM_CONTEXT,
+      width,
+      height
+    );
+    const centreX = (zoomTo.x + zoomTo.width / 2) * width;
+    const centreY = (zoomTo.y + zoomTo.height / 2) * height;
+    const x = Math.min(Math.max(centreX - side / 2, 0), width - side);
+    const y = Math.min(Math.max(centreY - side / 2, 0), height - side);
+    viewBox = `${x} ${y} ${side} ${side}`;
+  }
+
+  // Label size relative to what is on screen, so it reads the same zoomed in or out
+  const visibleHeight = Number(viewBox.split(" ")[3]);
+  const fontSize = visibleHeight * 0.035;
+
+  return (
+    <svg
+      viewBox={viewBox}
+      preserveAspectRatio={fit === 'cover' ? "xMidYMid slice" : "xMidYMid meet"}
+      role="img"
+      aria-label={alt}
+      className={cn("w-full h-full", className)}
+    >
+      <image href={src} width={width} height={height} />
+      {boxes.map(({ box, label, highlight }, index) => {
+        const x = box.x * width;
+        const y = box.y * height;
+        const colour = highlight ? "#22c55e" : "#facc15";
+        return (
+          <g key={index}>
+            <rect
+              x={x}
+              y={y}
+              width={box.width * width}
+              height={box.height * height}
+              fill="none"
+              stroke={colour}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              rx={4}
+            />
+            {label && (
+              <text
+                x={x}
+                y={Math.max(y - fontSize * 0.3, fontSize)}
+                fontSize={fontSize}
+                fontWeight={600}
+                fill={colour}
+                stroke="rgba(0, 0, 0, 0.7)"
+                strokeWidth={fontSize * 0.15}
+                paintOrder="stroke"
+              >
+                {label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default FacePhoto;
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+
+interface JoinEventProps {
+  eventId: string;
+  eventName: string;
+  onJoined: () => void;
+}
+
+/** Access code form for hybrid events, whose photos are limited to members. */
+const JoinEvent = ({ eventId, eventName, onJoined }: JoinEventProps) => {
+  const [code, setCode] = useState("");
+  const [joining, setJoining] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setJoining(true);
+
+    try {
+      const { error } = await supabase.rpc('join_event', { target_event_id: eventId, code });
+
+      if (error) throw error;
+
+      toast({
+        title: "Welcome!",
+        description: `You've joined ${eventName}.`,
+      });
+      setCode("");
+      onJoined();
+    } catch (error) {
+      toast({
+        title: "Couldn't Join Event",
+        description: getErrorMessage(error, "Check the access code and try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-accent" />
+          Join {eventName}
+        </CardTitle>
+        <CardDescription>
+          Photos from this event are shared with attendees only. Enter the access code from the organiser to browse them and find yourself.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="access-code">Access Code</Label>
+            <Input
+              id="access-code"
+              placeholder="e.g. K7QM3XPA2R"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="off"
+              className="font-mono uppercase tracking-widest"
+              required
+            />
+          </div>
+          <Button type="submit" disabled={joining || !code.trim()} className="w-full">
+            {joining ? "Joining..." : "Join Event"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JoinEvent;
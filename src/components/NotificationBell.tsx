@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell, CheckCheck, Image } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn, getErrorMessage } from "@/lib/utils";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Notification = Tables<'notifications'>;
+
+interface NotificationBellProps {
+  userId: string;
+  /** Called when a notification about an event's photos is opened. */
+  onOpenEvent: (eventId: string) => void;
+}
+
+const MAX_NOTIFICATIONS = 30;
+
+const byLatest = (a: Notification, b: Notification) => b.updated_at.localeCompare(a.updated_at);
+
+const NotificationBell = ({ userId, onOpenEvent }: NotificationBellProps) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchNotifications();
+
+    // New matches insert a notification or bump the count on the unread one
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            setNotifications(current => current.filter(n => n.id !== payload.old.id));
+            return;
+          }
+
+          const notification = payload.new as Notification;
+          setNotifications(current =>
+            [notification, ...current.filter(n => n.id !== notification.id)]
+              .sort(byLatest)
+              .slice(0, MAX_NOTIFICATIONS)
+          );
+
+          if (payload.eventType === 'INSERT') {
+            toast({
+              title: "New photos found",
+              description: notification.title,
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const fetchNotifications = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .limit(MAX_NOTIFICATIONS);
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  };
+
+  const markAsRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(n => ids.includes(n.id) ? { ...n, read_at: readAt } : n));
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .in('id', ids);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update notifications"),
+        variant: "destructive",
+      });
+      fetchNotifications();
+    }
+  };
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.read_at) markAsRead([notification.id]);
+    if (notification.event_id) onOpenEvent(notification.event_id);
+    setOpen(false);
+  };
+
+  const unread = notifications.filter(n => !n.read_at);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="relative"
+          aria-label={unread.length > 0 ? `Notifications (${unread.length} unread)` : "Notifications"}
+        >
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <Badge className="absolute -top-2 -right-2 h-5 min-w-5 px-1 justify-center text-[10px]">
+              {unread.length > 9 ? "9+" : unread.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="font-semibold">Notifications</h3>
+          {unread.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs"
+              onClick={() => markAsRead(unread.map(n => n.id))}
+            >
+              <CheckCheck className="h-3 w-3 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-muted-foreground">
+            <Bell className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            We'll let you know when new photos of you are found.
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <ul className="divide-y">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => openNotification(notification)}
+                    className={cn(
+                      "flex w-full items-start gap-3 px-4 py-3 text-left hover:bg-muted/50",
+                      !notification.read_at && "bg-accent/5"
+                    )}
+                  >
+                    <Image className="h-4 w-4 mt-0.5 shrink-0 text-accent" />
+                    <div className="flex-1 space-y-1">
+                      <p className={cn("text-sm", !notification.read_at && "font-medium")}>
+                        {notification.title}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(notification.updated_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {!notification.read_at && (
+                      <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-accent" aria-label="Unread" />
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -1,34 +1,109 @@
-
-import { useState } from 'react';
+import { useState, useRef, type ReactNode } from 'react';
+import PhotoLightbox from '@/components/PhotoLightbox';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { Download, Share2, Eye, Filter } from 'lucide-react';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Download, Share2, Eye, FileArchive, LayoutGrid, List, Maximize2, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { cn, getErrorMessage } from '@/lib/utils';
+import {
+  MAX_IN_MEMORY_ZIP_BYTES,
+  canStreamZipToDisk,
+  downloadFile,
+  downloadZip,
+  isAbortError,
+  toCsv,
+  type ZipProgress,
+} from '@/lib/zip-download';
+import { photoPageUrl, sharePhotoLink } from '@/lib/photo-links';
+
+export interface GalleryPhoto {
+  id: string;
+  file_name: string;
+  /** Signed URL of the original. */
+  file_path: string;
+  file_size?: number | null;
+  created_at: string;
+  event_name?: string;
+  /** Match confidence, 0-100, for photos found by face matching. */
+  confidence_score?: number;
+}
 
-interface Photo {
+export interface GalleryGroup {
   id: string;
-  url: string;
-  timestamp: string;
-  confidence: number;
-  tags: string[];
+  label: string;
+  description?: string;
 }
 
-interface PhotoGalleryProps {
-  photos: Photo[];
+interface PhotoGalleryProps<T extends GalleryPhoto> {
+  photos: T[];
+  /** File name for "Download all" and "Download selected", without the extension. */
+  archiveName: string;
+  /** Splits the photos into sections, shown in the order of `groups`. */
+  groups?: GalleryGroup[];
+  groupOf?: (photo: T) => string;
+  /** Replaces the plain thumbnail, e.g. to draw face boxes. */
+  renderImage?: (photo: T) => ReactNode;
+  /** Replaces the plain image in the lightbox. */
+  renderLightboxImage?: (photo: T) => ReactNode;
+  /** Extra controls under each photo's details. */
+  renderActions?: (photo: T) => ReactNode;
+  /** Called with the photo shown in the lightbox as it opens and moves between photos. */
+  onLightboxPhotoChange?: (photo: T) => void;
+  emptyMessage?: string;
 }
 
-const PhotoGallery = ({ photos }: PhotoGalleryProps) => {
+const getConfidenceColor = (confidence: number) => {
+  if (confidence >= 90) return 'bg-green-100 text-green-800';
+  if (confidence >= 80) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+const toArchiveName = (name: string) =>
+  `${name.replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'photos'}.zip`;
+
+/**
+ * Photo grid shared by Face Match and the event browser: grid or list view,
+ * a full-screen lightbox, per-photo download and share, and multi-select with a
+ * streamed ZIP download.
+ */
+const PhotoGallery = <T extends GalleryPhoto>({
+  photos,
+  archiveName,
+  groups,
+  groupOf,
+  renderImage,
+  renderLightboxImage,
+  renderActions,
+  onLightboxPhotoChange,
+  emptyMessage = 'No photos to show yet',
+}: PhotoGalleryProps<T>) => {
   const [selectedPhotos, setSelectedPhotos] = useState<Set<string>>(new Set());
-  const [filter, setFilter] = useState('all');
   const [view, setView] = useState<'grid' | 'list'>('grid');
+  const [includeManifest, setIncludeManifest] = useState(false);
+  const [zipProgress, setZipProgress] = useState<ZipProgress | null>(null);
+  const zipAbortRef = useRef<AbortController | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
   const { toast } = useToast();
 
-  const filteredPhotos = photos.filter(photo => {
-    if (filter === 'all') return true;
-    return photo.tags.includes(filter);
-  });
+  // Photos in the order they are shown, which the lightbox steps through
+  const groupedPhotos = groups && groupOf
+    ? groups.map(group => ({ group, photos: photos.filter(photo => groupOf(photo) === group.id) }))
+    : null;
+  const orderedPhotos = groupedPhotos ? groupedPhotos.flatMap(({ photos }) => photos) : photos;
+
+  const showInLightbox = (index: number) => {
+    setLightboxIndex(index);
+    onLightboxPhotoChange?.(orderedPhotos[index]);
+  };
+
+  const openLightbox = (photo: T) => showInLightbox(orderedPhotos.indexOf(photo));
+
+  // Drop selections for photos that are no longer shown
+  const selected = photos.filter(photo => selectedPhotos.has(photo.id));
 
   const togglePhotoSelection = (photoId: string) => {
     setSelectedPhotos(prev => {
@@ -42,228 +117,352 @@ const PhotoGallery = ({ photos }: PhotoGalleryProps) => {
     });
   };
 
-  const handleDownload = (photo: Photo) => {
-    toast({
-      title: "Download started",
-      description: `Downloading photo from ${photo.timestamp}`,
-    });
+  const handleDownload = async (photo: T) => {
+    try {
+      await downloadFile(photo.file_path, photo.file_name);
+      toast({
+        title: "Download Started",
+        description: `Downloading ${photo.file_name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download Error",
+        description: getErrorMessage(error, "Failed to download the photo."),
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleShare = (photo: Photo) => {
-    toast({
-      title: "Share link copied",
-      description: "Link to photo copied to clipboard",
-    });
+  const handleShare = async (photo: T) => {
+    try {
+      const result = await sharePhotoLink(photo.id, photo.event_name ? `Photo from ${photo.event_name}` : photo.file_name);
+      if (result === 'copied') {
+        toast({
+          title: "Link Copied",
+          description: "Link to the photo copied to your clipboard",
+        });
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Share Error",
+        description: getErrorMessage(error, "Failed to share the photo."),
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleBulkDownload = () => {
-    toast({
-      title: "Bulk download started",
-      description: `Downloading ${selectedPhotos.size} selected photos`,
-    });
+  const handleBulkDownload = async (toDownload: T[]) => {
+    if (toDownload.length === 0 || zipProgress) return;
+
+    const zipName = toArchiveName(archiveName);
+    const manifest = includeManifest
+      ? toCsv(
+          ['file_name', 'event', 'confidence_score', 'uploaded_at', 'link'],
+          toDownload.map(photo => [
+            photo.file_name,
+            photo.event_name,
+            photo.confidence_score,
+            photo.created_at,
+            // Signed URLs expire, so link to the photo page instead
+            photoPageUrl(photo.id),
+          ])
+        )
+      : undefined;
+
+    const controller = new AbortController();
+    zipAbortRef.current = controller;
+    setZipProgress({ filesDone: 0, filesTotal: toDownload.length, bytesWritten: 0 });
+
+    try {
+      // Called straight from the click so the browser still allows the save dialog
+      await downloadZip(
+        zipName,
+        toDownload.map(photo => ({
+          url: photo.file_path,
+          name: photo.file_name,
+          lastModified: photo.created_at,
+          size: photo.file_size,
+        })),
+        { manifest, onProgress: setZipProgress, signal: controller.signal }
+      );
+
+      toast({
+        title: "Download Complete",
+        description: `Saved ${toDownload.length} photo${toDownload.length !== 1 ? 's' : ''} to ${zipName}`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Download Error",
+        description: getErrorMessage(error, "Failed to create the ZIP file."),
+        variant: "destructive",
+      });
+    } finally {
+      zipAbortRef.current = null;
+      setZipProgress(null);
+    }
   };
 
-  const getConfidenceColor = (confidence: number) => {
-    if (confidence >= 0.9) return 'bg-green-100 text-green-800';
-    if (confidence >= 0.75) return 'bg-yellow-100 text-yellow-800';
-    return 'bg-red-100 text-red-800';
+  const renderPhotoButtons = (photo: T) => (
+    <div className="flex gap-2">
+      <Button
+        size="sm"
+        variant="outline"
+        aria-label={`View ${photo.file_name}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          openLightbox(photo);
+        }}
+      >
+        <Maximize2 className="w-3 h-3" />
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        aria-label={`Share ${photo.file_name}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          handleShare(photo);
+        }}
+      >
+        <Share2 className="w-3 h-3" />
+      </Button>
+      <Button
+        size="sm"
+        aria-label={`Download ${photo.file_name}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          handleDownload(photo);
+        }}
+      >
+        <Download className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+
+  const renderConfidence = (photo: T, className?: string) =>
+    photo.confidence_score !== undefined && (
+      <Badge
+        variant="secondary"
+        className={cn(getConfidenceColor(photo.confidence_score), 'text-xs', className)}
+      >
+        {photo.confidence_score}% match
+      </Badge>
+    );
+
+  const renderPhoto = (photo: T) => {
+    const isSelected = selectedPhotos.has(photo.id);
+    const image = renderImage?.(photo) ?? (
+      <img
+        src={photo.file_path}
+        alt={photo.file_name}
+        loading="lazy"
+        className="w-full h-full object-cover"
+      />
+    );
+    const checkbox = (
+      <Checkbox
+        checked={isSelected}
+        onCheckedChange={() => togglePhotoSelection(photo.id)}
+        onClick={(e) => e.stopPropagation()}
+        aria-label={`Select ${photo.file_name}`}
+        className="h-5 w-5 bg-white/90 data-[state=checked]:bg-accent"
+      />
+    );
+
+    return (
+      <Card
+        key={photo.id}
+        className={cn('overflow-hidden transition-all hover:shadow-lg', isSelected && 'ring-2 ring-accent')}
+      >
+        <CardContent className="p-0">
+          {view === 'grid' ? (
+            <>
+              <div
+                className="aspect-square relative overflow-hidden cursor-pointer"
+                onClick={() => openLightbox(photo)}
+              >
+                {image}
+                <div className="absolute top-2 left-2">{checkbox}</div>
+                <div className="absolute top-2 right-2">{renderConfidence(photo)}</div>
+              </div>
+
+              <div className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{photo.file_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(photo.created_at).toLocaleDateString()}
+                      {photo.file_size ? ` · ${(photo.file_size / 1024 / 1024).toFixed(1)} MB` : ''}
+                    </p>
+                  </div>
+                  {renderPhotoButtons(photo)}
+                </div>
+                {renderActions?.(photo)}
+              </div>
+            </>
+          ) : (
+            <div className="flex gap-4 p-4 items-center">
+              {checkbox}
+              <div
+                className="w-20 h-20 rounded-lg overflow-hidden flex-shrink-0 cursor-pointer"
+                onClick={() => openLightbox(photo)}
+              >
+                {image}
+              </div>
+
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="font-medium truncate">{photo.file_name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {photo.event_name ? `${photo.event_name} · ` : ''}
+                  {new Date(photo.created_at).toLocaleString()}
+                </p>
+                {renderConfidence(photo)}
+                {renderActions?.(photo)}
+              </div>
+
+              {renderPhotoButtons(photo)}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
   };
 
-  const uniqueTags = Array.from(new Set(photos.flatMap(photo => photo.tags)));
+  const renderPhotos = (items: T[]) => (
+    <div className={view === 'grid'
+      ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4"
+      : "space-y-4"
+    }>
+      {items.map(renderPhoto)}
+    </div>
+  );
+
+  if (photos.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+          <Eye className="w-8 h-8 text-muted-foreground" />
+        </div>
+        <h3 className="text-lg font-semibold text-foreground mb-2">No photos found</h3>
+        <p className="text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6">
       {/* Controls */}
-      <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
-        <div className="flex items-center gap-4">
-          <Select value={filter} onValueChange={setFilter}>
-            <SelectTrigger className="w-48">
-              <SelectValue placeholder="Filter by location" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Photos</SelectItem>
-              {uniqueTags.map(tag => (
-                <SelectItem key={tag} value={tag}>
-                  {tag.charAt(0).toUpperCase() + tag.slice(1)}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setView(view === 'grid' ? 'list' : 'grid')}
-          >
-            <Eye className="w-4 h-4 mr-2" />
-            {view === 'grid' ? 'List View' : 'Grid View'}
-          </Button>
-        </div>
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-col lg:flex-row gap-4 lg:items-center justify-between">
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="gallery-select-all"
+                  checked={
+                    selected.length === 0 ? false
+                      : selected.length === photos.length ? true
+                      : 'indeterminate'
+                  }
+                  onCheckedChange={(checked) =>
+                    setSelectedPhotos(checked === true ? new Set(photos.map(photo => photo.id)) : new Set())
+                  }
+                />
+                <Label htmlFor="gallery-select-all" className="text-sm">
+                  {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="gallery-include-manifest"
+                  checked={includeManifest}
+                  onCheckedChange={(checked) => setIncludeManifest(checked === true)}
+                />
+                <Label htmlFor="gallery-include-manifest" className="text-sm">Include CSV manifest</Label>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setView(view === 'grid' ? 'list' : 'grid')}
+              >
+                {view === 'grid' ? <List className="w-4 h-4 mr-2" /> : <LayoutGrid className="w-4 h-4 mr-2" />}
+                {view === 'grid' ? 'List View' : 'Grid View'}
+              </Button>
+            </div>
 
-        {selectedPhotos.size > 0 && (
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-gray-600">
-              {selectedPhotos.size} selected
-            </span>
-            <Button onClick={handleBulkDownload} size="sm">
-              <Download className="w-4 h-4 mr-2" />
-              Download Selected
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selected.length === 0 || Boolean(zipProgress)}
+                onClick={() => handleBulkDownload(selected)}
+              >
+                <FileArchive className="w-4 h-4 mr-2" />
+                Download selected{selected.length > 0 ? ` (${selected.length})` : ''}
+              </Button>
+              <Button
+                size="sm"
+                className="bg-accent hover:bg-accent/90"
+                disabled={Boolean(zipProgress)}
+                onClick={() => handleBulkDownload(photos)}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download all ({photos.length})
+              </Button>
+            </div>
           </div>
-        )}
-      </div>
+          {!canStreamZipToDisk() && (
+            <p className="text-sm text-muted-foreground">
+              This browser builds ZIP files in memory, so each download is limited to {MAX_IN_MEMORY_ZIP_BYTES / 1024 / 1024} MB.
+            </p>
+          )}
 
-      {/* Photo Grid */}
-      <div className={view === 'grid' 
-        ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
-        : "space-y-4"
-      }>
-        {filteredPhotos.map((photo) => (
-          <Card 
-            key={photo.id} 
-            className={`overflow-hidden transition-all hover:shadow-lg cursor-pointer ${
-              selectedPhotos.has(photo.id) ? 'ring-2 ring-purple-500' : ''
-            }`}
-            onClick={() => togglePhotoSelection(photo.id)}
-          >
-            <CardContent className="p-0">
-              {view === 'grid' ? (
-                <>
-                  <div className="aspect-square relative overflow-hidden">
-                    <img
-                      src={photo.url}
-                      alt={`Photo from ${photo.timestamp}`}
-                      className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
-                    />
-                    <div className="absolute top-2 right-2">
-                      <Badge 
-                        variant="secondary" 
-                        className={`${getConfidenceColor(photo.confidence)} text-xs`}
-                      >
-                        {Math.round(photo.confidence * 100)}% match
-                      </Badge>
-                    </div>
-                    <div className="absolute bottom-2 left-2">
-                      <div className="flex gap-1">
-                        {photo.tags.map(tag => (
-                          <Badge key={tag} variant="outline" className="text-xs bg-black/50 text-white border-white/20">
-                            {tag}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm font-medium text-gray-900">
-                          {new Date(photo.timestamp).toLocaleDateString()}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {new Date(photo.timestamp).toLocaleTimeString()}
-                        </p>
-                      </div>
-                      
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleShare(photo);
-                          }}
-                        >
-                          <Share2 className="w-3 h-3" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDownload(photo);
-                          }}
-                        >
-                          <Download className="w-3 h-3" />
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
-                </>
-              ) : (
-                <div className="flex gap-4 p-4">
-                  <div className="w-20 h-20 rounded-lg overflow-hidden flex-shrink-0">
-                    <img
-                      src={photo.url}
-                      alt={`Photo from ${photo.timestamp}`}
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                  
-                  <div className="flex-1">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <p className="font-medium text-gray-900">
-                          {new Date(photo.timestamp).toLocaleString()}
-                        </p>
-                        <div className="flex gap-1 mt-1">
-                          {photo.tags.map(tag => (
-                            <Badge key={tag} variant="outline" className="text-xs">
-                              {tag}
-                            </Badge>
-                          ))}
-                        </div>
-                        <Badge 
-                          variant="secondary" 
-                          className={`${getConfidenceColor(photo.confidence)} text-xs mt-2`}
-                        >
-                          {Math.round(photo.confidence * 100)}% confidence
-                        </Badge>
-                      </div>
-                      
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleShare(photo);
-                          }}
-                        >
-                          <Share2 className="w-3 h-3" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDownload(photo);
-                          }}
-                        >
-                          <Download className="w-3 h-3" />
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
+          {zipProgress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  Zipping {Math.min(zipProgress.filesDone + 1, zipProgress.filesTotal)} of {zipProgress.filesTotal} photos
+                  {' '}({(zipProgress.bytesWritten / 1024 / 1024).toFixed(1)} MB)
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => zipAbortRef.current?.abort()}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+              <Progress value={(zipProgress.filesDone / zipProgress.filesTotal) * 100} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {groupedPhotos
+        ? groupedPhotos.map(({ group, photos: groupPhotos }) => {
+            if (groupPhotos.length === 0) return null;
+
+            return (
+              <div key={group.id} className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-semibold text-foreground">{group.label}</h3>
+                  <Badge variant="secondary">{groupPhotos.length}</Badge>
+                  {group.description && (
+                    <span className="text-sm text-muted-foreground">{group.description}</span>
+                  )}
                 </div>
-              )}
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                {renderPhotos(groupPhotos)}
+              </div>
+            );
+          })
+        : renderPhotos(photos)}
 
-      {filteredPhotos.length === 0 && (
-        <div className="text-center py-12">
-          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-            <Eye className="w-8 h-8 text-gray-400" />
-          </div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">No photos found</h3>
-          <p className="text-gray-600">
-            {filter === 'all' 
-              ? "No photos match your search criteria"
-              : `No photos found for "${filter}"`
-            }
-          </p>
-        </div>
-      )}
+      <PhotoLightbox
+        photos={orderedPhotos}
+        index={lightboxIndex}
+        onIndexChange={showInLightbox}
+        onClose={() => setLightboxIndex(null)}
+        renderImage={renderLightboxImage}
+      />
     </div>
   );
 };
@@ -0,0 +1,432 @@
+import { useState, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import exifr from 'exifr';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '@/components/ui/carousel';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Download, Info, Share2, ZoomIn, ZoomOut } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn, getErrorMessage } from '@/lib/utils';
+import { downloadFile, isAbortError } from '@/lib/zip-download';
+import { sharePhotoLink } from '@/lib/photo-links';
+import type { GalleryPhoto } from '@/components/PhotoGallery';
+
+interface PhotoLightboxProps<T extends GalleryPhoto> {
+  photos: T[];
+  /** Index of the photo shown; null when the lightbox is closed. */
+  index: number | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  /** Replaces the plain image, e.g. to draw face boxes. Rendered with fit "contain". */
+  renderImage?: (photo: T) => ReactNode;
+}
+
+interface Zoom {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface ExifInfo {
+  camera?: string;
+  lens?: string;
+  exposure?: string;
+  takenAt?: string;
+  dimensions?: string;
+}
+
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+const MAX_SCALE = 5;
+// Slides further than this from the current one render a placeholder instead of the full image
+const PRELOAD_DISTANCE = 1;
+
+const EXIF_FIELDS = [
+  'Make', 'Model', 'LensModel', 'FNumber', 'ExposureTime', 'ISO', 'FocalLength',
+  'DateTimeOriginal', 'ExifImageWidth', 'ExifImageHeight',
+];
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(1, scale));
+
+const readExif = async (url: string): Promise<ExifInfo> => {
+  const tags = await exifr.parse(url, { pick: EXIF_FIELDS });
+  if (!tags) return {};
+
+  const exposure = [
+    tags.FNumber && `f/${tags.FNumber}`,
+    tags.ExposureTime && (tags.ExposureTime < 1 ? `1/${Math.round(1 / tags.ExposureTime)}s` : `${tags.ExposureTime}s`),
+    tags.ISO && `ISO ${tags.ISO}`,
+    tags.FocalLength && `${tags.FocalLength}mm`,
+  ].filter(Boolean).join(' · ');
+
+  return {
+    camera: [tags.Make, tags.Model].filter(Boolean).join(' ') || undefined,
+    lens: tags.LensModel,
+    exposure: exposure || undefined,
+    takenAt: tags.DateTimeOriginal instanceof Date ? tags.DateTimeOriginal.toLocaleString() : undefined,
+    dimensions: tags.ExifImageWidth && tags.ExifImageHeight
+      ? `${tags.ExifImageWidth} × ${tags.ExifImageHeight}`
+      : undefined,
+  };
+};
+
+/**
+ * Pans and zooms its content. Scroll to zoom, pinch on touch screens, drag to
+ * pan once zoomed and double-click to toggle.
+ */
+const ZoomPane = ({ zoom, onZoomChange, children }: {
+  zoom: Zoom;
+  onZoomChange: (zoom: Zoom) => void;
+  children: ReactNode;
+}) => {
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ distance: number; scale: number } | null>(null);
+
+  const pointerDistance = () => {
+    const [a, b] = Array.from(pointers.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) {
+      pinch.current = { distance: pointerDistance(), scale: zoom.scale };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2 && pinch.current) {
+      const scale = clampScale(pinch.current.scale * (pointerDistance() / pinch.current.distance));
+      onZoomChange(scale === 1 ? NO_ZOOM : { ...zoom, scale });
+    } else if (pointers.current.size === 1 && zoom.scale > 1) {
+      onZoomChange({
+        ...zoom,
+        x: zoom.x + (e.clientX - previous.x) / zoom.scale,
+        y: zoom.y + (e.clientY - previous.y) / zoom.scale,
+      });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinch.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const scale = clampScale(zoom.scale * Math.exp(-e.deltaY * 0.002));
+    onZoomChange(scale === 1 ? NO_ZOOM : { ...zoom, scale });
+  };
+
+  return (
+    <div
+      className={cn('h-full w-full overflow-hidden touch-none', zoom.scale > 1 ? 'cursor-grab' : 'cursor-zoom-in')}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={handleWheel}
+      onDoubleClick={() => onZoomChange(zoom.scale > 1 ? NO_ZOOM : { ...NO_ZOOM, scale: 2.5 })}
+    >
+      <div
+        className="h-full w-full transition-transform duration-75"
+        style={{ transform: `scale(${zoom.scale}) translate(${zoom.x}px, ${zoom.y}px)` }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Full-screen photo viewer. Arrow keys and swipes move between photos, and an
+ * info panel shows the camera details stored in the photo's EXIF data.
+ */
+const PhotoLightbox = <T extends GalleryPhoto>({
+  photos,
+  index,
+  onIndexChange,
+  onClose,
+  renderImage,
+}: PhotoLightboxProps<T>) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+  const [showInfo, setShowInfo] = useState(false);
+  const [exif, setExif] = useState<Record<string, ExifInfo | 'loading' | 'failed'>>({});
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  const { toast } = useToast();
+
+  const open = index !== null;
+  const photo = index !== null ? photos[index] : undefined;
+
+  // The carousel is created each time the lightbox opens. Changing its options
+  // re-creates it at startIndex, so they stay fixed while open; once zoomed in,
+  // drags pan the photo instead of swiping to the next one.
+  const carouselOptions = useMemo(() => ({
+    startIndex: index ?? 0,
+    watchDrag: () => zoomRef.current.scale === 1,
+  }), [open]);
+
+  useEffect(() => {
+    if (!open) {
+      // The carousel is destroyed with the dialog content
+      setApi(undefined);
+      setZoom(NO_ZOOM);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => {
+      setZoom(NO_ZOOM);
+      onIndexChange(api.selectedScrollSnap());
+    };
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api, onIndexChange]);
+
+  // Follow index changes made from outside, e.g. the browser's back button on /photos/:photoId
+  useEffect(() => {
+    if (api && index !== null && api.selectedScrollSnap() !== index) api.scrollTo(index);
+  }, [api, index]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      if (e.key === 'ArrowLeft') api?.scrollPrev();
+      else if (e.key === 'ArrowRight') api?.scrollNext();
+      else if (e.key === '+' || e.key === '=') setZoom(current => ({ ...current, scale: clampScale(current.scale * 1.5) }));
+      else if (e.key === '-') setZoom(current => {
+        const scale = clampScale(current.scale / 1.5);
+        return scale === 1 ? NO_ZOOM : { ...current, scale };
+      });
+      else if (e.key === '0') setZoom(NO_ZOOM);
+      else if (e.key === 'i') setShowInfo(current => !current);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, api]);
+
+  useEffect(() => {
+    if (!showInfo || !photo || exif[photo.id]) return;
+    const photoId = photo.id;
+    setExif(current => ({ ...current, [photoId]: 'loading' }));
+    readExif(photo.file_path)
+      .then(info => setExif(current => ({ ...current, [photoId]: info })))
+      .catch(error => {
+        console.error('Error reading EXIF data:', error);
+        setExif(current => ({ ...current, [photoId]: 'failed' }));
+      });
+  }, [showInfo, photo, exif]);
+
+  const handleDownload = async () => {
+    if (!photo) return;
+    try {
+      await downloadFile(photo.file_path, photo.file_name);
+    } catch (error) {
+      toast({
+        title: "Download Error",
+        description: getErrorMessage(error, "Failed to download the photo."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleShare = async () => {
+    if (!photo) return;
+    try {
+      const result = await sharePhotoLink(photo.id, photo.event_name ? `Photo from ${photo.event_name}` : photo.file_name);
+      if (result === 'copied') {
+        toast({
+          title: "Link Copied",
+          description: "Link to the photo copied to your clipboard",
+        });
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      toast({
+        title: "Share Error",
+        description: getErrorMessage(error, "Failed to share the photo."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const info = photo ? exif[photo.id] : undefined;
+  const infoRows: [string, string | undefined][] = info && typeof info === 'object'
+    ? [
+        ['Taken', info.takenAt],
+        ['Camera', info.camera],
+        ['Lens', info.lens],
+        ['Exposure', info.exposure],
+        ['Dimensions', info.dimensions],
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-none w-screen h-screen p-0 border-0 bg-black/95 text-white sm:rounded-none flex flex-col gap-0">
+        <DialogTitle className="sr-only">{photo?.file_name ?? 'Photo'}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Use the arrow keys to move between photos and scroll or pinch to zoom.
+        </DialogDescription>
+
+        {/* Toolbar; the dialog's own close button sits to the right */}
+        <div className="flex items-center justify-between gap-4 px-4 py-3 pr-14">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{photo?.file_name}</p>
+            <p className="text-xs text-white/60">
+              {index !== null && `${index + 1} of ${photos.length}`}
+              {photo?.event_name && ` · ${photo.event_name}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-white hover:bg-white/10 hover:text-white"
+              aria-label="Zoom out"
+              disabled={zoom.scale === 1}
+              onClick={() => setZoom(current => {
+                const scale = clampScale(current.scale / 1.5);
+                return scale === 1 ? NO_ZOOM : { ...current, scale };
+              })}
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-white hover:bg-white/10 hover:text-white"
+              aria-label="Zoom in"
+              disabled={zoom.scale === MAX_SCALE}
+              onClick={() => setZoom(current => ({ ...current, scale: clampScale(current.scale * 1.5) }))}
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn('text-white hover:bg-white/10 hover:text-white', showInfo && 'bg-white/20')}
+              aria-label="Photo info"
+              aria-pressed={showInfo}
+              onClick={() => setShowInfo(current => !current)}
+            >
+              <Info className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-white hover:bg-white/10 hover:text-white"
+              aria-label="Share"
+              onClick={handleShare}
+            >
+              <Share2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-white hover:bg-white/10 hover:text-white"
+              aria-label="Download"
+              onClick={handleDownload}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="relative flex-1 min-w-0">
+            <Carousel
+              setApi={setApi}
+              opts={carouselOptions}
+              className="h-full [&>div]:h-full"
+            >
+              <CarouselContent className="h-full ml-0">
+                {photos.map((item, itemIndex) => (
+                  <CarouselItem key={item.id} className="h-full pl-0">
+                    {index !== null && Math.abs(itemIndex - index) <= PRELOAD_DISTANCE ? (
+                      <ZoomPane zoom={itemIndex === index ? zoom : NO_ZOOM} onZoomChange={setZoom}>
+                        {renderImage?.(item) ?? (
+                          <img
+                            src={item.file_path}
+                            alt={item.file_name}
+                            draggable={false}
+                            className="h-full w-full object-contain select-none"
+                          />
+                        )}
+                      </ZoomPane>
+                    ) : (
+                      <div className="h-full w-full" />
+                    )}
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+            </Carousel>
+
+            {index !== null && index > 0 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute left-2 top-1/2 -translate-y-1/2 h-12 w-12 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                aria-label="Previous photo"
+                onClick={() => api?.scrollPrev()}
+              >
+                <ChevronLeft className="h-6 w-6" />
+              </Button>
+            )}
+            {index !== null && index < photos.length - 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-2 top-1/2 -translate-y-1/2 h-12 w-12 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                aria-label="Next photo"
+                onClick={() => api?.scrollNext()}
+              >
+                <ChevronRight className="h-6 w-6" />
+              </Button>
+            )}
+          </div>
+
+          {showInfo && photo && (
+            <aside className="w-72 shrink-0 border-l border-white/10 p-4 space-y-4 overflow-y-auto">
+              <h3 className="font-semibold">Photo Info</h3>
+              <dl className="space-y-3 text-sm">
+                <div>
+                  <dt className="text-white/60">Uploaded</dt>
+                  <dd>{new Date(photo.created_at).toLocaleString()}</dd>
+                </div>
+                {photo.file_size ? (
+                  <div>
+                    <dt className="text-white/60">File size</dt>
+                    <dd>{(photo.file_size / 1024 / 1024).toFixed(1)} MB</dd>
+                  </div>
+                ) : null}
+                {infoRows.filter(([, value]) => value).map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-white/60">{label}</dt>
+                    <dd>{value}</dd>
+                  </div>
+                ))}
+              </dl>
+              {info === 'loading' && <p className="text-sm text-white/60">Reading camera details...</p>}
+              {info === 'failed' && <p className="text-sm text-white/60">Camera details could not be read.</p>}
+              {info && typeof info === 'object' && !infoRows.some(([, value]) => value) && (
+                <p className="text-sm text-white/60">This photo has no camera details.</p>
+              )}
+            </aside>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoLightbox;
@@ -1,5 +1,6 @@
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -7,6 +8,8 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Shield, Eye, EyeOff, Trash2, Flag } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/lib/utils';
+import type { Json } from '@/integrations/supabase/types';
 
 interface PrivacySettingsProps {
   open: boolean;
@@ -15,13 +18,37 @@ interface PrivacySettingsProps {
 
 const PrivacySettings = ({ open, onClose }: PrivacySettingsProps) => {
   const [settings, setSettings] = useState({
-    publicPhotos: true,
+    publicPhotos: false,
     faceDetection: true,
     dataRetention: false,
     emailNotifications: true,
   });
+  const [saving, setSaving] = useState(false);
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (open) {
+      loadSettings();
+    }
+  }, [open]);
+
+  const loadSettings = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('privacy_settings')
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) {
+      console.error('Error loading privacy settings:', error);
+      return;
+    }
+    setSettings(prev => ({ ...prev, ...(data.privacy_settings as Partial<typeof prev>) }));
+  };
+
   const handleSettingChange = (key: keyof typeof settings, value: boolean) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
@@ -40,12 +67,33 @@ const PrivacySettings = ({ open, onClose }: PrivacySettingsProps) => {
     });
   };
 
-  const handleSaveSettings = () => {
-    toast({
-      title: "Settings saved",
-      description: "Your privacy preferences have been updated.",
-    });
-    onClose();
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ privacy_settings: settings as unknown as Json })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Settings saved",
+        description: "Your privacy preferences have been updated.",
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save your privacy settings"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
   };
 
   return (
@@ -72,7 +120,7 @@ const PrivacySettings = ({ open, onClose }: PrivacySettingsProps) => {
                   Make my photos discoverable
                 </Label>
                 <p className="text-xs text-gray-500 mt-1">
-                  Allow others to find photos you're tagged in
+                  Show your name on your face to others matched in the same photo
                 </p>
               </div>
               <Switch
@@ -127,7 +175,7 @@ const PrivacySettings = ({ open, onClose }: PrivacySettingsProps) => {
                   Email notifications
                 </Label>
                 <p className="text-xs text-gray-500 mt-1">
-                  Get notified when new photos are found
+                  Get notified when new photos of you are found
                 </p>
               </div>
               <Switch
@@ -170,8 +218,8 @@ const PrivacySettings = ({ open, onClose }: PrivacySettingsProps) => {
             <Button variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button onClick={handleSaveSettings} className="bg-purple-600 hover:bg-purple-700">
-              Save Settings
+            <Button onClick={handleSaveSettings} disabled={saving} className="bg-purple-600 hover:bg-purple-700">
+              {saving ? "Saving..." : "Save Settings"}
             </Button>
           </div>
 
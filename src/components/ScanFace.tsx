@@ -1,74 +1,185 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Camera, Scan, AlertCircle, CheckCircle } from "lucide-react";
+import { Camera, Scan, AlertCircle, CheckCircle, ShieldCheck, XCircle, ImageUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { completeLivenessCheck, startLivenessCheck, type LivenessCheck } from "@/lib/liveness-checks";
+import { useCamera } from "@/hooks/use-camera";
+import { useFaceTracker } from "@/hooks/use-face-tracker";
+import FaceEnrollment from "@/components/FaceEnrollment";
+import FaceCrop from "@/components/FaceCrop";
+import {
+  MIN_FACE_PIXELS,
+  QUALITY_GUIDANCE,
+  STILL_IMAGE_GUIDANCE,
+  assessFaceQuality,
+  getFaceEmbeddingProvider,
+  isCaptureQuality,
+  loadImageFromFile,
+  pickPrimaryFace,
+  type DetectedFace,
+  type FaceQuality,
+  type FaceScan,
+  type LivenessResult,
+  type LivenessStatus,
+} from "@/lib/face";
+
+// Consecutive good frames required before capturing automatically
+const AUTO_CAPTURE_FRAMES = 3;
+
+// Uploaded selfies are scaled down to this longest side before detection
+const MAX_SELFIE_DIMENSION = 1280;
+
+type ScanSource = 'camera' | 'upload';
 
 interface ScanFaceProps {
   selectedEvent: string;
   events: Array<{ id: string; name: string; }>;
+  onScanComplete?: (scan: FaceScan) => void;
+  /**
+   * Signed-out visitors on a public event page. Nothing is logged or enrolled;
+   * the scan is only handed to onScanComplete. Guests can only use the camera,
+   * since the guest search needs a passed liveness check.
+   */
+  guest?: boolean;
 }
 
-const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
-  const [stream, setStream] = useState<MediaStream | null>(null);
+const ScanFace = ({ selectedEvent, events, onScanComplete, guest = false }: ScanFaceProps) => {
   const [isScanning, setIsScanning] = useState(false);
   const [faceCaptured, setFaceCaptured] = useState(false);
   const [capturedImage, setCapturedImage] = useState<string>("");
-  const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [livenessCheck, setLivenessCheck] = useState<LivenessCheck | null>(null);
+  const [livenessStatus, setLivenessStatus] = useState<LivenessStatus>('pending');
+  const [verifying, setVerifying] = useState(false);
+  const [quality, setQuality] = useState<FaceQuality | null>(null);
+  const goodFramesRef = useRef(0);
+  const capturingRef = useRef(false);
+  const selfieInputRef = useRef<HTMLInputElement>(null);
+  const [faceChoices, setFaceChoices] = useState<DetectedFace[]>([]);
+  const [selfieSize, setSelfieSize] = useState({ width: 0, height: 0 });
+  const selfieFaceCountRef = useRef(0);
+  const { videoRef, attachVideo, stream, start, stop: stopCamera, captureFrame } = useCamera();
+  const liveness = livenessCheck?.challenge ?? null;
+  const trackedFrame = useFaceTracker(videoRef, Boolean(stream) && !faceCaptured && Boolean(liveness) && !verifying);
   const { toast } = useToast();
 
   const selectedEventName = events.find(e => e.id === selectedEvent)?.name || "No event selected";
 
-  const startCamera = async () => {
+  // Evaluate the liveness challenge against each tracked video frame
+  useEffect(() => {
+    if (!trackedFrame || !livenessCheck || livenessStatus !== 'pending' || verifying) return;
+
+    const status = livenessCheck.challenge.update(trackedFrame.faces, trackedFrame.timestamp);
+    if (status === 'passed') {
+      confirmLiveness(livenessCheck);
+    } else if (status === 'failed') {
+      setLivenessStatus('failed');
+      logLivenessFailure(livenessCheck.challenge.result());
+    }
+  }, [trackedFrame, livenessCheck, livenessStatus, verifying]);
+
+  // Score each tracked frame and capture automatically once quality holds steady
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!trackedFrame || !video) {
+      setQuality(null);
+      return;
+    }
+
+    const frameQuality = assessFaceQuality(video, trackedFrame.faces, trackedFrame);
+    setQuality(frameQuality);
+
+    if (livenessStatus !== 'passed' || !isCaptureQuality(frameQuality)) {
+      goodFramesRef.current = 0;
+      return;
+    }
+
+    goodFramesRef.current += 1;
+    if (goodFramesRef.current >= AUTO_CAPTURE_FRAMES) {
+      goodFramesRef.current = 0;
+      capturePhoto();
+    }
+  }, [trackedFrame]);
+
+  const beginLivenessCheck = async () => {
+    setLivenessCheck(null);
+    setLivenessStatus('pending');
+    goodFramesRef.current = 0;
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-          facingMode: 'user'
-        }
-      });
-      
-      setStream(mediaStream);
-      if (videoRef.current) {
-        videoRef.current.srcObject = mediaStream;
-      }
-    } catch (error: any) {
+      setLivenessCheck(await startLivenessCheck());
+    } catch (error) {
+      setLivenessStatus('failed');
       toast({
-        title: "Camera Error",
-        description: "Failed to access camera. Please ensure camera permissions are granted.",
+        title: "Liveness Error",
+        description: getErrorMessage(error, "Failed to start the liveness check"),
         variant: "destructive",
       });
     }
   };
 
-  const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
-    }
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
+  // The server replays the challenge from the tracked frames; only then can the capture go ahead
+  const confirmLiveness = async (check: LivenessCheck) => {
+    setVerifying(true);
+    try {
+      setLivenessStatus(await completeLivenessCheck(check) ? 'passed' : 'failed');
+    } catch (error) {
+      setLivenessStatus('failed');
+      toast({
+        title: "Liveness Error",
+        description: getErrorMessage(error, "Failed to confirm the liveness check"),
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
     }
   };
 
-  const capturePhoto = async () => {
-    if (!videoRef.current || !canvasRef.current) return;
+  const logLivenessFailure = async (result: LivenessResult | null) => {
+    if (guest) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !result) return;
 
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
+    await supabase
+      .from('activity_logs')
+      .insert({
+        user_id: user.id,
+        activity_type: 'liveness_failed',
+        description: `Liveness check failed (${result.challenge.replace('_', ' ')})`,
+        metadata: {
+          event_id: selectedEvent || null,
+          challenge: result.challenge,
+          reason: result.reason ?? null,
+          duration_ms: result.durationMs,
+          timestamp: new Date().toISOString()
+        }
+      });
+  };
 
-    if (!context) return;
+  const startCamera = async () => {
+    try {
+      await start();
+      await beginLivenessCheck();
+    } catch (error) {
+      toast({
+        title: "Camera Error",
+        description: `Failed to access camera (${getErrorMessage(error, "unknown error")}). ${
+          guest ? "Grant camera permissions to scan your face." : "Grant camera permissions or upload a selfie instead."
+        }`,
+        variant: "destructive",
+      });
+    }
+  };
 
-    // Set canvas dimensions to match video
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+  const capturePhoto = async () => {
+    const livenessResult = liveness?.result();
+    if (livenessStatus !== 'passed' || !livenessResult?.passed || capturingRef.current) return;
 
-    // Draw the video frame to canvas
-    context.drawImage(video, 0, 0);
+    const canvas = canvasRef.current;
+    if (!canvas || !captureFrame(canvas)) return;
+    capturingRef.current = true;
 
     // Convert to data URL
     const imageData = canvas.toDataURL('image/jpeg', 0.8);
@@ -76,21 +187,71 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
     setFaceCaptured(true);
     setIsScanning(true);
 
-    // Simulate face processing
-    setTimeout(async () => {
-      await processFaceScan(imageData);
-      setIsScanning(false);
-    }, 2000);
+    const accepted = await processFaceScan(canvas, livenessResult, livenessCheck.id);
+    setIsScanning(false);
+    capturingRef.current = false;
+    if (!accepted) {
+      handleRetry();
+    }
+  };
+
+  const processFaceScan = async (frame: HTMLCanvasElement, livenessResult: LivenessResult, livenessCheckId: string) => {
+    try {
+      const provider = getFaceEmbeddingProvider();
+      await provider.load();
+      const faces = await provider.detectFaces(frame);
+      const face = pickPrimaryFace(faces);
+
+      if (!face) {
+        toast({
+          title: "No Face Detected",
+          description: "We couldn't find a face in the capture. Make sure your face is well lit and inside the circle.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      return await completeFaceScan(frame, face, faces.length, 'camera', livenessResult, livenessCheckId);
+    } catch (error) {
+      toast({
+        title: "Processing Error",
+        description: getErrorMessage(error, "Failed to process the capture"),
+        variant: "destructive",
+      });
+      return false;
+    }
   };
 
-  const processFaceScan = async (imageData: string) => {
+  // Shared tail of the camera and selfie paths: records the scan and hands the embedding to matching
+  const completeFaceScan = async (
+    frame: HTMLCanvasElement,
+    face: DetectedFace,
+    facesDetected: number,
+    source: ScanSource,
+    livenessResult: LivenessResult | null,
+    livenessCheckId: string | null
+  ) => {
     try {
+      const provider = getFaceEmbeddingProvider();
+      const captureQuality = assessFaceQuality(frame, [face], { width: frame.width, height: frame.height });
+
+      const scan: FaceScan = {
+        embedding: face.embedding,
+        model: provider.name,
+        quality: captureQuality.score,
+        eventId: selectedEvent || null,
+        capturedAt: new Date().toISOString(),
+        livenessCheckId,
+      };
+
+      if (guest) {
+        onScanComplete?.(scan);
+        return true;
+      }
+
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      if (!user) return false;
 
-      // In a real implementation, this would send the image to an AI service
-      // For now, we'll simulate the process and create a face scan record
-      
       // Log the face scan activity
       await supabase
         .from('activity_logs')
@@ -101,21 +262,127 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
           metadata: { 
             event_id: selectedEvent || null,
             image_captured: true,
+            source,
+            faces_detected: facesDetected,
+            detection_score: face.score,
+            model: provider.name,
+            // Uploaded selfies cannot be challenged, so liveness is recorded as skipped
+            liveness: livenessResult ? {
+              passed: livenessResult.passed,
+              challenge: livenessResult.challenge,
+              duration_ms: livenessResult.durationMs
+            } : { passed: false, skipped: true, challenge: null },
+            quality: {
+              score: Number(captureQuality.score.toFixed(3)),
+              sharpness: Number(captureQuality.sharpness.toFixed(3)),
+              brightness: Number(captureQuality.brightness.toFixed(3)),
+              pose: Number(captureQuality.pose.toFixed(3)),
+              size: Number(captureQuality.size.toFixed(3)),
+              centring: Number(captureQuality.centring.toFixed(3)),
+              issues: captureQuality.issues
+            },
             timestamp: new Date().toISOString()
           }
         });
 
+      onScanComplete?.(scan);
+
       toast({
         title: "Face Scan Complete!",
         description: "Your face has been processed. Check the Face Match tab to see your photos.",
       });
+      return true;
 
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Processing Error",
-        description: error.message,
+        description: getErrorMessage(error, "Failed to process face scan"),
         variant: "destructive",
       });
+      return false;
+    }
+  };
+
+  const handleSelfieSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still fires a change event
+    event.target.value = "";
+    const canvas = canvasRef.current;
+    if (!file || !canvas) return;
+
+    stopCamera();
+    setLivenessCheck(null);
+    setFaceChoices([]);
+    setFaceCaptured(true);
+    setIsScanning(true);
+
+    try {
+      const image = await loadImageFromFile(file);
+      const scale = Math.min(1, MAX_SELFIE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      setCapturedImage(canvas.toDataURL('image/jpeg', 0.8));
+      setSelfieSize({ width: canvas.width, height: canvas.height });
+
+      const provider = getFaceEmbeddingProvider();
+      await provider.load();
+      const faces = await provider.detectFaces(canvas);
+      const usable = faces.filter(face => face.box.width >= MIN_FACE_PIXELS);
+      selfieFaceCountRef.current = faces.length;
+
+      if (usable.length === 0) {
+        toast({
+          title: "No Face Detected",
+          description: faces.length
+            ? "The faces in this photo are too small. Try a closer selfie."
+            : "We couldn't find a face in this photo. Try a clear, well-lit selfie.",
+          variant: "destructive",
+        });
+        handleClose();
+        return;
+      }
+
+      if (usable.length === 1) {
+        await acceptSelfieFace(usable[0], faces.length);
+        return;
+      }
+
+      // Several candidates: let the user say which one is them
+      setFaceChoices(usable);
+      setIsScanning(false);
+    } catch (error) {
+      toast({
+        title: "Upload Error",
+        description: getErrorMessage(error, "Failed to read the selected image"),
+        variant: "destructive",
+      });
+      handleClose();
+    }
+  };
+
+  const acceptSelfieFace = async (face: DetectedFace, facesDetected: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const selfieQuality = assessFaceQuality(canvas, [face], { width: canvas.width, height: canvas.height });
+    const blocking = selfieQuality.issues.find(issue => STILL_IMAGE_GUIDANCE[issue]);
+    if (blocking) {
+      toast({
+        title: "Photo Not Usable",
+        description: STILL_IMAGE_GUIDANCE[blocking],
+        variant: "destructive",
+      });
+      handleClose();
+      return;
+    }
+
+    setFaceChoices([]);
+    setIsScanning(true);
+    const accepted = await completeFaceScan(canvas, face, facesDetected, 'upload', null, null);
+    setIsScanning(false);
+    if (!accepted) {
+      handleClose();
     }
   };
 
@@ -123,6 +390,9 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
     setFaceCaptured(false);
     setCapturedImage("");
     setIsScanning(false);
+    setFaceChoices([]);
+    // Each capture needs its own liveness pass
+    beginLivenessCheck();
   };
 
   const handleClose = () => {
@@ -130,38 +400,44 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
     setFaceCaptured(false);
     setCapturedImage("");
     setIsScanning(false);
+    setLivenessCheck(null);
+    setFaceChoices([]);
   };
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center gap-3">
-        <Scan className="h-6 w-6 text-accent" />
-        <div>
-          <h2 className="text-2xl font-bold text-primary">Scan Face</h2>
-          <p className="text-muted-foreground">
-            Use your camera to scan your face and find your photos
-          </p>
-        </div>
-      </div>
+      {!guest && (
+        <>
+          <div className="flex items-center gap-3">
+            <Scan className="h-6 w-6 text-accent" />
+            <div>
+              <h2 className="text-2xl font-bold text-primary">Scan Face</h2>
+              <p className="text-muted-foreground">
+                Use your camera or a selfie to scan your face and find your photos
+              </p>
+            </div>
+          </div>
 
-      {selectedEvent && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg text-accent">Scanning for Event</CardTitle>
-            <CardDescription>{selectedEventName}</CardDescription>
-          </CardHeader>
-        </Card>
-      )}
+          {selectedEvent && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg text-accent">Scanning for Event</CardTitle>
+                <CardDescription>{selectedEventName}</CardDescription>
+              </CardHeader>
+            </Card>
+          )}
 
-      {!selectedEvent && (
-        <Card className="border-yellow-500/50">
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-2 text-yellow-600">
-              <AlertCircle className="h-5 w-5" />
-              <p>No event selected. You can still scan your face to search across all events.</p>
-            </div>
-          </CardContent>
-        </Card>
+          {!selectedEvent && (
+            <Card className="border-yellow-500/50">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-2 text-yellow-600">
+                  <AlertCircle className="h-5 w-5" />
+                  <p>No event selected. You can still scan your face to search across all events.</p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
       )}
 
       <Card>
@@ -181,34 +457,101 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
                     <Camera className="h-4 w-4 mr-2" />
                     Start Camera
                   </Button>
+                  {!guest && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => selfieInputRef.current?.click()}
+                      className="w-full mt-2"
+                    >
+                      <ImageUp className="h-4 w-4 mr-2" />
+                      Upload a selfie instead
+                    </Button>
+                  )}
                 </div>
               </div>
             )}
 
             {stream && !faceCaptured && (
               <div className="text-center space-y-4">
-                <div className="relative">
+                <div className="relative w-full max-w-sm mx-auto">
                   <video
-                    ref={videoRef}
+                    ref={attachVideo}
                     autoPlay
                     playsInline
                     muted
-                    className="w-full max-w-sm mx-auto rounded-lg border"
+                    className="w-full rounded-lg border"
                   />
                   <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                     <div className="w-48 h-48 border-2 border-accent rounded-full opacity-50"></div>
                   </div>
+                  {trackedFrame?.faces.map((face, index) => (
+                    <div
+                      key={index}
+                      className={`absolute border-2 rounded-md pointer-events-none transition-all ${
+                        quality && isCaptureQuality(quality) ? 'border-green-500' : 'border-yellow-500'
+                      }`}
+                      style={{
+                        left: `${(face.box.x / trackedFrame.width) * 100}%`,
+                        top: `${(face.box.y / trackedFrame.height) * 100}%`,
+                        width: `${(face.box.width / trackedFrame.width) * 100}%`,
+                        height: `${(face.box.height / trackedFrame.height) * 100}%`,
+                      }}
+                    />
+                  ))}
                 </div>
+                {quality && (
+                  <p className={`text-sm font-medium ${quality.issues.length ? 'text-yellow-600' : 'text-green-600'}`}>
+                    {quality.issues.length
+                      ? QUALITY_GUIDANCE[quality.issues[0]]
+                      : `Looking good - quality ${Math.round(quality.score * 100)}%`}
+                  </p>
+                )}
+                {liveness && livenessStatus === 'pending' && (
+                  <div className="flex items-center justify-center gap-2 text-accent">
+                    <ShieldCheck className="h-5 w-5 animate-pulse" />
+                    <span className="font-medium">
+                      {verifying ? "Confirming liveness..." : `Liveness check: ${liveness.prompt}`}
+                    </span>
+                  </div>
+                )}
+                {livenessStatus === 'passed' && (
+                  <div className="flex items-center justify-center gap-2 text-green-600">
+                    <CheckCircle className="h-5 w-5" />
+                    <span className="font-medium">Liveness confirmed</span>
+                  </div>
+                )}
+                {livenessStatus === 'failed' && (
+                  <div className="flex items-center justify-center gap-2 text-destructive">
+                    <XCircle className="h-5 w-5" />
+                    <span className="font-medium">
+                      {liveness?.result()?.passed
+                        ? "Liveness check failed: it couldn't be confirmed"
+                        : liveness?.result()?.reason === 'multiple_faces'
+                          ? "Liveness check failed: more than one face in view"
+                          : "Liveness check failed: we didn't see the movement in time"}
+                    </span>
+                  </div>
+                )}
                 <div>
                   <p className="text-sm text-muted-foreground mb-4">
-                    Position your face within the circle and click capture
+                    Position your face within the circle and complete the liveness check. We'll capture automatically once the image is sharp and well lit.
                   </p>
                   <div className="flex gap-2 justify-center">
-                    <Button onClick={capturePhoto} className="bg-accent hover:bg-accent/90">
-                      <Scan className="h-4 w-4 mr-2" />
-                      Capture Face
-                    </Button>
-                    <Button variant="outline" onClick={stopCamera}>
+                    {livenessStatus === 'failed' ? (
+                      <Button onClick={beginLivenessCheck} variant="outline">
+                        Try Again
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={capturePhoto}
+                        disabled={livenessStatus !== 'passed'}
+                        className="bg-accent hover:bg-accent/90"
+                      >
+                        <Scan className="h-4 w-4 mr-2" />
+                        Capture Face
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={handleClose}>
                       Cancel
                     </Button>
                   </div>
@@ -216,7 +559,41 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
               </div>
             )}
 
-            {faceCaptured && !isScanning && (
+            {faceChoices.length > 0 && !isScanning && (
+              <div className="text-center space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Which one is you?</h3>
+                  <p className="text-sm text-muted-foreground">
+                    We found {faceChoices.length} faces in this photo. Select yours to continue.
+                  </p>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  {faceChoices.map((face, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => acceptSelfieFace(face, selfieFaceCountRef.current)}
+                      className="rounded-md border-2 border-transparent hover:border-accent focus:border-accent focus:outline-none transition-colors"
+                    >
+                      <FaceCrop
+                        src={capturedImage}
+                        box={{
+                          x: face.box.x / selfieSize.width,
+                          y: face.box.y / selfieSize.height,
+                          width: face.box.width / selfieSize.width,
+                          height: face.box.height / selfieSize.height,
+                        }}
+                      />
+                    </button>
+                  ))}
+                </div>
+                <Button variant="outline" onClick={handleClose}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+
+            {faceCaptured && !isScanning && faceChoices.length === 0 && (
               <div className="text-center space-y-4">
                 <div className="w-48 h-48 mx-auto rounded-lg border overflow-hidden">
                   <img src={capturedImage} alt="Captured face" className="w-full h-full object-cover" />
@@ -252,10 +629,19 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
             )}
 
             <canvas ref={canvasRef} className="hidden" />
+            <input
+              ref={selfieInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleSelfieSelected}
+              className="hidden"
+            />
           </div>
         </CardContent>
       </Card>
 
+      {!guest && <FaceEnrollment />}
+
       {/* Instructions */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <Card>
@@ -278,7 +664,9 @@ const ScanFace = ({ selectedEvent, events }: ScanFaceProps) => {
           </CardHeader>
           <CardContent>
             <p className="text-sm text-muted-foreground">
-              Your face scan is processed securely and only used for photo matching. The scan data is not stored after processing.
+              {guest
+                ? "Your selfie stays on this device. Only a face signature is sent to search this event's photos, and nothing is kept afterwards."
+                : "Your face scan is processed securely and only used for photo matching. One-off scans are not stored after processing; if you enroll a face profile, an averaged template is kept until you delete it."}
             </p>
           </CardContent>
         </Card>
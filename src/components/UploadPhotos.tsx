@@ -5,6 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress";
 import { Upload, ImageIcon, CheckCircle, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import { getErrorMessage } from "@/lib/utils";
+import { PHOTO_BUCKET } from "@/lib/photo-storage";
+import { getFaceEmbeddingProvider, loadImageFromFile, toPhotoFaceData } from "@/lib/face";
 
 interface UploadPhotosProps {
   selectedEvent: string;
@@ -14,7 +18,8 @@ interface UploadPhotosProps {
 interface UploadProgress {
   file: File;
   progress: number;
-  status: 'uploading' | 'processing' | 'completed' | 'error';
+  status: 'uploading' | 'detecting' | 'processing' | 'completed' | 'error';
+  facesDetected?: number;
   error?: string;
 }
 
@@ -39,7 +44,7 @@ const UploadPhotos = ({ selectedEvent, events }: UploadPhotosProps) => {
     const newUploads: UploadProgress[] = Array.from(files).map(file => ({
       file,
       progress: 0,
-      status: 'uploading' as const,
+      status: 'detecting' as const,
     }));
 
     setUploads(prev => [...prev, ...newUploads]);
@@ -47,53 +52,68 @@ const UploadPhotos = ({ selectedEvent, events }: UploadPhotosProps) => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
 
+    const provider = getFaceEmbeddingProvider();
+    let completedCount = 0;
+
     for (let i = 0; i < newUploads.length; i++) {
       const upload = newUploads[i];
       const file = upload.file;
+      // Set once the file is in storage, so a later failure can take it out again
+      let uploadedPath: string | null = null;
       
       try {
-        // Update progress to show upload starting
+        // Update progress to show detection starting
         setUploads(prev => prev.map((u, idx) => 
           u.file === file ? { ...u, progress: 10 } : u
         ));
 
+        // Detect faces from the local file before anything is stored, so a file
+        // the detector can't read never reaches the bucket
+        await provider.load();
+        const image = await loadImageFromFile(file);
+        const faces = await provider.detectFaces(image);
+        const faceData = toPhotoFaceData(faces, provider.name, provider.dimensions, {
+          width: image.naturalWidth,
+          height: image.naturalHeight,
+        });
+
+        setUploads(prev => prev.map((u, idx) => 
+          u.file === file ? { ...u, progress: 40, status: 'uploading', facesDetected: faces.length } : u
+        ));
+
         // Upload to Supabase Storage
         const fileExt = file.name.split('.').pop();
         const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
         const filePath = `${selectedEvent}/${fileName}`;
 
         const { error: uploadError } = await supabase.storage
-          .from('event-photos')
+          .from(PHOTO_BUCKET)
           .upload(filePath, file);
 
         if (uploadError) throw uploadError;
+        uploadedPath = filePath;
 
-        // Update progress after upload
         setUploads(prev => prev.map((u, idx) => 
-          u.file === file ? { ...u, progress: 50, status: 'processing' } : u
+          u.file === file ? { ...u, progress: 80, status: 'processing' } : u
         ));
 
-        // Get public URL
-        const { data: urlData } = supabase.storage
-          .from('event-photos')
-          .getPublicUrl(filePath);
-
         // Save photo metadata to database
         const { error: dbError } = await supabase
           .from('photos')
           .insert({
             event_id: selectedEvent,
             file_name: file.name,
-            file_path: urlData.publicUrl,
+            // The bucket is private; pages sign this path when they show the photo
+            file_path: filePath,
             file_size: file.size,
             mime_type: file.type,
             uploaded_by: user.id,
+            faces_detected: faces.length,
+            face_data: faceData as unknown as Json,
           });
 
         if (dbError) throw dbError;
-
-        // Simulate face detection processing
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        completedCount++;
 
         // Update progress to completed
         setUploads(prev => prev.map((u, idx) => 
@@ -110,27 +130,36 @@ const UploadPhotos = ({ selectedEvent, events }: UploadPhotosProps) => {
             metadata: { 
               event_id: selectedEvent,
               file_name: file.name,
-              file_size: file.size 
+              file_size: file.size,
+              faces_detected: faces.length
             }
           });
 
-      } catch (error: any) {
+      } catch (error) {
+        // A file without a photos row would never be listed or cleaned up
+        if (uploadedPath) {
+          const { error: removeError } = await supabase.storage.from(PHOTO_BUCKET).remove([uploadedPath]);
+          if (removeError) console.error('Error removing orphaned upload:', removeError);
+        }
+
         setUploads(prev => prev.map((u, idx) => 
           u.file === file ? { 
             ...u, 
             progress: 0, 
             status: 'error', 
-            error: error.message 
+            error: getErrorMessage(error, "Upload failed")
           } : u
         ));
       }
     }
 
     // Show completion message
-    const completedCount = newUploads.length;
+    const failedCount = newUploads.length - completedCount;
     toast({
-      title: "Upload Complete",
-      description: `Successfully uploaded ${completedCount} photo${completedCount !== 1 ? 's' : ''}.`,
+      title: failedCount ? "Upload Finished With Errors" : "Upload Complete",
+      description: `Successfully uploaded ${completedCount} photo${completedCount !== 1 ? 's' : ''}.` +
+        (failedCount ? ` ${failedCount} failed; see the list below.` : ''),
+      variant: failedCount ? "destructive" : undefined,
     });
   };
 
@@ -161,6 +190,21 @@ const UploadPhotos = ({ selectedEvent, events }: UploadPhotosProps) => {
     setUploads([]);
   };
 
+  const formatStatus = (upload: UploadProgress) => {
+    switch (upload.status) {
+      case 'uploading':
+        return 'Uploading';
+      case 'detecting':
+        return 'Detecting faces...';
+      case 'processing':
+        return 'Saving';
+      case 'completed':
+        return `Completed · ${upload.facesDetected ?? 0} face${upload.facesDetected !== 1 ? 's' : ''} found`;
+      case 'error':
+        return 'Error';
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
@@ -255,8 +299,8 @@ const UploadPhotos = ({ selectedEvent, events }: UploadPhotosProps) => {
                       {upload.status === 'error' && (
                         <AlertCircle className="h-4 w-4 text-destructive" />
                       )}
-                      <span className="text-xs text-muted-foreground capitalize">
-                        {upload.status}
+                      <span className="text-xs text-muted-foreground">
+                        {formatStatus(upload)}
                       </span>
                     </div>
                   </div>
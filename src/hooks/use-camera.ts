@@ -0,0 +1,56 @@
+import * as React from "react"
+
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 640 },
+  height: { ideal: 480 },
+  facingMode: 'user',
+}
+
+export function useCamera() {
+  const videoRef = React.useRef<HTMLVideoElement | null>(null)
+  const streamRef = React.useRef<MediaStream | null>(null)
+  const [stream, setStream] = React.useState<MediaStream | null>(null)
+
+  // Callback ref so a remounted <video> picks the live stream back up
+  const attachVideo = React.useCallback((node: HTMLVideoElement | null) => {
+    videoRef.current = node
+    if (node && streamRef.current) {
+      node.srcObject = streamRef.current
+    }
+  }, [])
+
+  const start = React.useCallback(async () => {
+    const mediaStream = await navigator.mediaDevices.getUserMedia({ video: VIDEO_CONSTRAINTS })
+    streamRef.current = mediaStream
+    setStream(mediaStream)
+    if (videoRef.current) {
+      videoRef.current.srcObject = mediaStream
+    }
+    return mediaStream
+  }, [])
+
+  const stop = React.useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    setStream(null)
+    if (videoRef.current) {
+      videoRef.current.srcObject = null
+    }
+  }, [])
+
+  /** Draws the current video frame onto the canvas, returning false if no frame is available yet. */
+  const captureFrame = React.useCallback((canvas: HTMLCanvasElement) => {
+    const video = videoRef.current
+    const context = canvas.getContext('2d')
+    if (!video || !context || !video.videoWidth) return false
+
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    context.drawImage(video, 0, 0)
+    return true
+  }, [])
+
+  React.useEffect(() => stop, [stop])
+
+  return { videoRef, attachVideo, stream, start, stop, captureFrame }
+}
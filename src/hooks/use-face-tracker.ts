@@ -0,0 +1,64 @@
+import * as React from "react"
+import { getFaceEmbeddingProvider, type DetectedFace } from "@/lib/face"
+
+export interface TrackedFrame {
+  faces: DetectedFace[]
+  width: number
+  height: number
+  timestamp: number
+}
+
+/**
+ * Repeatedly runs landmark detection on a live video element while `enabled`.
+ * Frames are processed one at a time, so slow devices simply sample less often.
+ */
+export function useFaceTracker(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  enabled: boolean,
+  intervalMs = 120,
+) {
+  const [frame, setFrame] = React.useState<TrackedFrame | null>(null)
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setFrame(null)
+      return
+    }
+
+    let cancelled = false
+    let timer: number | undefined
+    const provider = getFaceEmbeddingProvider()
+
+    const tick = async () => {
+      const video = videoRef.current
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        try {
+          await provider.load()
+          const faces = await provider.detectFaces(video, { withEmbeddings: false })
+          if (!cancelled) {
+            setFrame({
+              faces,
+              width: video.videoWidth,
+              height: video.videoHeight,
+              timestamp: performance.now(),
+            })
+          }
+        } catch (error) {
+          console.error('Face tracking failed:', error)
+        }
+      }
+      if (!cancelled) {
+        timer = window.setTimeout(tick, intervalMs)
+      }
+    }
+
+    tick()
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [enabled, intervalMs, videoRef])
+
+  return frame
+}
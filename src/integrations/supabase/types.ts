@@ -41,68 +41,260 @@ export type Database = {
         }
         Relationships: []
       }
+      event_invite_code_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      event_invites: {
+        Row: {
+          code: string | null
+          created_at: string
+          created_by: string | null
+          event_id: string
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["event_member_role"]
+          token: string
+          use_count: number
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          event_id: string
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["event_member_role"]
+          token: string
+          use_count?: number
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          event_id?: string
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["event_member_role"]
+          token?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_invites_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_members: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          role: Database["public"]["Enums"]["event_member_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          role?: Database["public"]["Enums"]["event_member_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          role?: Database["public"]["Enums"]["event_member_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_members_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
+          access_code: string | null
+          archived_at: string | null
+          brand_color: string | null
+          cover_photo_url: string | null
           created_at: string
           created_by: string
           description: string | null
           end_date: string | null
           id: string
+          logo_url: string | null
+          match_threshold: number | null
           name: string
+          slug: string
           start_date: string
           updated_at: string
           visibility: Database["public"]["Enums"]["event_visibility"] | null
         }
         Insert: {
+          access_code?: string | null
+          archived_at?: string | null
+          brand_color?: string | null
+          cover_photo_url?: string | null
           created_at?: string
           created_by: string
           description?: string | null
           end_date?: string | null
           id?: string
+          logo_url?: string | null
+          match_threshold?: number | null
           name: string
+          slug?: string
           start_date: string
           updated_at?: string
           visibility?: Database["public"]["Enums"]["event_visibility"] | null
         }
         Update: {
+          access_code?: string | null
+          archived_at?: string | null
+          brand_color?: string | null
+          cover_photo_url?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
           end_date?: string | null
           id?: string
+          logo_url?: string | null
+          match_threshold?: number | null
           name?: string
+          slug?: string
           start_date?: string
           updated_at?: string
           visibility?: Database["public"]["Enums"]["event_visibility"] | null
         }
         Relationships: []
       }
+      face_clusters: {
+        Row: {
+          created_at: string
+          created_by: string
+          event_id: string
+          id: string
+          representative_face_id: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          event_id: string
+          id?: string
+          representative_face_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          event_id?: string
+          id?: string
+          representative_face_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "face_clusters_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "face_clusters_representative_face_id_fkey"
+            columns: ["representative_face_id"]
+            isOneToOne: false
+            referencedRelation: "photo_faces"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "face_clusters_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       face_matches: {
         Row: {
           confidence_score: number | null
+          digest_sent_at: string | null
           face_scan_data: Json | null
+          feedback: Database["public"]["Enums"]["match_feedback"] | null
+          feedback_at: string | null
           id: string
           matched_at: string
+          photo_face_id: string | null
           photo_id: string
           user_id: string
         }
         Insert: {
           confidence_score?: number | null
+          digest_sent_at?: string | null
           face_scan_data?: Json | null
+          feedback?: Database["public"]["Enums"]["match_feedback"] | null
+          feedback_at?: string | null
           id?: string
           matched_at?: string
+          photo_face_id?: string | null
           photo_id: string
           user_id: string
         }
         Update: {
           confidence_score?: number | null
+          digest_sent_at?: string | null
           face_scan_data?: Json | null
+          feedback?: Database["public"]["Enums"]["match_feedback"] | null
+          feedback_at?: string | null
           id?: string
           matched_at?: string
+          photo_face_id?: string | null
           photo_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "face_matches_photo_face_id_fkey"
+            columns: ["photo_face_id"]
+            isOneToOne: false
+            referencedRelation: "photo_faces"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "face_matches_photo_id_fkey"
             columns: ["photo_id"]
@@ -112,6 +304,182 @@ export type Database = {
           },
         ]
       }
+      face_templates: {
+        Row: {
+          created_at: string
+          embedding: string
+          id: string
+          model: string
+          sample_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          embedding: string
+          id?: string
+          model: string
+          sample_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          embedding?: string
+          id?: string
+          model?: string
+          sample_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "face_templates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      liveness_checks: {
+        Row: {
+          challenge: string
+          client_ip: string | null
+          completed_at: string | null
+          created_at: string
+          id: string
+          passed: boolean
+          used_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          challenge: string
+          client_ip?: string | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          passed?: boolean
+          used_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          challenge?: string
+          client_ip?: string | null
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          passed?: boolean
+          used_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          event_id: string | null
+          id: string
+          match_count: number
+          read_at: string | null
+          title: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          match_count?: number
+          read_at?: string | null
+          title: string
+          type?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string | null
+          id?: string
+          match_count?: number
+          read_at?: string | null
+          title?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      photo_faces: {
+        Row: {
+          bbox: Json
+          cluster_id: string | null
+          created_at: string
+          detection_score: number | null
+          embedding: string
+          event_id: string
+          face_index: number
+          id: string
+          model: string
+          photo_id: string
+        }
+        Insert: {
+          bbox: Json
+          cluster_id?: string | null
+          created_at?: string
+          detection_score?: number | null
+          embedding: string
+          event_id: string
+          face_index: number
+          id?: string
+          model: string
+          photo_id: string
+        }
+        Update: {
+          bbox?: Json
+          cluster_id?: string | null
+          created_at?: string
+          detection_score?: number | null
+          embedding?: string
+          event_id?: string
+          face_index?: number
+          id?: string
+          model?: string
+          photo_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_faces_cluster_id_fkey"
+            columns: ["cluster_id"]
+            isOneToOne: false
+            referencedRelation: "face_clusters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_faces_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_faces_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photos: {
         Row: {
           created_at: string
@@ -159,12 +527,79 @@ export type Database = {
           },
         ]
       }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          event_id: string
+          id: string
+          job_type: string
+          locked_at: string | null
+          max_attempts: number
+          photo_id: string
+          result: Json | null
+          run_after: string
+          status: Database["public"]["Enums"]["job_status"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          event_id: string
+          id?: string
+          job_type?: string
+          locked_at?: string | null
+          max_attempts?: number
+          photo_id: string
+          result?: Json | null
+          run_after?: string
+          status?: Database["public"]["Enums"]["job_status"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          event_id?: string
+          id?: string
+          job_type?: string
+          locked_at?: string | null
+          max_attempts?: number
+          photo_id?: string
+          result?: Json | null
+          run_after?: string
+          status?: Database["public"]["Enums"]["job_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_jobs_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
           email: string | null
           full_name: string | null
           id: string
+          privacy_settings: Json
           role: Database["public"]["Enums"]["user_role"]
           status: string | null
           updated_at: string
@@ -175,6 +610,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          privacy_settings?: Json
           role?: Database["public"]["Enums"]["user_role"]
           status?: string | null
           updated_at?: string
@@ -185,6 +621,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          privacy_settings?: Json
           role?: Database["public"]["Enums"]["user_role"]
           status?: string | null
           updated_at?: string
@@ -192,23 +629,249 @@ export type Database = {
         }
         Relationships: []
       }
+      public_search_attempts: {
+        Row: {
+          attempted_at: string
+          client_ip: string | null
+          event_id: string
+          id: string
+        }
+        Insert: {
+          attempted_at?: string
+          client_ip?: string | null
+          event_id: string
+          id?: string
+        }
+        Update: {
+          attempted_at?: string
+          client_ip?: string | null
+          event_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_search_attempts_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_event_member: {
+        Args: {
+          member_email: string
+          member_role?: Database["public"]["Enums"]["event_member_role"]
+          target_event_id: string
+        }
+        Returns: string
+      }
+      attach_face_cluster: {
+        Args: { target_cluster_id: string; target_user_id: string }
+        Returns: number
+      }
       can_access_face_match: {
         Args: { match_id: string; match_user_id: string }
         Returns: boolean
       }
+      can_manage_event: {
+        Args: { _event_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_upload_event_photos: {
+        Args: { _event_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_event_photos: {
+        Args: { _event_id: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_processing_jobs: {
+        Args: { batch_size?: number; lock_timeout?: unknown }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          event_id: string
+          id: string
+          job_type: string
+          locked_at: string | null
+          max_attempts: number
+          photo_id: string
+          result: Json | null
+          run_after: string
+          status: Database["public"]["Enums"]["job_status"]
+          updated_at: string
+        }[]
+      }
+      can_write_event_file: {
+        Args: { _user_id: string; object_name: string }
+        Returns: boolean
+      }
+      complete_liveness_check: {
+        Args: { check_id: string; trace: Json }
+        Returns: boolean
+      }
+      complete_processing_job: {
+        Args: { job_id: string; job_result?: Json }
+        Returns: undefined
+      }
+      create_event_invite: {
+        Args: {
+          invite_expires_at?: string
+          invite_max_uses?: number
+          invite_role?: Database["public"]["Enums"]["event_member_role"]
+          target_event_id: string
+        }
+        Returns: {
+          code: string | null
+          created_at: string
+          created_by: string | null
+          event_id: string
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["event_member_role"]
+          token: string
+          use_count: number
+        }[]
+      }
       enable_rls_on_view: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      fail_processing_job: {
+        Args: { error_message: string; job_id: string }
+        Returns: undefined
+      }
+      generate_event_access_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_event_slug: {
+        Args: { event_id: string; event_name: string }
+        Returns: string
+      }
+      generate_invite_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_invite_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       get_biometric_scan_data: {
         Args: { match_id: string }
         Returns: Json
       }
+      get_event_access_code: {
+        Args: { target_event_id: string }
+        Returns: string
+      }
+      get_event_deletion_summary: {
+        Args: { target_event_id: string }
+        Returns: {
+          face_match_count: number
+          matched_user_count: number
+          member_count: number
+          photo_count: number
+        }[]
+      }
+      get_event_face_clusters: {
+        Args: { target_event_id: string }
+        Returns: {
+          email: string
+          face_count: number
+          full_name: string
+          id: string
+          photo_count: number
+          representative_face_id: string
+          user_id: string
+        }[]
+      }
+      get_event_faces: {
+        Args: { target_event_id: string }
+        Returns: {
+          bbox: Json
+          cluster_id: string
+          detection_score: number
+          embedding: string
+          face_index: number
+          file_path: string
+          id: string
+          model: string
+          photo_id: string
+        }[]
+      }
+      get_event_invite: {
+        Args: { invite_token: string }
+        Returns: {
+          brand_color: string
+          event_id: string
+          event_name: string
+          event_slug: string
+          logo_url: string
+          role: Database["public"]["Enums"]["event_member_role"]
+          status: string
+        }[]
+      }
+      get_event_members: {
+        Args: { target_event_id: string }
+        Returns: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          role: Database["public"]["Enums"]["event_member_role"]
+          user_id: string
+        }[]
+      }
+      get_event_role: {
+        Args: { _event_id: string; _user_id: string }
+        Returns: Database["public"]["Enums"]["event_member_role"]
+      }
+      get_match_feedback_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          confirmed_count: number
+          event_id: string
+          event_name: string
+          false_positive_rate: number
+          rejected_count: number
+          total_matches: number
+        }[]
+      }
+      get_pending_match_digests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          event_id: string
+          event_name: string
+          file_paths: string[]
+          full_name: string
+          match_count: number
+          match_ids: string[]
+          user_id: string
+        }[]
+      }
+      get_photo_face_labels: {
+        Args: { photo_ids: string[] }
+        Returns: {
+          bbox: Json
+          full_name: string
+          is_self: boolean
+          photo_face_id: string
+          photo_id: string
+          user_id: string
+        }[]
+      }
       get_photo_with_secure_face_data: {
         Args: { photo_row: Database["public"]["Tables"]["photos"]["Row"] }
         Returns: {
@@ -224,6 +887,23 @@ export type Database = {
           uploaded_by: string
         }[]
       }
+      get_public_event: {
+        Args: { event_slug: string }
+        Returns: {
+          brand_color: string
+          can_view_photos: boolean
+          cover_photo_url: string
+          description: string
+          end_date: string
+          id: string
+          logo_url: string
+          name: string
+          photo_count: number
+          slug: string
+          start_date: string
+          visibility: Database["public"]["Enums"]["event_visibility"]
+        }[]
+      }
       get_safe_photos: {
         Args: { event_id_filter?: string }
         Returns: {
@@ -241,9 +921,12 @@ export type Database = {
       get_user_face_matches: {
         Args: { target_user_id?: string }
         Returns: {
+          bbox: Json
           confidence_score: number
+          feedback: Database["public"]["Enums"]["match_feedback"]
           id: string
           matched_at: string
+          photo_face_id: string
           photo_id: string
           user_id: string
         }[]
@@ -263,6 +946,132 @@ export type Database = {
         Args: { _user_id: string }
         Returns: boolean
       }
+      is_event_slug_available: {
+        Args: { candidate: string; exclude_event_id?: string }
+        Returns: boolean
+      }
+      join_event: {
+        Args: { code: string; target_event_id: string }
+        Returns: boolean
+      }
+      mark_match_digest_sent: {
+        Args: { match_ids: string[] }
+        Returns: number
+      }
+      match_faces: {
+        Args: {
+          event_id_filter?: string
+          match_count?: number
+          match_threshold?: number
+          probe_embedding?: string
+          probe_model?: string
+        }
+        Returns: {
+          bbox: Json
+          confidence_score: number
+          event_id: string
+          feedback: Database["public"]["Enums"]["match_feedback"]
+          id: string
+          matched_at: string
+          photo_face_id: string
+          photo_id: string
+        }[]
+      }
+      match_photo_for_enrolled_users: {
+        Args: { target_photo_id: string }
+        Returns: number
+      }
+      merge_face_clusters: {
+        Args: { source_cluster_ids: string[]; target_cluster_id: string }
+        Returns: number
+      }
+      record_cluster_matches: {
+        Args: { target_cluster_id: string }
+        Returns: number
+      }
+      redeem_event_invite: {
+        Args: { invite_code?: string; invite_token?: string }
+        Returns: {
+          event_id: string
+          role: Database["public"]["Enums"]["event_member_role"]
+        }[]
+      }
+      request_ip: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      reset_event_access_code: {
+        Args: { target_event_id: string }
+        Returns: string
+      }
+      save_face_clusters: {
+        Args: { clusters: Json; target_event_id: string }
+        Returns: number
+      }
+      save_face_template: {
+        Args: {
+          liveness_check_ids: string[]
+          template_embedding: string
+          template_model: string
+        }
+        Returns: {
+          created_at: string
+          embedding: string
+          id: string
+          model: string
+          sample_count: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      search_profiles: {
+        Args: { search_term: string; target_event_id: string }
+        Returns: {
+          email: string
+          full_name: string
+          user_id: string
+        }[]
+      }
+      search_public_event_photos: {
+        Args: {
+          event_slug: string
+          liveness_check_id: string
+          match_count?: number
+          probe_embedding: string
+          probe_model?: string
+        }
+        Returns: {
+          bbox: Json
+          confidence_score: number
+          created_at: string
+          file_name: string
+          file_path: string
+          file_size: number
+          photo_id: string
+        }[]
+      }
+      split_face_cluster: {
+        Args: { face_ids: string[]; source_cluster_id: string }
+        Returns: string
+      }
+      start_liveness_check: {
+        Args: { requested_challenge?: string }
+        Returns: {
+          challenge: string
+          id: string
+        }[]
+      }
+      submit_match_feedback: {
+        Args: {
+          match_photo_id: string
+          verdict: Database["public"]["Enums"]["match_feedback"]
+        }
+        Returns: boolean
+      }
+      verify_liveness_trace: {
+        Args: { challenge: string; trace: Json }
+        Returns: boolean
+      }
     }
     Enums: {
       activity_type:
@@ -275,7 +1084,13 @@ export type Database = {
         | "user_role_changed"
         | "user_created"
         | "user_deleted"
+        | "liveness_failed"
+        | "email_sent"
+        | "invite_redeemed"
+      event_member_role: "owner" | "photographer" | "viewer"
       event_visibility: "public" | "private" | "hybrid"
+      job_status: "pending" | "processing" | "completed" | "failed"
+      match_feedback: "confirmed" | "rejected"
       user_role: "admin" | "editor" | "viewer"
     }
     CompositeTypes: {
@@ -414,8 +1229,14 @@ export const Constants = {
         "user_role_changed",
         "user_created",
         "user_deleted",
+        "liveness_failed",
+        "email_sent",
+        "invite_redeemed",
       ],
+      event_member_role: ["owner", "photographer", "viewer"],
       event_visibility: ["public", "private", "hybrid"],
+      job_status: ["pending", "processing", "completed", "failed"],
+      match_feedback: ["confirmed", "rejected"],
       user_role: ["admin", "editor", "viewer"],
     },
   },
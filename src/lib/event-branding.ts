@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** Public bucket for logos and covers, under <event id>/. */
+export const BRANDING_BUCKET = "event-branding";
+
+/** Same rule as the events_slug_format_check constraint. */
+export const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+export const MAX_SLUG_LENGTH = 60;
+
+export const DEFAULT_BRAND_COLOR = "#7c3aed";
+
+/** Slug suggestion from an event name, matching generate_event_slug in the database. */
+export const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, "");
+
+/** Why a slug can't be used, or null when it is well formed. */
+export const getSlugFormatError = (slug: string) => {
+  if (!slug) return "Enter a URL slug";
+  if (slug.length > MAX_SLUG_LENGTH) return `Use at most ${MAX_SLUG_LENGTH} characters`;
+  if (!SLUG_PATTERN.test(slug)) return "Use lower-case letters and numbers separated by single dashes";
+  return null;
+};
+
+export const isSlugAvailable = async (slug: string, excludeEventId?: string) => {
+  const { data, error } = await supabase.rpc("is_event_slug_available", {
+    candidate: slug,
+    exclude_event_id: excludeEventId,
+  });
+  if (error) throw error;
+  return Boolean(data);
+};
+
+/** True for the unique violation raised when another event took the slug first. */
+export const isSlugTakenError = (error: unknown) =>
+  typeof error === "object" &&
+  error !== null &&
+  (error as { code?: string }).code === "23505" &&
+  String((error as { message?: string }).message).includes("events_slug_key");
+
+/** An image that is either already stored (its URL) or picked but not yet uploaded. */
+export type BrandingImage = string | File | null;
+
+/**
+ * Uploads a picked logo or cover to the branding bucket and returns its public
+ * URL. Stored URLs and null pass through unchanged.
+ */
+export const saveBrandingImage = async (eventId: string, kind: "logo" | "cover", image: BrandingImage) => {
+  if (!(image instanceof File)) return image;
+
+  const fileExt = image.name.split(".").pop();
+  const filePath = `${eventId}/${kind}-${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(BRANDING_BUCKET).upload(filePath, image);
+  if (error) throw error;
+
+  const { data } = supabase.storage.from(BRANDING_BUCKET).getPublicUrl(filePath);
+  return data.publicUrl;
+};
@@ -0,0 +1,154 @@
+import QRCode from "qrcode";
+import { DEFAULT_BRAND_COLOR } from "@/lib/event-branding";
+
+export interface PosterEvent {
+  name: string;
+  slug: string;
+  start_date: string;
+  end_date: string | null;
+  logo_url: string | null;
+  cover_photo_url: string | null;
+  brand_color: string | null;
+}
+
+export interface PosterTarget {
+  url: string;
+  /** Invite code printed under the QR code for people who can't scan it. */
+  inviteCode?: string;
+}
+
+// Posters are read from a distance and often photographed at an angle, so allow for some damage
+const QR_OPTIONS = { errorCorrectionLevel: "M", margin: 1, color: { dark: "#000000", light: "#ffffff" } } as const;
+const PNG_SIZE = 1024;
+
+export const getEventPageUrl = (slug: string) => `${window.location.origin}/e/${slug}`;
+
+export const renderQrSvg = (url: string) => QRCode.toString(url, { ...QR_OPTIONS, type: "svg" });
+
+export const renderQrPng = async (url: string) => {
+  const canvas = document.createElement("canvas");
+  await QRCode.toCanvas(canvas, url, { ...QR_OPTIONS, width: PNG_SIZE });
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not render the QR code"))), "image/png")
+  );
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]);
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { dateStyle: "long" });
+
+/** Inlines an image so the poster prints without the network. Images that can't be read are left out. */
+const toDataUrl = async (url: string | null) => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+/** A self-contained A4 page: the QR code is inline SVG and images are embedded. */
+export const buildPosterHtml = async (event: PosterEvent, target: PosterTarget) => {
+  const [qrSvg, cover, logo] = await Promise.all([
+    renderQrSvg(target.url),
+    toDataUrl(event.cover_photo_url),
+    toDataUrl(event.logo_url),
+  ]);
+  const color = event.brand_color ?? DEFAULT_BRAND_COLOR;
+  const dates = event.end_date && event.end_date !== event.start_date
+    ? `${formatDate(event.start_date)} – ${formatDate(event.end_date)}`
+    : formatDate(event.start_date);
+  const heading = target.inviteCode ? "Join the event" : "Find your photos";
+  const steps = target.inviteCode
+    ? "Scan with your phone camera to join the event and find the photos you're in."
+    : "Scan with your phone camera, take a selfie, and see every photo you're in.";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(event.name)} – ${heading}</title>
+<style>
+  @page { size: A4; margin: 0; }
+  * { box-sizing: border-box; }
+  html, body { margin: 0; }
+  body {
+    font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+    color: #111;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+  .poster { width: 210mm; height: 297mm; display: flex; flex-direction: column; overflow: hidden; }
+  .band { height: 16mm; background: ${color}; }
+  .cover { width: 100%; height: 55mm; object-fit: cover; display: block; border-bottom: 3mm solid ${color}; }
+  .content { flex: 1; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 5mm; padding: 8mm 20mm; text-align: center; }
+  .logo { max-height: 22mm; max-width: 60mm; object-fit: contain; }
+  h1 { margin: 0; font-size: 30pt; line-height: 1.15; color: ${color}; }
+  .dates { font-size: 13pt; color: #555; }
+  h2 { margin: 2mm 0 0; font-size: 24pt; }
+  .qr { width: ${cover ? 95 : 115}mm; height: ${cover ? 95 : 115}mm; }
+  .qr svg { width: 100%; height: 100%; display: block; }
+  .url { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 11pt; color: #333; word-break: break-all; }
+  .steps { font-size: 14pt; color: #333; max-width: 150mm; }
+  .code { font-size: 13pt; }
+  .code strong { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 18pt; letter-spacing: 0.15em; }
+  .footer { height: 12mm; background: ${color}; }
+</style>
+</head>
+<body>
+<div class="poster">
+  ${cover ? `<img class="cover" src="${cover}" alt="">` : `<div class="band"></div>`}
+  <div class="content">
+    ${logo ? `<img class="logo" src="${logo}" alt="">` : ""}
+    <h1>${escapeHtml(event.name)}</h1>
+    <div class="dates">${escapeHtml(dates)}</div>
+    <h2>${heading}</h2>
+    <div class="qr">${qrSvg}</div>
+    <div class="url">${escapeHtml(target.url)}</div>
+    <div class="steps">${steps}</div>
+    ${target.inviteCode
+      ? `<div class="code">No camera? Enter code <strong>${escapeHtml(target.inviteCode)}</strong> at ${escapeHtml(window.location.host)}/join</div>`
+      : ""}
+  </div>
+  <div class="footer"></div>
+</div>
+</body>
+</html>`;
+};
+
+/** Prints a page from a hidden frame, so no pop-up window is needed. */
+export const printHtml = (html: string) =>
+  new Promise<void>((resolve, reject) => {
+    const frame = document.createElement("iframe");
+    frame.setAttribute("aria-hidden", "true");
+    frame.style.position = "fixed";
+    frame.style.right = "0";
+    frame.style.bottom = "0";
+    frame.style.width = "0";
+    frame.style.height = "0";
+    frame.style.border = "0";
+    // The load event waits for the embedded images
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) {
+        frame.remove();
+        reject(new Error("Could not open the poster for printing"));
+        return;
+      }
+      frameWindow.addEventListener("afterprint", () => frame.remove());
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
@@ -0,0 +1,112 @@
+import { normalizeEmbedding } from "./embedding";
+import { DEFAULT_MATCH_THRESHOLD } from "./matching";
+
+export interface ClusterableFace {
+  id: string;
+  embedding: number[];
+}
+
+export interface FaceCluster {
+  faceIds: string[];
+  /** The member most similar to the rest of the cluster. */
+  representativeId: string;
+}
+
+export interface ClusterFacesOptions {
+  /** Minimum cosine similarity for two faces to be linked. */
+  threshold?: number;
+  maxIterations?: number;
+}
+
+/** Fisher-Yates with a fixed LCG seed, so the visiting order is stable between runs. */
+const seededShuffle = (values: number[]) => {
+  const result = [...values];
+  let seed = 0x2f6b3c1d;
+  for (let i = result.length - 1; i > 0; i--) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    const j = seed % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Groups faces by identity using Chinese whispers: faces above the similarity
+ * threshold are linked, then each face repeatedly adopts the label with the
+ * most link weight among its neighbours. Unlike single-linkage this doesn't
+ * chain two people together through one ambiguous face. Deterministic for a
+ * given input order. Returns clusters largest first, singletons included.
+ */
+export const clusterFaces = (
+  faces: ClusterableFace[],
+  { threshold = DEFAULT_MATCH_THRESHOLD, maxIterations = 20 }: ClusterFacesOptions = {}
+): FaceCluster[] => {
+  const vectors = faces.map(face => Float32Array.from(normalizeEmbedding(face.embedding)));
+  const neighbours: Array<Array<{ index: number; weight: number }>> = faces.map(() => []);
+
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      let similarity = 0;
+      for (let k = 0; k < vectors[i].length; k++) {
+        similarity += vectors[i][k] * vectors[j][k];
+      }
+      if (similarity >= threshold) {
+        neighbours[i].push({ index: j, weight: similarity });
+        neighbours[j].push({ index: i, weight: similarity });
+      }
+    }
+  }
+
+  const labels = faces.map((_, index) => index);
+  const order = seededShuffle(faces.map((_, index) => index));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    for (const index of order) {
+      if (neighbours[index].length === 0) continue;
+
+      const weights = new Map<number, number>();
+      neighbours[index].forEach(({ index: neighbour, weight }) => {
+        const label = labels[neighbour];
+        weights.set(label, (weights.get(label) ?? 0) + weight);
+      });
+
+      let bestLabel = labels[index];
+      let bestWeight = -Infinity;
+      weights.forEach((weight, label) => {
+        if (weight > bestWeight || (weight === bestWeight && label < bestLabel)) {
+          bestLabel = label;
+          bestWeight = weight;
+        }
+      });
+
+      if (bestLabel !== labels[index]) {
+        labels[index] = bestLabel;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const members = new Map<number, number[]>();
+  labels.forEach((label, index) => {
+    members.set(label, [...(members.get(label) ?? []), index]);
+  });
+
+  return Array.from(members.values())
+    .map(indices => {
+      const inCluster = new Set(indices);
+      const representative = indices.reduce((best, index) => {
+        const score = neighbours[index]
+          .filter(({ index: neighbour }) => inCluster.has(neighbour))
+          .reduce((sum, { weight }) => sum + weight, 0);
+        return score > best.score ? { index, score } : best;
+      }, { index: indices[0], score: -Infinity });
+
+      return {
+        faceIds: indices.map(index => faces[index].id),
+        representativeId: faces[representative.index].id,
+      };
+    })
+    .sort((a, b) => b.faceIds.length - a.faceIds.length);
+};
@@ -0,0 +1,62 @@
+import type { DetectedFace, FaceInput } from "./types";
+
+export const normalizeEmbedding = (vector: ArrayLike<number>): number[] => {
+  const values = Array.from(vector);
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) return values;
+  return values.map(value => value / norm);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) {
+    throw new Error(`Embedding length mismatch: ${a.length} vs ${b.length}`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+};
+
+/** Element-wise mean of several embeddings, re-normalised to unit length. */
+export const averageEmbeddings = (embeddings: number[][]): number[] => {
+  if (embeddings.length === 0) {
+    throw new Error("Cannot average an empty set of embeddings");
+  }
+  const sum = new Array<number>(embeddings[0].length).fill(0);
+  embeddings.forEach(embedding => {
+    embedding.forEach((value, i) => {
+      sum[i] += value;
+    });
+  });
+  return normalizeEmbedding(sum.map(value => value / embeddings.length));
+};
+
+/** Serialises an embedding into pgvector's text format for RPC arguments. */
+export const toVectorLiteral = (embedding: number[]) => `[${embedding.join(",")}]`;
+
+/** Parses pgvector's text format, as returned by RPCs that cast a vector to text. */
+export const fromVectorLiteral = (literal: string): number[] => JSON.parse(literal);
+
+/** The face with the largest bounding box, which is the subject in a selfie. */
+export const pickPrimaryFace = (faces: DetectedFace[]): DetectedFace | null => {
+  if (faces.length === 0) return null;
+  return faces.reduce((largest, face) =>
+    face.box.width * face.box.height > largest.box.width * largest.box.height ? face : largest
+  );
+};
+
+export const getInputSize = (input: FaceInput) => {
+  if (input instanceof HTMLVideoElement) {
+    return { width: input.videoWidth, height: input.videoHeight };
+  }
+  if (input instanceof HTMLImageElement) {
+    return { width: input.naturalWidth, height: input.naturalHeight };
+  }
+  return { width: input.width, height: input.height };
+};
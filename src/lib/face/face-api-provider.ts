@@ -0,0 +1,80 @@
+import { normalizeEmbedding } from "./embedding";
+import { EMBEDDING_DIMENSIONS, FACE_API_MODEL, type DetectedFace, type DetectFacesOptions, type FaceEmbeddingProvider, type FaceInput } from "./types";
+
+type FaceApi = typeof import("@vladmandic/face-api");
+
+// Served by the face-api-models plugin in vite.config.ts from the model/ folder
+// of the installed @vladmandic/face-api, so the weights follow the package version
+const DEFAULT_MODEL_URL = "/models";
+
+interface FaceApiProviderOptions {
+  modelUrl?: string;
+  minConfidence?: number;
+}
+
+/**
+ * In-browser provider backed by face-api (SSD MobileNet detector, 68-point
+ * landmarks and the 128-d ResNet recognition net). The library and weights are
+ * only fetched on the first call to `load`.
+ */
+export const createFaceApiProvider = ({
+  modelUrl = DEFAULT_MODEL_URL,
+  minConfidence = 0.5,
+}: FaceApiProviderOptions = {}): FaceEmbeddingProvider => {
+  let loading: Promise<FaceApi> | null = null;
+
+  const load = () => {
+    if (!loading) {
+      loading = (async () => {
+        const faceapi = await import("@vladmandic/face-api");
+        await Promise.all([
+          faceapi.nets.ssdMobilenetv1.loadFromUri(modelUrl),
+          faceapi.nets.faceLandmark68Net.loadFromUri(modelUrl),
+          faceapi.nets.faceRecognitionNet.loadFromUri(modelUrl),
+        ]);
+        return faceapi;
+      })();
+      // Allow a retry after a failed download instead of caching the rejection
+      loading.catch(() => {
+        loading = null;
+      });
+    }
+    return loading;
+  };
+
+  const detectFaces = async (
+    input: FaceInput,
+    { withEmbeddings = true }: DetectFacesOptions = {},
+  ): Promise<DetectedFace[]> => {
+    const faceapi = await load();
+    const task = faceapi
+      .detectAllFaces(input, new faceapi.SsdMobilenetv1Options({ minConfidence }))
+      .withFaceLandmarks();
+
+    const toFace = (result: Awaited<typeof task>[number], descriptor?: Float32Array): DetectedFace => ({
+      box: {
+        x: result.detection.box.x,
+        y: result.detection.box.y,
+        width: result.detection.box.width,
+        height: result.detection.box.height,
+      },
+      score: result.detection.score,
+      landmarks: result.landmarks.positions.map(point => ({ x: point.x, y: point.y })),
+      embedding: descriptor ? normalizeEmbedding(descriptor) : [],
+    });
+
+    if (!withEmbeddings) {
+      return (await task).map(result => toFace(result));
+    }
+    return (await task.withFaceDescriptors()).map(result => toFace(result, result.descriptor));
+  };
+
+  return {
+    name: FACE_API_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+    load: async () => {
+      await load();
+    },
+    detectFaces,
+  };
+};
@@ -0,0 +1,44 @@
+import type { BoundingBox, DetectedFace, FacePoint } from "./types";
+
+export interface StoredFace {
+  /** Bounding box as fractions of the image width/height. */
+  box: BoundingBox;
+  score: number;
+  landmarks: FacePoint[];
+  embedding: number[];
+}
+
+/** Shape of `photos.face_data`. */
+export interface PhotoFaceData {
+  model: string;
+  dimensions: number;
+  image: { width: number; height: number };
+  faces: StoredFace[];
+}
+
+const round = (value: number, digits = 6) => Number(value.toFixed(digits));
+
+export const toPhotoFaceData = (
+  faces: DetectedFace[],
+  model: string,
+  dimensions: number,
+  image: { width: number; height: number },
+): PhotoFaceData => ({
+  model,
+  dimensions,
+  image,
+  faces: faces.map(face => ({
+    box: {
+      x: round(face.box.x / image.width),
+      y: round(face.box.y / image.height),
+      width: round(face.box.width / image.width),
+      height: round(face.box.height / image.height),
+    },
+    score: round(face.score, 4),
+    landmarks: face.landmarks.map(point => ({
+      x: round(point.x / image.width, 4),
+      y: round(point.y / image.height, 4),
+    })),
+    embedding: face.embedding.map(value => round(value)),
+  })),
+});
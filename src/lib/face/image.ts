@@ -0,0 +1,12 @@
+/** Decodes an image file into an element the face providers can read. */
+export const loadImageFromFile = async (file: File): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
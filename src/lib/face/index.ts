@@ -0,0 +1,33 @@
+import { createFaceApiProvider } from "./face-api-provider";
+import { createStubFaceProvider } from "./stub-provider";
+import type { FaceEmbeddingProvider } from "./types";
+
+export * from "./types";
+export * from "./clustering";
+export * from "./embedding";
+export * from "./face-data";
+export * from "./image";
+export * from "./liveness";
+export * from "./matching";
+export * from "./quality";
+export { createFaceApiProvider } from "./face-api-provider";
+export { createStubFaceProvider } from "./stub-provider";
+
+let activeProvider: FaceEmbeddingProvider | null = null;
+
+/**
+ * The provider used across the app. Set `VITE_FACE_PROVIDER=stub` to run
+ * without downloading model weights.
+ */
+export const getFaceEmbeddingProvider = (): FaceEmbeddingProvider => {
+  if (!activeProvider) {
+    activeProvider = import.meta.env.VITE_FACE_PROVIDER === "stub"
+      ? createStubFaceProvider()
+      : createFaceApiProvider({ modelUrl: import.meta.env.VITE_FACE_MODEL_URL });
+  }
+  return activeProvider;
+};
+
+export const setFaceEmbeddingProvider = (provider: FaceEmbeddingProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,157 @@
+import type { DetectedFace, FacePoint } from "./types";
+
+export type LivenessChallengeType = 'blink' | 'turn_left' | 'turn_right';
+export type LivenessStatus = 'pending' | 'passed' | 'failed';
+export type LivenessFailureReason = 'timeout' | 'multiple_faces';
+export type HeadPose = 'frontal' | 'left' | 'right';
+
+export interface LivenessResult {
+  passed: boolean;
+  challenge: LivenessChallengeType;
+  durationMs: number;
+  reason?: LivenessFailureReason;
+}
+
+/**
+ * What one video frame showed, sent to the server so it can replay the
+ * challenge. `t` is milliseconds since the first frame; `ear` and `yaw` are
+ * null when no face with landmarks was found.
+ */
+export interface LivenessSample {
+  t: number;
+  faces: number;
+  ear: number | null;
+  yaw: number | null;
+}
+
+export interface LivenessChallenge {
+  readonly type: LivenessChallengeType;
+  readonly prompt: string;
+  /** Feed the faces detected in one video frame; returns the challenge status after that frame. */
+  update(faces: DetectedFace[], timestamp: number): LivenessStatus;
+  result(): LivenessResult | null;
+  /** The frames evaluated so far, up to and including the one that decided the challenge. */
+  trace(): LivenessSample[];
+}
+
+const PROMPTS: Record<LivenessChallengeType, string> = {
+  blink: "Blink slowly",
+  turn_left: "Turn your head to your left",
+  turn_right: "Turn your head to your right",
+};
+
+const CHALLENGE_TIMEOUT_MS = 8000;
+const EYES_CLOSED_RATIO = 0.2;
+const EYES_OPEN_RATIO = 0.25;
+const FRONTAL_YAW = 0.1;
+const TURNED_YAW = 0.25;
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const distance = (a: FacePoint, b: FacePoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const eyeRatio = (eye: FacePoint[]) =>
+  (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * distance(eye[0], eye[3]));
+
+/** Mean eye aspect ratio of both eyes; drops towards 0 as the eyes close. */
+export const eyeAspectRatio = (landmarks: FacePoint[]) =>
+  (eyeRatio(landmarks.slice(36, 42)) + eyeRatio(landmarks.slice(42, 48))) / 2;
+
+/**
+ * Horizontal offset of the nose tip from the midpoint between the eyes, as a
+ * fraction of the distance between the eyes. Roughly 0 when frontal; positive
+ * when the subject turns to their left in an unmirrored camera image.
+ */
+export const estimateYaw = (landmarks: FacePoint[]) => {
+  const leftEye = landmarks[36];
+  const rightEye = landmarks[45];
+  const nose = landmarks[30];
+  const eyeDistance = distance(leftEye, rightEye);
+  if (eyeDistance === 0) return 0;
+  return (nose.x - (leftEye.x + rightEye.x) / 2) / eyeDistance;
+};
+
+/** Whether a face is held in the pose, using the same yaw limits as the turn challenges. */
+export const isInPose = (landmarks: FacePoint[], pose: HeadPose) => {
+  if (landmarks.length < 68) return false;
+  const yaw = estimateYaw(landmarks);
+  if (pose === 'frontal') return Math.abs(yaw) < FRONTAL_YAW;
+  return yaw * (pose === 'left' ? 1 : -1) > TURNED_YAW;
+};
+
+/**
+ * A challenge evaluated across consecutive video frames. Each challenge first
+ * needs a neutral pose (eyes open, facing the camera) and then the requested
+ * movement, which a still photo held up to the camera cannot produce.
+ */
+export const createLivenessChallenge = (type: LivenessChallengeType): LivenessChallenge => {
+  let startedAt: number | null = null;
+  let sawNeutral = false;
+  let sawAction = false;
+  let status: LivenessStatus = 'pending';
+  let outcome: LivenessResult | null = null;
+  const samples: LivenessSample[] = [];
+
+  const finish = (next: LivenessStatus, timestamp: number, reason?: LivenessFailureReason) => {
+    status = next;
+    outcome = {
+      passed: next === 'passed',
+      challenge: type,
+      durationMs: Math.round(timestamp - (startedAt ?? timestamp)),
+      reason,
+    };
+    return status;
+  };
+
+  const update = (faces: DetectedFace[], timestamp: number): LivenessStatus => {
+    if (status !== 'pending') return status;
+    if (startedAt === null) startedAt = timestamp;
+
+    // The server replays the challenge from these rounded values, so decide on them too
+    const face = faces[0];
+    const measured = faces.length === 1 && face.landmarks.length >= 68;
+    const ear = measured ? round3(eyeAspectRatio(face.landmarks)) : null;
+    const yaw = measured ? round3(estimateYaw(face.landmarks)) : null;
+    samples.push({ t: Math.round(timestamp - startedAt), faces: faces.length, ear, yaw });
+
+    if (timestamp - startedAt > CHALLENGE_TIMEOUT_MS) {
+      return finish('failed', timestamp, 'timeout');
+    }
+    if (faces.length > 1) {
+      return finish('failed', timestamp, 'multiple_faces');
+    }
+
+    if (!measured) return status;
+
+    if (type === 'blink') {
+      if (ear > EYES_OPEN_RATIO) {
+        if (sawAction) return finish('passed', timestamp);
+        sawNeutral = true;
+      } else if (ear < EYES_CLOSED_RATIO && sawNeutral) {
+        sawAction = true;
+      }
+      return status;
+    }
+
+    const direction = type === 'turn_left' ? 1 : -1;
+    if (Math.abs(yaw) < FRONTAL_YAW) {
+      sawNeutral = true;
+    } else if (sawNeutral && yaw * direction > TURNED_YAW) {
+      return finish('passed', timestamp);
+    }
+    return status;
+  };
+
+  return {
+    type,
+    prompt: PROMPTS[type],
+    update,
+    result: () => outcome,
+    trace: () => [...samples],
+  };
+};
+
+export const randomLivenessChallenge = () => {
+  const types: LivenessChallengeType[] = ['blink', 'turn_left', 'turn_right'];
+  return createLivenessChallenge(types[Math.floor(Math.random() * types.length)]);
+};
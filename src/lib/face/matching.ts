@@ -0,0 +1,21 @@
+/**
+ * Minimum cosine similarity between a probe and a photo face for the pair to
+ * be recorded as a match. Mirrors the default of the `match_faces` RPC.
+ */
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+/** Range offered by the threshold slider in FaceMatch; matches the events.match_threshold check. */
+export const MIN_MATCH_THRESHOLD = 0.5;
+export const MAX_MATCH_THRESHOLD = 0.99;
+
+export type MatchBand = 'strong' | 'likely' | 'possible';
+
+/** Confidence bands, highest first. `minScore` is a confidence_score percentage. */
+export const MATCH_BANDS: Array<{ band: MatchBand; label: string; minScore: number; description: string }> = [
+  { band: 'strong', label: "Strong", minScore: 90, description: "Almost certainly you" },
+  { band: 'likely', label: "Likely", minScore: 80, description: "Probably you" },
+  { band: 'possible', label: "Possible", minScore: 0, description: "Worth a second look" },
+];
+
+export const getMatchBand = (confidenceScore: number): MatchBand =>
+  MATCH_BANDS.find(({ minScore }) => confidenceScore >= minScore)?.band ?? 'possible';
@@ -0,0 +1,141 @@
+import { estimateYaw } from "./liveness";
+import type { DetectedFace, FaceInput } from "./types";
+
+export type QualityIssue =
+  | 'no_face'
+  | 'multiple_faces'
+  | 'too_small'
+  | 'too_close'
+  | 'off_centre'
+  | 'too_dark'
+  | 'too_bright'
+  | 'blurry'
+  | 'not_frontal';
+
+export interface FaceQuality {
+  /** Weighted overall score between 0 and 1. */
+  score: number;
+  sharpness: number;
+  brightness: number;
+  pose: number;
+  size: number;
+  centring: number;
+  issues: QualityIssue[];
+}
+
+/** Overall score a frame must reach, with no outstanding issues, to be captured automatically. */
+export const MIN_CAPTURE_QUALITY = 0.7;
+
+export const QUALITY_GUIDANCE: Record<QualityIssue, string> = {
+  no_face: "Look at the camera",
+  multiple_faces: "Make sure only you are in view",
+  too_small: "Move closer",
+  too_close: "Move back a little",
+  off_centre: "Centre your face in the circle",
+  too_dark: "Too dark - find more light",
+  too_bright: "Too bright - avoid direct light",
+  blurry: "Hold still",
+  not_frontal: "Face the camera directly",
+};
+
+const SAMPLE_SIZE = 64;
+// Laplacian variance at which a face crop is considered fully sharp
+const SHARP_LAPLACIAN_VARIANCE = 150;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+let scratch: HTMLCanvasElement | null = null;
+
+const sampleLuminance = (source: FaceInput, face: DetectedFace) => {
+  scratch ??= document.createElement("canvas");
+  scratch.width = SAMPLE_SIZE;
+  scratch.height = SAMPLE_SIZE;
+  const context = scratch.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+
+  const { x, y, width, height } = face.box;
+  context.drawImage(source, x, y, width, height, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const luminance = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luminance;
+};
+
+const laplacianVariance = (luminance: Float32Array) => {
+  const values: number[] = [];
+  for (let y = 1; y < SAMPLE_SIZE - 1; y++) {
+    for (let x = 1; x < SAMPLE_SIZE - 1; x++) {
+      const i = y * SAMPLE_SIZE + x;
+      values.push(
+        luminance[i - 1] + luminance[i + 1] + luminance[i - SAMPLE_SIZE] + luminance[i + SAMPLE_SIZE] - 4 * luminance[i]
+      );
+    }
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+};
+
+/**
+ * Scores how suitable a frame is for matching: sharpness and exposure of the
+ * face crop, head pose, face size and how well it is centred in the frame.
+ */
+export const assessFaceQuality = (
+  source: FaceInput,
+  faces: DetectedFace[],
+  frame: { width: number; height: number },
+): FaceQuality => {
+  const empty = { score: 0, sharpness: 0, brightness: 0, pose: 0, size: 0, centring: 0 };
+  if (faces.length === 0) return { ...empty, issues: ['no_face'] };
+  if (faces.length > 1) return { ...empty, issues: ['multiple_faces'] };
+
+  const face = faces[0];
+  const issues: QualityIssue[] = [];
+
+  const widthRatio = face.box.width / frame.width;
+  const size = clamp((widthRatio - 0.15) / 0.15);
+  if (widthRatio < 0.2) issues.push('too_small');
+  if (widthRatio > 0.7) issues.push('too_close');
+
+  const offsetX = (face.box.x + face.box.width / 2) / frame.width - 0.5;
+  const offsetY = (face.box.y + face.box.height / 2) / frame.height - 0.5;
+  const offset = Math.hypot(offsetX, offsetY);
+  const centring = clamp(1 - offset / 0.35);
+  if (offset > 0.2) issues.push('off_centre');
+
+  const yaw = face.landmarks.length >= 68 ? Math.abs(estimateYaw(face.landmarks)) : 0;
+  const pose = clamp(1 - yaw / 0.3);
+  if (yaw > 0.15) issues.push('not_frontal');
+
+  let brightness = 0;
+  let sharpness = 0;
+  const luminance = sampleLuminance(source, face);
+  if (luminance) {
+    const meanLuminance = luminance.reduce((sum, value) => sum + value, 0) / luminance.length / 255;
+    brightness = clamp(1 - Math.abs(meanLuminance - 0.55) / 0.35);
+    if (meanLuminance < 0.25) issues.push('too_dark');
+    if (meanLuminance > 0.85) issues.push('too_bright');
+
+    sharpness = clamp(laplacianVariance(luminance) / SHARP_LAPLACIAN_VARIANCE);
+    if (sharpness < 0.4) issues.push('blurry');
+  }
+
+  const score = 0.3 * sharpness + 0.2 * brightness + 0.2 * pose + 0.15 * size + 0.15 * centring;
+  return { score, sharpness, brightness, pose, size, centring, issues };
+};
+
+/** Issues that still matter for an uploaded selfie, where framing is not under our control. */
+export const STILL_IMAGE_GUIDANCE: Partial<Record<QualityIssue, string>> = {
+  too_dark: "The photo is too dark. Try one taken in better light.",
+  too_bright: "The photo is overexposed. Try one without direct light on your face.",
+  blurry: "The photo is too blurry. Try a sharper one.",
+  not_frontal: "Your face is turned away. Try a photo where you face the camera.",
+};
+
+/** Smallest face width, in pixels, worth extracting an embedding from. */
+export const MIN_FACE_PIXELS = 80;
+
+export const isCaptureQuality = (quality: FaceQuality) =>
+  quality.issues.length === 0 && quality.score >= MIN_CAPTURE_QUALITY;
@@ -0,0 +1,83 @@
+import { getInputSize, normalizeEmbedding } from "./embedding";
+import { EMBEDDING_DIMENSIONS, type BoundingBox, type DetectedFace, type FaceEmbeddingProvider, type FaceInput, type FacePoint } from "./types";
+
+const SAMPLE_WIDTH = 16;
+const SAMPLE_HEIGHT = EMBEDDING_DIMENSIONS / SAMPLE_WIDTH;
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number, degrees: number[]): FacePoint[] =>
+  degrees.map(deg => {
+    const rad = (deg * Math.PI) / 180;
+    return { x: cx + rx * Math.cos(rad), y: cy - ry * Math.sin(rad) };
+  });
+
+const line = (from: FacePoint, to: FacePoint, count: number): FacePoint[] =>
+  Array.from({ length: count }, (_, i) => {
+    const t = count === 1 ? 0 : i / (count - 1);
+    return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+  });
+
+// A neutral, eyes-open, frontal face in the 68-point layout, in unit box coordinates
+const LANDMARK_TEMPLATE: FacePoint[] = [
+  ...Array.from({ length: 17 }, (_, i) => ({
+    x: 0.5 - 0.48 * Math.cos((Math.PI * i) / 16),
+    y: 0.3 + 0.65 * Math.sin((Math.PI * i) / 16),
+  })),
+  ...line({ x: 0.15, y: 0.26 }, { x: 0.42, y: 0.24 }, 5),
+  ...line({ x: 0.58, y: 0.24 }, { x: 0.85, y: 0.26 }, 5),
+  ...line({ x: 0.5, y: 0.32 }, { x: 0.5, y: 0.55 }, 4),
+  ...line({ x: 0.4, y: 0.62 }, { x: 0.6, y: 0.62 }, 5),
+  ...ellipse(0.3, 0.38, 0.09, 0.035, [180, 120, 60, 0, -60, -120]),
+  ...ellipse(0.7, 0.38, 0.09, 0.035, [180, 120, 60, 0, -60, -120]),
+  ...ellipse(0.5, 0.78, 0.18, 0.06, [180, 150, 120, 90, 60, 30, 0, -30, -60, -90, -120, -150]),
+  ...ellipse(0.5, 0.78, 0.12, 0.02, [180, 135, 90, 45, 0, -45, -90, -135]),
+];
+
+/**
+ * Deterministic provider for tests and offline development. It reports a single
+ * face filling the centre of the frame and derives the embedding from a
+ * downsampled greyscale copy of that region, so identical frames always yield
+ * identical vectors. A uniformly coloured frame yields no face.
+ */
+export const createStubFaceProvider = (): FaceEmbeddingProvider => {
+  const detectFaces = async (input: FaceInput): Promise<DetectedFace[]> => {
+    const { width, height } = getInputSize(input);
+    if (!width || !height) return [];
+
+    const side = Math.min(width, height) * 0.6;
+    const box: BoundingBox = { x: (width - side) / 2, y: (height - side) / 2, width: side, height: side };
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = SAMPLE_HEIGHT;
+    const context = canvas.getContext("2d");
+    if (!context) return [];
+
+    context.drawImage(input, box.x, box.y, box.width, box.height, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+    const luminance: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      luminance.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+    const mean = luminance.reduce((sum, value) => sum + value, 0) / luminance.length;
+    const centred = luminance.map(value => value - mean);
+    if (centred.every(value => value === 0)) return [];
+
+    return [{
+      box,
+      score: 1,
+      landmarks: LANDMARK_TEMPLATE.map(point => ({
+        x: box.x + point.x * box.width,
+        y: box.y + point.y * box.height,
+      })),
+      embedding: normalizeEmbedding(centred),
+    }];
+  };
+
+  return {
+    name: "stub-luminance-128",
+    dimensions: EMBEDDING_DIMENSIONS,
+    load: async () => {},
+    detectFaces,
+  };
+};
@@ -0,0 +1,56 @@
+/** Length of every embedding vector produced by a face provider. */
+export const EMBEDDING_DIMENSIONS = 128;
+
+/** Model name of face-api embeddings, shared by the browser provider and the worker's detection. */
+export const FACE_API_MODEL = "face-api-resnet-128";
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A single face found in an image. Coordinates are in pixels of the source
+ * input; landmarks follow the 68-point iBUG layout. `embedding` is empty when
+ * detection ran with `withEmbeddings: false`.
+ */
+export interface DetectedFace {
+  box: BoundingBox;
+  score: number;
+  landmarks: FacePoint[];
+  embedding: number[];
+}
+
+export type FaceInput = HTMLCanvasElement | HTMLImageElement | HTMLVideoElement;
+
+export interface DetectFacesOptions {
+  /** Skip the recognition network, e.g. when tracking a live video stream. Defaults to true. */
+  withEmbeddings?: boolean;
+}
+
+export interface FaceEmbeddingProvider {
+  /** Identifier stored alongside embeddings so incompatible vectors are never compared. */
+  readonly name: string;
+  readonly dimensions: number;
+  load(): Promise<void>;
+  detectFaces(input: FaceInput, options?: DetectFacesOptions): Promise<DetectedFace[]>;
+}
+
+/** The probe produced by a completed face scan, handed from ScanFace to FaceMatch. */
+export interface FaceScan {
+  embedding: number[];
+  model: string;
+  /** Overall capture quality score between 0 and 1. */
+  quality?: number;
+  eventId: string | null;
+  capturedAt: string;
+  /** Server-confirmed liveness check behind a camera scan; null for uploaded selfies. Guest searches spend it. */
+  livenessCheckId?: string | null;
+}
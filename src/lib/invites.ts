@@ -0,0 +1,21 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type EventInvite = Database["public"]["Tables"]["event_invites"]["Row"];
+type EventMemberRole = Database["public"]["Enums"]["event_member_role"];
+
+export const getInviteUrl = (token: string) => `${window.location.origin}/join/${token}`;
+
+/** Codes are stored as digits (twelve, or eight for older invites) and shown in groups of four. */
+export const formatInviteCode = (code: string) => code.replace(/(\d{4})(?=\d)/g, "$1 ");
+
+/** Only viewer invites with a use limit or an expiry get a code; the rest are link only. */
+export const inviteGetsCode = (role: EventMemberRole, maxUses: number | null, expires: boolean) =>
+  role === "viewer" && (maxUses !== null || expires);
+
+export const isInviteOutstanding = (invite: EventInvite) =>
+  !invite.revoked_at &&
+  (!invite.expires_at || new Date(invite.expires_at) > new Date()) &&
+  (invite.max_uses === null || invite.use_count < invite.max_uses);
+
+/** The dashboard tab a new member lands on after joining. */
+export const getLandingTab = (role: EventMemberRole) => (role === "viewer" ? "scan-face" : "upload-photos");
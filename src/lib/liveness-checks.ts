@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+import { createLivenessChallenge, type LivenessChallenge, type LivenessChallengeType } from "@/lib/face";
+import type { Json } from "@/integrations/supabase/types";
+
+/** A challenge issued by the server, evaluated locally and then replayed by the server. */
+export interface LivenessCheck {
+  id: string;
+  challenge: LivenessChallenge;
+}
+
+/** Asks the server for a challenge: the requested one, or a random one when none is given. */
+export const startLivenessCheck = async (type?: LivenessChallengeType): Promise<LivenessCheck> => {
+  const { data, error } = await supabase.rpc('start_liveness_check', { requested_challenge: type ?? null });
+
+  if (error) throw error;
+  const issued = data?.[0];
+  if (!issued) throw new Error('No liveness challenge was issued');
+  return { id: issued.id, challenge: createLivenessChallenge(issued.challenge as LivenessChallengeType) };
+};
+
+/**
+ * Sends the frames the challenge was decided on to the server. Resolves to
+ * whether the server agreed it passed; only checks it agreed on are accepted
+ * where liveness is required.
+ */
+export const completeLivenessCheck = async (check: LivenessCheck) => {
+  const { data, error } = await supabase.rpc('complete_liveness_check', {
+    check_id: check.id,
+    trace: check.challenge.trace() as unknown as Json,
+  });
+
+  if (error) throw error;
+  return Boolean(data);
+};
@@ -0,0 +1,16 @@
+/** Deep link that opens a photo in the lightbox. */
+export const photoPageUrl = (photoId: string) => `${window.location.origin}/photos/${photoId}`;
+
+/**
+ * Shares a link to the photo with the native share sheet where there is one,
+ * otherwise copies it. Resolves to "copied" when the link was copied.
+ */
+export const sharePhotoLink = async (photoId: string, title: string) => {
+  const url = photoPageUrl(photoId);
+  if (navigator.share) {
+    await navigator.share({ title, url });
+    return "shared" as const;
+  }
+  await navigator.clipboard.writeText(url);
+  return "copied" as const;
+};
@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** Private bucket holding the photo files, under <event id>/. */
+export const PHOTO_BUCKET = "event-photos";
+
+// Long enough to browse a gallery and download from it; pages sign again each time they load
+const SIGNED_URL_SECONDS = 60 * 60;
+
+/**
+ * Signed URLs for photo files, keyed by their path in the bucket, in one request.
+ * Storage applies the same access rule as the photos table, so paths the caller
+ * can't open are missing from the result.
+ */
+export const signPhotoPaths = async (paths: string[]) => {
+  const unique = [...new Set(paths)];
+  if (unique.length === 0) return new Map<string, string>();
+
+  const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(unique, SIGNED_URL_SECONDS);
+
+  if (error) throw error;
+  return new Map(data.filter(item => item.path && item.signedUrl).map(item => [item.path, item.signedUrl]));
+};
+
+/** Swaps each photo's file_path for a signed URL, leaving out photos that couldn't be signed. */
+export const withSignedUrls = async <T extends { file_path: string }>(photos: T[]): Promise<T[]> => {
+  const urls = await signPhotoPaths(photos.map(photo => photo.file_path));
+  return photos.flatMap(photo => {
+    const url = urls.get(photo.file_path);
+    return url ? [{ ...photo, file_path: url }] : [];
+  });
+};
@@ -0,0 +1,166 @@
+import { makeZip } from "client-zip";
+
+export interface ZipEntry {
+  url: string;
+  /** Name inside the archive. Duplicates are renamed "photo (2).jpg" and so on. */
+  name: string;
+  lastModified?: string | Date;
+  /** Size in bytes, where known; counts towards the limit for archives built in memory. */
+  size?: number | null;
+}
+
+export interface ZipProgress {
+  /** Files already written to the archive. */
+  filesDone: number;
+  filesTotal: number;
+  bytesWritten: number;
+}
+
+interface ZipDownloadOptions {
+  /** CSV written to the archive as manifest.csv. */
+  manifest?: string;
+  onProgress?: (progress: ZipProgress) => void;
+  signal?: AbortSignal;
+}
+
+// The File System Access API is not in TypeScript's DOM library yet
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+const MANIFEST_NAME = "manifest.csv";
+
+/** Largest archive built in memory, for browsers that can't write straight to disk. */
+export const MAX_IN_MEMORY_ZIP_BYTES = 500 * 1024 * 1024;
+
+// Byte counts arrive per chunk; the UI only needs a few updates a second
+const PROGRESS_INTERVAL_MS = 200;
+
+const tooLargeError = () =>
+  new Error(
+    `This browser can only save ZIP files up to ${MAX_IN_MEMORY_ZIP_BYTES / 1024 / 1024} MB. ` +
+    "Select fewer photos, or use a browser that can save straight to disk, such as Chrome or Edge."
+  );
+
+type WindowWithSaveFilePicker = Window & { showSaveFilePicker?: SaveFilePicker };
+
+/** Whether downloadZip can write to disk as it goes, with no limit on the archive size. */
+export const canStreamZipToDisk = () => Boolean((window as WindowWithSaveFilePicker).showSaveFilePicker);
+
+export const saveBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+/** Downloads a single file under the given name, which plain links ignore for other origins. */
+export const downloadFile = async (url: string, fileName: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not download ${fileName} (${response.status})`);
+  saveBlob(await response.blob(), fileName);
+};
+
+/** Makes names unique, case-insensitively, by numbering repeats before the extension. */
+export const uniqueFileNames = (names: string[]) => {
+  const taken = new Set<string>();
+  return names.map(name => {
+    const dot = name.lastIndexOf(".");
+    const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+    let candidate = name;
+    for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+      candidate = `${base} (${copy})${extension}`;
+    }
+    taken.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+
+/**
+ * Streams files into a ZIP archive and saves it. Files are fetched one at a time
+ * as the archive is written, and where the browser can write straight to disk the
+ * archive is never held in memory either; elsewhere it is assembled as a Blob,
+ * which fails once it passes MAX_IN_MEMORY_ZIP_BYTES.
+ */
+export const downloadZip = async (
+  archiveName: string,
+  entries: ZipEntry[],
+  { manifest, onProgress, signal }: ZipDownloadOptions = {}
+) => {
+  const names = uniqueFileNames([...(manifest ? [MANIFEST_NAME] : []), ...entries.map(entry => entry.name)]);
+  const fileNames = manifest ? names.slice(1) : names;
+  const progress: ZipProgress = { filesDone: 0, filesTotal: entries.length, bytesWritten: 0 };
+  const fileSystemWindow = window as WindowWithSaveFilePicker;
+  const streamToDisk = Boolean(fileSystemWindow.showSaveFilePicker);
+  let lastReported = 0;
+
+  const report = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastReported < PROGRESS_INTERVAL_MS) return;
+    lastReported = now;
+    onProgress?.({ ...progress });
+  };
+
+  // Refuse up front when the known sizes already add up to more than memory allows
+  const knownBytes = entries.reduce((total, entry) => total + (entry.size ?? 0), 0);
+  if (!streamToDisk && knownBytes > MAX_IN_MEMORY_ZIP_BYTES) throw tooLargeError();
+
+  async function* files() {
+    for (const [index, entry] of entries.entries()) {
+      // client-zip asks for the next file once the previous one is fully written
+      progress.filesDone = index;
+      report(true);
+
+      const response = await fetch(entry.url, { signal });
+      if (!response.ok) throw new Error(`Could not download ${entry.name} (${response.status})`);
+      yield { name: fileNames[index], input: response, lastModified: entry.lastModified };
+    }
+    if (manifest) yield { name: MANIFEST_NAME, input: manifest };
+    progress.filesDone = entries.length;
+    report(true);
+  }
+
+  const archive = makeZip(files()).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        progress.bytesWritten += chunk.byteLength;
+        // Sizes can be missing or wrong, so also stop an in-memory archive as it grows
+        if (!streamToDisk && progress.bytesWritten > MAX_IN_MEMORY_ZIP_BYTES) {
+          controller.error(tooLargeError());
+          return;
+        }
+        report();
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  if (fileSystemWindow.showSaveFilePicker) {
+    const handle = await fileSystemWindow.showSaveFilePicker({
+      suggestedName: archiveName,
+      types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }],
+    });
+    await archive.pipeTo(await handle.createWritable(), { signal });
+    return;
+  }
+
+  const blob = await new Response(archive).blob();
+  if (signal?.aborted) throw signal.reason;
+  saveBlob(blob, archiveName);
+};
+
+/** True for errors caused by the user cancelling, either the save dialog or the download. */
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
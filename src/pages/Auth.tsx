@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,6 +15,24 @@ const Auth = () => {
   const [fullName, setFullName] = useState("");
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // Where to go once signed in; only same-site paths are followed
+  const requested = searchParams.get("redirect");
+  const redirectTo = requested?.startsWith("/") && !requested.startsWith("//") ? requested : "/dashboard";
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (session) navigate(redirectTo, { replace: true });
+    });
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session) navigate(redirectTo, { replace: true });
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate, redirectTo]);
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,7 +43,7 @@ const Auth = () => {
         email,
         password,
         options: {
-          emailRedirectTo: `${window.location.origin}/`,
+          emailRedirectTo: `${window.location.origin}${redirectTo}`,
           data: {
             full_name: fullName,
           }
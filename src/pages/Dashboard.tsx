@@ -1,12 +1,12 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { User, Session } from '@supabase/supabase-js';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Camera, LogOut, Plus, Upload, Scan, Users, Activity, Settings } from "lucide-react";
+import { Camera, LogOut, Plus, Upload, Scan, Users, Activity, Settings, Contact, Images, Globe, CalendarCog, Ticket } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 // Import tab components
@@ -14,8 +14,17 @@ import CreateEvent from "@/components/CreateEvent";
 import UploadPhotos from "@/components/UploadPhotos";
 import ScanFace from "@/components/ScanFace";
 import FaceMatch from "@/components/FaceMatch";
+import EventPeople from "@/components/EventPeople";
+import EventPhotos from "@/components/EventPhotos";
+import PrivacySettings from "@/components/PrivacySettings";
+import NotificationBell from "@/components/NotificationBell";
 import UserManagement from "@/components/UserManagement";
 import ActivityLogs from "@/components/ActivityLogs";
+import EventManagement from "@/components/EventManagement";
+import JoinEvent from "@/components/JoinEvent";
+import EventAccessCode from "@/components/EventAccessCode";
+import type { EventMemberRole } from "@/components/EventMembers";
+import type { FaceScan } from "@/lib/face";
 
 interface Profile {
   id: string;
@@ -29,20 +38,38 @@ interface Profile {
 interface Event {
   id: string;
   name: string;
+  slug: string;
+  created_by: string;
   description: string;
   start_date: string;
   end_date: string;
   visibility: 'public' | 'private' | 'hybrid';
+  match_threshold: number | null;
+  cover_photo_url: string | null;
+  logo_url: string | null;
+  brand_color: string | null;
 }
 
+// Access codes are not readable, so events are always fetched by column
+const EVENT_COLUMNS = 'id, name, slug, description, start_date, end_date, visibility, match_threshold, created_by, cover_photo_url, logo_url, brand_color';
+
 const Dashboard = () => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [searchParams] = useSearchParams();
   const [events, setEvents] = useState<Event[]>([]);
-  const [selectedEvent, setSelectedEvent] = useState<string>("");
+  const [eventRoles, setEventRoles] = useState<Record<string, EventMemberRole>>({});
+  // Links from digest emails open a tab for a given event, e.g. ?tab=face-match&event=<id>
+  const [selectedEvent, setSelectedEvent] = useState<string>(searchParams.get('event') ?? "");
+  const [faceScan, setFaceScan] = useState<FaceScan | null>(null);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') ?? "create-event");
   const [loading, setLoading] = useState(true);
+  // Hybrid events only show their photos to members, who can join from a shared link
+  const [canViewPhotos, setCanViewPhotos] = useState(true);
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -53,8 +80,7 @@ const Dashboard = () => {
         setUser(session?.user ?? null);
         
         if (session?.user) {
-          await fetchProfile(session.user.id);
-          await fetchEvents();
+          await fetchEvents(await fetchProfile(session.user.id));
         }
         setLoading(false);
       }
@@ -67,8 +93,7 @@ const Dashboard = () => {
       
       if (session?.user) {
         setTimeout(async () => {
-          await fetchProfile(session.user.id);
-          await fetchEvents();
+          await fetchEvents(await fetchProfile(session.user.id));
           setLoading(false);
         }, 0);
       } else {
@@ -81,9 +106,32 @@ const Dashboard = () => {
 
   useEffect(() => {
     if (!loading && !user) {
-      navigate('/auth');
+      // Come back to the same tab and event after signing in
+      navigate(`/auth?redirect=${encodeURIComponent(location.pathname + location.search)}`);
+    }
+  }, [user, loading, navigate, location]);
+
+  useEffect(() => {
+    checkPhotoAccess();
+  }, [selectedEvent, events, user]);
+
+  const checkPhotoAccess = async () => {
+    const event = events.find(e => e.id === selectedEvent);
+    if (!user || event?.visibility !== 'hybrid') {
+      setCanViewPhotos(true);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('can_view_event_photos', {
+      _event_id: event.id,
+      _user_id: user.id,
+    });
+    if (error) {
+      console.error('Error checking event access:', error);
+      return;
     }
-  }, [user, loading, navigate]);
+    setCanViewPhotos(Boolean(data));
+  };
 
   const fetchProfile = async (userId: string) => {
     try {
@@ -95,6 +143,7 @@ const Dashboard = () => {
 
       if (error) throw error;
       setProfile(data);
+      return data;
     } catch (error: any) {
       console.error('Error fetching profile:', error);
       toast({
@@ -102,22 +151,59 @@ const Dashboard = () => {
         description: "Failed to load profile",
         variant: "destructive",
       });
+      return null;
     }
   };
 
-  const fetchEvents = async () => {
+  const fetchEvents = async (currentProfile: Profile | null = profile) => {
+    if (!currentProfile) return;
+
     try {
-      const { data, error } = await supabase
+      const { data: memberships, error: membershipError } = await supabase
+        .from('event_members')
+        .select('event_id, role')
+        .eq('user_id', currentProfile.user_id);
+
+      if (membershipError) throw membershipError;
+      const roles: Record<string, EventMemberRole> = Object.fromEntries(
+        (memberships || []).map(membership => [membership.event_id, membership.role])
+      );
+
+      let query = supabase
         .from('events')
-        .select('*')
+        .select(EVENT_COLUMNS)
+        // Archived events keep their photos but are no longer offered here
+        .is('archived_at', null)
         .order('created_at', { ascending: false });
 
+      // Admins see every event; everyone else only the events they belong to
+      if (currentProfile.role !== 'admin') {
+        query = query.in('id', Object.keys(roles));
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
-      setEvents(data || []);
-      
+      let eventList = data || [];
+
+      // Links can point at an event the user hasn't joined yet, e.g. a hybrid event to join here
+      if (selectedEvent && !eventList.some(event => event.id === selectedEvent)) {
+        const { data: linkedEvent } = await supabase
+          .from('events')
+          .select(EVENT_COLUMNS)
+          .eq('id', selectedEvent)
+          .is('archived_at', null)
+          .maybeSingle();
+
+        if (linkedEvent) eventList = [...eventList, linkedEvent];
+      }
+
+      setEventRoles(roles);
+      setEvents(eventList);
+
       // Auto-select first event if available
-      if (data && data.length > 0 && !selectedEvent) {
-        setSelectedEvent(data[0].id);
+      if (eventList.length > 0 && !selectedEvent) {
+        setSelectedEvent(eventList[0].id);
       }
     } catch (error: any) {
       console.error('Error fetching events:', error);
@@ -129,10 +215,15 @@ const Dashboard = () => {
     }
   };
 
+  const openEventMatches = (eventId: string) => {
+    setSelectedEvent(eventId);
+    setActiveTab("face-match");
+  };
+
   const handleSignOut = async () => {
     try {
       await supabase.auth.signOut();
-      navigate('/auth');
+      navigate('/');
     } catch (error: any) {
       toast({
         title: "Error",
@@ -157,8 +248,24 @@ const Dashboard = () => {
     return null; // Will redirect to auth
   }
 
+  const currentEvent = events.find(event => event.id === selectedEvent);
   const isAdmin = profile.role === 'admin';
   const isAdminOrEditor = profile.role === 'admin' || profile.role === 'editor';
+  const currentRole = eventRoles[selectedEvent];
+  const canManageCurrentEvent = isAdmin || currentRole === 'owner';
+  const canUploadToCurrentEvent = isAdmin || currentRole === 'owner' || currentRole === 'photographer';
+  const ownsEvents = isAdmin || Object.values(eventRoles).includes('owner');
+
+  const joinEvent = currentEvent && (
+    <JoinEvent
+      eventId={currentEvent.id}
+      eventName={currentEvent.name}
+      onJoined={() => {
+        checkPhotoAccess();
+        fetchEvents();
+      }}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -179,6 +286,17 @@ const Dashboard = () => {
                 <p className="font-medium text-foreground">{profile.full_name}</p>
                 <p className="text-sm text-muted-foreground capitalize">{profile.role}</p>
               </div>
+              <NotificationBell userId={user.id} onOpenEvent={openEventMatches} />
+              <Button asChild variant="outline" size="sm">
+                <Link to="/join">
+                  <Ticket className="h-4 w-4 mr-2" />
+                  Join Event
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setShowPrivacy(true)}>
+                <Settings className="h-4 w-4 mr-2" />
+                Privacy
+              </Button>
               <Button variant="outline" size="sm" onClick={handleSignOut}>
                 <LogOut className="h-4 w-4 mr-2" />
                 Sign Out
@@ -197,11 +315,32 @@ const Dashboard = () => {
                 <SelectContent>
                   {events.map((event) => (
                     <SelectItem key={event.id} value={event.id}>
-                      {event.name}
+                      <span className="flex items-center gap-2">
+                        {event.logo_url ? (
+                          <img src={event.logo_url} alt="" className="h-5 w-5 rounded object-contain" />
+                        ) : (
+                          <span
+                            className="h-3 w-3 rounded-full bg-accent"
+                            style={event.brand_color ? { backgroundColor: event.brand_color } : undefined}
+                          />
+                        )}
+                        {event.name}
+                      </span>
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {currentEvent && currentEvent.visibility !== 'private' && (
+                <Button asChild variant="ghost" size="sm">
+                  <Link to={`/e/${currentEvent.slug}`} target="_blank">
+                    <Globe className="h-4 w-4 mr-2" />
+                    Public page
+                  </Link>
+                </Button>
+              )}
+              {currentEvent?.visibility === 'hybrid' && canManageCurrentEvent && (
+                <EventAccessCode eventId={currentEvent.id} />
+              )}
             </div>
           )}
         </div>
@@ -209,15 +348,21 @@ const Dashboard = () => {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
-        <Tabs defaultValue="create-event" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-6">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-9">
             {isAdminOrEditor && (
               <TabsTrigger value="create-event" className="flex items-center gap-2">
                 <Plus className="h-4 w-4" />
                 <span className="hidden sm:inline">Create Event</span>
               </TabsTrigger>
             )}
-            {isAdminOrEditor && (
+            {(isAdminOrEditor || ownsEvents) && (
+              <TabsTrigger value="events" className="flex items-center gap-2">
+                <CalendarCog className="h-4 w-4" />
+                <span className="hidden sm:inline">Events</span>
+              </TabsTrigger>
+            )}
+            {canUploadToCurrentEvent && (
               <TabsTrigger value="upload-photos" className="flex items-center gap-2">
                 <Upload className="h-4 w-4" />
                 <span className="hidden sm:inline">Upload Photos</span>
@@ -231,6 +376,16 @@ const Dashboard = () => {
               <Camera className="h-4 w-4" />
               <span className="hidden sm:inline">Face Match</span>
             </TabsTrigger>
+            <TabsTrigger value="photos" className="flex items-center gap-2">
+              <Images className="h-4 w-4" />
+              <span className="hidden sm:inline">Photos</span>
+            </TabsTrigger>
+            {canManageCurrentEvent && (
+              <TabsTrigger value="people" className="flex items-center gap-2">
+                <Contact className="h-4 w-4" />
+                <span className="hidden sm:inline">People</span>
+              </TabsTrigger>
+            )}
             {isAdmin && (
               <TabsTrigger value="user-management" className="flex items-center gap-2">
                 <Users className="h-4 w-4" />
@@ -251,20 +406,50 @@ const Dashboard = () => {
             </TabsContent>
           )}
 
-          {isAdminOrEditor && (
+          {(isAdminOrEditor || ownsEvents) && (
+            <TabsContent value="events">
+              <EventManagement isAdmin={isAdmin} eventRoles={eventRoles} onEventsChanged={fetchEvents} />
+            </TabsContent>
+          )}
+
+          {canUploadToCurrentEvent && (
             <TabsContent value="upload-photos">
               <UploadPhotos selectedEvent={selectedEvent} events={events} />
             </TabsContent>
           )}
 
           <TabsContent value="scan-face">
-            <ScanFace selectedEvent={selectedEvent} events={events} />
+            {canViewPhotos ? (
+              <ScanFace selectedEvent={selectedEvent} events={events} onScanComplete={setFaceScan} />
+            ) : joinEvent}
           </TabsContent>
 
           <TabsContent value="face-match">
-            <FaceMatch selectedEvent={selectedEvent} events={events} />
+            {/* Keyed by event so the threshold slider starts from each event's default */}
+            {canViewPhotos ? (
+              <FaceMatch
+                key={selectedEvent}
+                selectedEvent={selectedEvent}
+                events={events}
+                faceScan={faceScan}
+                canEditThreshold={canManageCurrentEvent}
+                onEventUpdated={fetchEvents}
+              />
+            ) : joinEvent}
           </TabsContent>
 
+          <TabsContent value="photos">
+            {canViewPhotos ? (
+              <EventPhotos selectedEvent={selectedEvent} events={events} />
+            ) : joinEvent}
+          </TabsContent>
+
+          {canManageCurrentEvent && (
+            <TabsContent value="people">
+              <EventPeople selectedEvent={selectedEvent} events={events} />
+            </TabsContent>
+          )}
+
           {isAdmin && (
             <TabsContent value="user-management">
               <UserManagement />
@@ -278,6 +463,8 @@ const Dashboard = () => {
           )}
         </Tabs>
       </main>
+
+      <PrivacySettings open={showPrivacy} onClose={() => setShowPrivacy(false)} />
     </div>
   );
 };
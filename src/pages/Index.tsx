@@ -1,119 +1,62 @@
-
-import { useState } from 'react';
-import { Camera, Upload, Settings, Search, Download, Share2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Camera, Upload, Settings, Search, LogIn, LayoutDashboard } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { Separator } from '@/components/ui/separator';
-import FaceScanModal from '@/components/FaceScanModal';
-import UploadModal from '@/components/UploadModal';
-import PrivacySettings from '@/components/PrivacySettings';
-import PhotoGallery from '@/components/PhotoGallery';
-import { useToast } from '@/hooks/use-toast';
-
-interface Photo {
-  id: string;
-  url: string;
-  timestamp: string;
-  confidence: number;
-  tags: string[];
-}
+import { supabase } from '@/integrations/supabase/client';
+
+const steps = [
+  {
+    title: 'Scan your face',
+    description: 'Take a quick selfie with your camera or upload one. It is only used to find your photos.',
+  },
+  {
+    title: 'We find your photos',
+    description: 'Every photo from the event is matched against your scan, including ones uploaded later.',
+  },
+  {
+    title: 'Download and share',
+    description: 'Confirm the matches, then download the originals one by one or all at once.',
+  },
+];
 
 const Index = () => {
-  const [showFaceScan, setShowFaceScan] = useState(false);
-  const [showUpload, setShowUpload] = useState(false);
-  const [showPrivacy, setShowPrivacy] = useState(false);
-  const [showResults, setShowResults] = useState(false);
-  const [matchedPhotos, setMatchedPhotos] = useState<Photo[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const { toast } = useToast();
+  const [signedIn, setSignedIn] = useState(false);
 
-  // Mock photo data
-  const mockPhotos: Photo[] = [
-    {
-      id: '1',
-      url: 'https://images.unsplash.com/photo-1605810230434-7631ac76ec81?w=400&h=400&fit=crop',
-      timestamp: '2024-01-15 14:30',
-      confidence: 0.95,
-      tags: ['main-stage', 'keynote']
-    },
-    {
-      id: '2', 
-      url: 'https://images.unsplash.com/photo-1519389950473-47ba0277781c?w=400&h=400&fit=crop',
-      timestamp: '2024-01-15 16:45',
-      confidence: 0.87,
-      tags: ['networking', 'lobby']
-    },
-    {
-      id: '3',
-      url: 'https://images.unsplash.com/photo-1581090464777-f3220bbe1b8b?w=400&h=400&fit=crop',
-      timestamp: '2024-01-15 18:20',
-      confidence: 0.92,
-      tags: ['dinner', 'awards']
-    }
-  ];
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setSignedIn(Boolean(session)));
 
-  const handleFaceScanComplete = (imageData: string) => {
-    setIsProcessing(true);
-    setShowFaceScan(false);
-    
-    // Simulate AI processing
-    setTimeout(() => {
-      setMatchedPhotos(mockPhotos);
-      setIsProcessing(false);
-      setShowResults(true);
-      toast({
-        title: "Face scan complete!",
-        description: `We found ${mockPhotos.length} photos of you at the event.`,
-      });
-    }, 3000);
-  };
-
-  const handleUploadComplete = (files: File[]) => {
-    setShowUpload(false);
-    toast({
-      title: "Upload successful!",
-      description: `${files.length} photo(s) uploaded and processed.`,
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setSignedIn(Boolean(session));
     });
-  };
-
-  if (isProcessing) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-purple-600 via-blue-600 to-teal-500 flex items-center justify-center">
-        <div className="text-center text-white">
-          <div className="w-24 h-24 border-4 border-white border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <h2 className="text-2xl font-bold mb-2">Scanning Your Photos...</h2>
-          <p className="text-lg opacity-90">Our AI is finding all the moments you were captured</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (showResults) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50">
-        <div className="container mx-auto px-4 py-8">
-          <div className="flex items-center justify-between mb-8">
-            <div>
-              <h1 className="text-3xl font-bold text-gray-900">Your Event Photos</h1>
-              <p className="text-gray-600 mt-2">We found {matchedPhotos.length} photos of you!</p>
-            </div>
-            <Button
-              variant="outline"
-              onClick={() => setShowResults(false)}
-              className="hover:scale-105 transition-transform"
-            >
-              Back to Gallery
-            </Button>
-          </div>
-          <PhotoGallery photos={matchedPhotos} />
-        </div>
-      </div>
-    );
-  }
+    return () => subscription.unsubscribe();
+  }, []);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-600 via-blue-600 to-teal-500">
+      {/* Header */}
+      <header className="container mx-auto px-4 py-6 flex items-center justify-between">
+        <div className="flex items-center gap-3 text-white">
+          <Camera className="h-8 w-8" />
+          <span className="text-2xl font-bold">AI FaceSync</span>
+        </div>
+        {signedIn ? (
+          <Button asChild variant="outline" className="border-white bg-transparent text-white hover:bg-white hover:text-purple-600">
+            <Link to="/dashboard">
+              <LayoutDashboard className="mr-2 h-4 w-4" />
+              Dashboard
+            </Link>
+          </Button>
+        ) : (
+          <Button asChild variant="outline" className="border-white bg-transparent text-white hover:bg-white hover:text-purple-600">
+            <Link to="/auth">
+              <LogIn className="mr-2 h-4 w-4" />
+              Sign In
+            </Link>
+          </Button>
+        )}
+      </header>
+
       {/* Hero Section */}
       <div className="container mx-auto px-4 py-16">
         <div className="text-center mb-16">
@@ -124,27 +67,31 @@ const Index = () => {
             </span>
           </h1>
           <p className="text-xl text-white/90 mb-12 max-w-2xl mx-auto">
-            Our AI-powered face recognition technology instantly finds all the photos you're in. 
+            Our AI-powered face recognition technology instantly finds all the photos you're in.
             Just scan your face and discover your memories.
           </p>
 
           <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
             <Button
+              asChild
               size="lg"
-              onClick={() => setShowFaceScan(true)}
               className="bg-white text-purple-600 hover:bg-gray-100 text-lg px-8 py-4 rounded-full shadow-lg hover:scale-105 transition-all duration-300 font-semibold"
             >
-              <Camera className="mr-2 h-6 w-6" />
-              Scan My Face
-            </Button>
-            <Button
-              variant="outline"
-              size="lg"
-              className="border-white text-white hover:bg-white hover:text-purple-600 text-lg px-8 py-4 rounded-full transition-all duration-300"
-            >
-              <Search className="mr-2 h-6 w-6" />
-              Browse All Photos
+              <Link to={signedIn ? '/dashboard' : '/auth?redirect=/dashboard'}>
+                <Search className="mr-2 h-6 w-6" />
+                Find My Photos
+              </Link>
             </Button>
+            {!signedIn && (
+              <Button
+                asChild
+                variant="outline"
+                size="lg"
+                className="border-white bg-transparent text-white hover:bg-white hover:text-purple-600 text-lg px-8 py-4 rounded-full transition-all duration-300"
+              >
+                <Link to="/auth">Create an Account</Link>
+              </Button>
+            )}
           </div>
         </div>
 
@@ -170,7 +117,7 @@ const Index = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p>Upload your own photos and let AI automatically tag faces for easy discovery.</p>
+              <p>Event photographers upload once and every guest gets their own photos automatically.</p>
             </CardContent>
           </Card>
 
@@ -187,64 +134,22 @@ const Index = () => {
           </Card>
         </div>
 
-        {/* Action Buttons */}
-        <div className="flex flex-wrap justify-center gap-4">
-          <Button
-            variant="outline"
-            onClick={() => setShowUpload(true)}
-            className="border-white text-white hover:bg-white hover:text-purple-600 transition-all duration-300"
-          >
-            <Upload className="mr-2 h-4 w-4" />
-            Upload Photos
-          </Button>
-          <Button
-            variant="outline"
-            onClick={() => setShowPrivacy(true)}
-            className="border-white text-white hover:bg-white hover:text-purple-600 transition-all duration-300"
-          >
-            <Settings className="mr-2 h-4 w-4" />
-            Privacy Settings
-          </Button>
-        </div>
-
-        {/* Stats Section */}
-        <div className="mt-16 text-center">
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
-            <div className="text-white">
-              <div className="text-3xl font-bold">10,000+</div>
-              <div className="text-white/80">Photos Processed</div>
-            </div>
-            <div className="text-white">
-              <div className="text-3xl font-bold">95%</div>
-              <div className="text-white/80">Accuracy Rate</div>
-            </div>
-            <div className="text-white">
-              <div className="text-3xl font-bold">2s</div>
-              <div className="text-white/80">Average Scan Time</div>
-            </div>
-            <div className="text-white">
-              <div className="text-3xl font-bold">100%</div>
-              <div className="text-white/80">Privacy Protected</div>
-            </div>
+        {/* How it works */}
+        <div className="text-center text-white">
+          <h2 className="text-3xl font-bold mb-8">How It Works</h2>
+          <div className="grid md:grid-cols-3 gap-8">
+            {steps.map((step, index) => (
+              <div key={step.title} className="space-y-2">
+                <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center mx-auto text-xl font-bold">
+                  {index + 1}
+                </div>
+                <h3 className="text-xl font-semibold">{step.title}</h3>
+                <p className="text-white/80">{step.description}</p>
+              </div>
+            ))}
           </div>
         </div>
       </div>
-
-      {/* Modals */}
-      <FaceScanModal
-        open={showFaceScan}
-        onClose={() => setShowFaceScan(false)}
-        onScanComplete={handleFaceScanComplete}
-      />
-      <UploadModal
-        open={showUpload}
-        onClose={() => setShowUpload(false)}
-        onUploadComplete={handleUploadComplete}
-      />
-      <PrivacySettings
-        open={showPrivacy}
-        onClose={() => setShowPrivacy(false)}
-      />
     </div>
   );
 };
@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Camera, LogIn, Ticket, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import { getLandingTab } from "@/lib/invites";
+import { EVENT_ROLE_LABELS } from "@/components/EventMembers";
+import type { Database } from "@/integrations/supabase/types";
+
+type InviteDetails = Database['public']['Functions']['get_event_invite']['Returns'][number];
+
+const INVITE_PROBLEMS: Record<string, string> = {
+  expired: "This invite has expired. Ask the organiser for a new one.",
+  used: "This invite has already been used. Ask the organiser for a new one.",
+  revoked: "This invite is no longer valid. Ask the organiser for a new one.",
+};
+
+/**
+ * Landing page for invites. /join/:token shows the event behind an invite link,
+ * sends visitors through sign-in or sign-up and then adds them to the event;
+ * /join takes a numeric invite code instead.
+ */
+const JoinInvite = () => {
+  const { token } = useParams<{ token: string }>();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [signedIn, setSignedIn] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [code, setCode] = useState("");
+  const [joining, setJoining] = useState(false);
+  // Redeem a link once, even if the effect runs again
+  const redeemed = useRef(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const signInPath = `/auth?redirect=${encodeURIComponent(location.pathname)}`;
+
+  useEffect(() => {
+    loadInvite();
+  }, [token]);
+
+  const loadInvite = async () => {
+    setLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      setSignedIn(Boolean(session));
+
+      if (!token) {
+        if (!session) navigate(signInPath, { replace: true });
+        return;
+      }
+
+      const { data, error } = await supabase.rpc('get_event_invite', { invite_token: token });
+
+      if (error) throw error;
+      const details = data?.[0] ?? null;
+      setInvite(details);
+
+      // Coming back from sign-in or sign-up finishes the join straight away
+      if (session && details?.status === 'valid' && !redeemed.current) {
+        redeemed.current = true;
+        await redeem({ invite_token: token }, details.event_name);
+      }
+    } catch (error) {
+      console.error('Error loading invite:', error);
+      setInvite(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const redeem = async (args: { invite_token?: string; invite_code?: string }, eventName?: string) => {
+    setJoining(true);
+    try {
+      const { data, error } = await supabase.rpc('redeem_event_invite', args);
+
+      if (error) throw error;
+      const membership = data?.[0];
+      if (!membership) {
+        throw new Error(args.invite_code
+          ? "That code doesn't match an invite that's still open. Check it and try again."
+          : "The invite could not be redeemed");
+      }
+
+      toast({
+        title: "Welcome!",
+        description: eventName ? `You've joined ${eventName}.` : "You've joined the event.",
+      });
+      navigate(`/dashboard?tab=${getLandingTab(membership.role)}&event=${membership.event_id}`, { replace: true });
+    } catch (error) {
+      toast({
+        title: "Couldn't Join Event",
+        description: getErrorMessage(error, "Check the invite and try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    redeem({ invite_code: code });
+  };
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ticket className="h-5 w-5 text-accent" />
+              Join an Event
+            </CardTitle>
+            <CardDescription>Enter the invite code you were given by the organiser.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-code">Invite Code</Label>
+                <Input
+                  id="invite-code"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  placeholder="1234 5678 9012"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="font-mono tracking-widest"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={joining || !code.trim()}>
+                {joining ? "Joining..." : "Join Event"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!invite || invite.status !== 'valid') {
+      return (
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <XCircle className="h-5 w-5 text-destructive" />
+              Invite Not Available
+            </CardTitle>
+            <CardDescription>
+              {invite ? INVITE_PROBLEMS[invite.status] : "This invite link doesn't exist. Check you copied the whole link."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      );
+    }
+
+    return (
+      <Card className="max-w-md mx-auto" style={invite.brand_color ? { borderTop: `4px solid ${invite.brand_color}` } : undefined}>
+        <CardHeader className="text-center">
+          {invite.logo_url && (
+            <img src={invite.logo_url} alt="" className="h-16 w-16 mx-auto rounded-md object-contain" />
+          )}
+          <CardTitle>You're invited to {invite.event_name}</CardTitle>
+          <CardDescription>
+            Join as {EVENT_ROLE_LABELS[invite.role].toLowerCase()} to {invite.role === 'viewer' ? 'browse the photos and find yourself' : 'upload and browse the photos'}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {signedIn ? (
+            <Button className="w-full" onClick={() => redeem({ invite_token: token }, invite.event_name)} disabled={joining}>
+              {joining ? "Joining..." : "Join Event"}
+            </Button>
+          ) : (
+            <Button asChild className="w-full">
+              <Link to={signInPath}>
+                <LogIn className="h-4 w-4 mr-2" />
+                Sign In or Sign Up to Join
+              </Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <Link to="/" className="flex items-center gap-3 w-fit">
+            <Camera className="h-8 w-8 text-accent" />
+            <span className="text-2xl font-bold text-primary">AI FaceSync</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12">
+        {loading ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+          </div>
+        ) : renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default JoinInvite;
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import PhotoLightbox from "@/components/PhotoLightbox";
+import type { GalleryPhoto } from "@/components/PhotoGallery";
+import { withSignedUrls } from "@/lib/photo-storage";
+
+interface EventPhoto extends GalleryPhoto {
+  event_id: string;
+}
+
+// Face data is only needed for matching, so it is never loaded here
+const PHOTO_COLUMNS = 'id, event_id, file_name, file_path, file_size, created_at';
+
+/**
+ * Deep link to a single photo, e.g. from a shared link. Opens the photo in the
+ * lightbox and lets the viewer step through the rest of its event.
+ */
+const PhotoPage = () => {
+  const { photoId } = useParams<{ photoId: string }>();
+  const [photos, setPhotos] = useState<EventPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate(`/auth?redirect=${encodeURIComponent(location.pathname)}`, { replace: true });
+        return;
+      }
+      fetchPhotos();
+    });
+  }, []);
+
+  const fetchPhotos = async () => {
+    try {
+      const { data: photo, error } = await supabase
+        .from('photos')
+        .select(PHOTO_COLUMNS)
+        .eq('id', photoId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!photo) {
+        setNotFound(true);
+        return;
+      }
+
+      const [{ data: eventPhotos, error: photosError }, { data: event }] = await Promise.all([
+        supabase
+          .from('photos')
+          .select(PHOTO_COLUMNS)
+          .eq('event_id', photo.event_id)
+          .order('created_at', { ascending: true }),
+        supabase.from('events').select('name').eq('id', photo.event_id).maybeSingle(),
+      ]);
+
+      if (photosError) throw photosError;
+      setPhotos(await withSignedUrls((eventPhotos || []).map(eventPhoto => ({ ...eventPhoto, event_name: event?.name }))));
+    } catch (error) {
+      console.error('Error fetching photo:', error);
+      setNotFound(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const index = photos.findIndex(photo => photo.id === photoId);
+  const eventId = photos[0]?.event_id;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  if (notFound || index === -1) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-bold">Photo not found</h1>
+          <p className="text-gray-600">It may have been removed, or you may not have access to it.</p>
+          <Button asChild variant="outline">
+            <Link to="/dashboard">Go to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      <PhotoLightbox
+        photos={photos}
+        index={index}
+        // Keep the address in step so it can be copied or bookmarked
+        onIndexChange={(next) => navigate(`/photos/${photos[next].id}`, { replace: true })}
+        onClose={() => navigate(`/dashboard?tab=photos&event=${eventId}`)}
+      />
+    </div>
+  );
+};
+
+export default PhotoPage;
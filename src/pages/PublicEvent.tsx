@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Camera, CalendarDays, Images, LayoutDashboard, LogIn, Lock, RotateCcw, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/utils";
+import ScanFace from "@/components/ScanFace";
+import FacePhoto from "@/components/FacePhoto";
+import PhotoGallery, { type GalleryPhoto } from "@/components/PhotoGallery";
+import JoinEvent from "@/components/JoinEvent";
+import NotFound from "@/pages/NotFound";
+import { DEFAULT_BRAND_COLOR } from "@/lib/event-branding";
+import { withSignedUrls } from "@/lib/photo-storage";
+import { MATCH_BANDS, getMatchBand, toVectorLiteral, type BoundingBox, type FaceScan } from "@/lib/face";
+import type { Database } from "@/integrations/supabase/types";
+
+type PublicEventDetails = Database['public']['Functions']['get_public_event']['Returns'][number];
+
+interface GuestMatch extends GalleryPhoto {
+  bbox?: BoundingBox | null;
+}
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+/**
+ * Public page for an event, reachable without signing in. On public events
+ * guests can scan their face to find their photos in this event only; the scan
+ * lives in page state and is gone when the page is left. Hybrid events send
+ * visitors through sign-in and the access code instead.
+ */
+const PublicEvent = () => {
+  const { eventSlug } = useParams<{ eventSlug: string }>();
+  const [event, setEvent] = useState<PublicEventDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [signedIn, setSignedIn] = useState(false);
+  const [matches, setMatches] = useState<GuestMatch[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  // Remounts the scanner so "Start over" also clears its captured image
+  const [scanKey, setScanKey] = useState(0);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchEvent();
+  }, [eventSlug]);
+
+  const fetchEvent = async () => {
+    setLoading(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      setSignedIn(Boolean(session));
+
+      const { data, error } = await supabase.rpc('get_public_event', { event_slug: eventSlug });
+
+      if (error) throw error;
+      setEvent(data?.[0] ?? null);
+    } catch (error) {
+      console.error('Error fetching event:', error);
+      setEvent(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const searchPhotos = async (scan: FaceScan) => {
+    setSearching(true);
+    try {
+      const { data, error } = await supabase.rpc('search_public_event_photos', {
+        event_slug: eventSlug,
+        probe_embedding: toVectorLiteral(scan.embedding),
+        liveness_check_id: scan.livenessCheckId,
+        probe_model: scan.model,
+      });
+
+      if (error) throw error;
+      setMatches(await withSignedUrls((data || []).map(match => ({
+        id: match.photo_id,
+        file_name: match.file_name,
+        file_path: match.file_path,
+        file_size: match.file_size,
+        created_at: match.created_at,
+        event_name: event?.name,
+        confidence_score: match.confidence_score,
+        bbox: match.bbox as unknown as BoundingBox | null,
+      }))));
+    } catch (error) {
+      toast({
+        title: "Search Error",
+        description: getErrorMessage(error, "Failed to search the event's photos"),
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const openInDashboard = () => {
+    navigate(`/dashboard?tab=scan-face&event=${event?.id}`);
+  };
+
+  const startOver = () => {
+    setMatches(null);
+    setScanKey(key => key + 1);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent"></div>
+      </div>
+    );
+  }
+
+  // Private events are indistinguishable from missing ones
+  if (!event) {
+    return <NotFound />;
+  }
+
+  const brandColor = event.brand_color ?? DEFAULT_BRAND_COLOR;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-3">
+            <Camera className="h-8 w-8 text-accent" />
+            <span className="text-2xl font-bold text-primary">AI FaceSync</span>
+          </Link>
+          <Button asChild variant="outline" size="sm">
+            {signedIn ? (
+              <Link to="/dashboard">
+                <LayoutDashboard className="h-4 w-4 mr-2" />
+                Dashboard
+              </Link>
+            ) : (
+              <Link to={`/auth?redirect=${encodeURIComponent(`/e/${event.slug}`)}`}>
+                <LogIn className="h-4 w-4 mr-2" />
+                Sign In
+              </Link>
+            )}
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card className="overflow-hidden" style={{ borderTop: `4px solid ${brandColor}` }}>
+          {event.cover_photo_url && (
+            <img src={event.cover_photo_url} alt="" className="w-full h-48 md:h-72 object-cover" />
+          )}
+          <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+            {event.logo_url && (
+              <img
+                src={event.logo_url}
+                alt={`${event.name} logo`}
+                className="h-16 w-16 rounded-md border bg-card object-contain shrink-0"
+              />
+            )}
+            <div className="space-y-1.5">
+              <CardTitle className="text-3xl" style={{ color: brandColor }}>{event.name}</CardTitle>
+              {event.description && <CardDescription className="text-base">{event.description}</CardDescription>}
+            </div>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-6 text-sm text-muted-foreground">
+            <span className="flex items-center gap-2">
+              <CalendarDays className="h-4 w-4" />
+              {formatDate(event.start_date)}
+              {event.end_date && event.end_date !== event.start_date && ` – ${formatDate(event.end_date)}`}
+            </span>
+            <span className="flex items-center gap-2">
+              <Images className="h-4 w-4" />
+              {event.photo_count} photo{event.photo_count !== 1 ? 's' : ''}
+            </span>
+          </CardContent>
+        </Card>
+
+        {event.visibility === 'hybrid' ? (
+          event.can_view_photos ? (
+            <Card>
+              <CardContent className="pt-6 text-center space-y-4">
+                <p className="text-muted-foreground">You have access to this event's photos.</p>
+                <Button onClick={openInDashboard} style={{ backgroundColor: brandColor }}>
+                  <Search className="h-4 w-4 mr-2" />
+                  Find My Photos
+                </Button>
+              </CardContent>
+            </Card>
+          ) : signedIn ? (
+            <JoinEvent eventId={event.id} eventName={event.name} onJoined={openInDashboard} />
+          ) : (
+            <Card className="max-w-md mx-auto">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lock className="h-5 w-5 text-accent" />
+                  Attendees only
+                </CardTitle>
+                <CardDescription>
+                  Sign in and enter the access code from the organiser to browse this event's photos and find yourself.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button asChild className="w-full">
+                  <Link to={`/auth?redirect=${encodeURIComponent(`/e/${event.slug}`)}`}>
+                    <LogIn className="h-4 w-4 mr-2" />
+                    Sign In to Continue
+                  </Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )
+        ) : matches === null ? (
+          <>
+            <div className="flex items-center gap-3">
+              <Search className="h-6 w-6" style={{ color: brandColor }} />
+              <div>
+                <h2 className="text-2xl font-bold text-primary">Find your photos</h2>
+                <p className="text-muted-foreground">
+                  Scan your face or upload a selfie. No account needed.
+                </p>
+              </div>
+            </div>
+            {searching ? (
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-center space-y-4">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent mx-auto"></div>
+                    <p className="text-muted-foreground">Searching {event.name}...</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <ScanFace
+                key={scanKey}
+                guest
+                selectedEvent={event.id}
+                events={[event]}
+                onScanComplete={searchPhotos}
+              />
+            )}
+          </>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <h2 className="text-2xl font-bold text-primary">Your photos</h2>
+                <p className="text-muted-foreground">
+                  {matches.length
+                    ? `We found ${matches.length} photo${matches.length !== 1 ? 's' : ''} of you in ${event.name}`
+                    : `We couldn't find you in ${event.name}. Try again with a clearer, well-lit selfie.`}
+                </p>
+              </div>
+              <Button variant="outline" onClick={startOver}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Start over
+              </Button>
+            </div>
+            {matches.length > 0 && (
+              <PhotoGallery
+                photos={matches}
+                archiveName={`${event.name} photos`}
+                groups={MATCH_BANDS.map(({ band, label, description }) => ({ id: band, label, description }))}
+                groupOf={(photo) => getMatchBand(photo.confidence_score ?? 0)}
+                renderImage={(photo) => (
+                  <FacePhoto
+                    src={photo.file_path}
+                    alt={photo.file_name}
+                    boxes={photo.bbox ? [{ box: photo.bbox, highlight: true }] : []}
+                  />
+                )}
+              />
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PublicEvent;
@@ -0,0 +1,107 @@
+-- Keep a single match row per user and photo so repeated scans refresh the score
+ALTER TABLE public.face_matches
+  ADD CONSTRAINT face_matches_user_photo_key UNIQUE (user_id, photo_id);
+
+-- Match a probe embedding against the faces stored in photos.face_data and record the results
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding jsonb,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT 0.8
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  probe_length integer;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF jsonb_typeof(probe_embedding) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'probe_embedding must be a JSON array of numbers';
+  END IF;
+
+  probe_length := jsonb_array_length(probe_embedding);
+
+  RETURN QUERY
+  WITH probe AS (
+    SELECT ordinality AS position, value::float8 AS value
+    FROM jsonb_array_elements_text(probe_embedding) WITH ORDINALITY
+  ),
+  candidate_faces AS (
+    SELECT
+      p.id AS photo_id,
+      p.event_id,
+      f.face_index - 1 AS face_index,
+      f.face
+    FROM public.photos p
+    JOIN public.events e ON e.id = p.event_id
+    CROSS JOIN LATERAL jsonb_array_elements(p.face_data -> 'faces') WITH ORDINALITY AS f(face, face_index)
+    WHERE
+      -- Same access rule as get_safe_photos
+      (e.visibility = 'public'::event_visibility OR auth.uid() IS NOT NULL)
+      AND (event_id_filter IS NULL OR p.event_id = event_id_filter)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR p.face_data ->> 'model' = probe_model)
+      AND jsonb_array_length(f.face -> 'embedding') = probe_length
+  ),
+  scored AS (
+    -- Embeddings are L2-normalised, so the dot product is the cosine similarity
+    SELECT
+      c.photo_id,
+      c.event_id,
+      c.face_index,
+      (
+        SELECT SUM(probe.value * emb.value::float8)
+        FROM jsonb_array_elements_text(c.face -> 'embedding') WITH ORDINALITY AS emb(value, position)
+        JOIN probe ON probe.position = emb.position
+      ) AS similarity
+    FROM candidate_faces c
+  ),
+  best AS (
+    SELECT DISTINCT ON (s.photo_id) s.photo_id, s.event_id, s.face_index, s.similarity
+    FROM scored s
+    WHERE s.similarity >= match_threshold
+    ORDER BY s.photo_id, s.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object('face_index', b.face_index, 'similarity', b.similarity, 'model', probe_model),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+-- Grant minimal necessary permissions
+GRANT EXECUTE ON FUNCTION public.match_faces(jsonb, text, uuid, numeric) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_faces(jsonb, text, uuid, numeric) FROM public;
+
+COMMENT ON FUNCTION public.match_faces(jsonb, text, uuid, numeric) IS 'Compares a face scan embedding with the faces detected in accessible photos, upserts face_matches rows for the calling user above the similarity threshold and returns them. Confidence scores are cosine similarity as a percentage.';
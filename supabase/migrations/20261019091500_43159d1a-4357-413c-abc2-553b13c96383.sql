@@ -0,0 +1,176 @@
+-- Enable pgvector for approximate nearest neighbour search over face embeddings
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- One row per detected face, mirrored from photos.face_data
+CREATE TABLE public.photo_faces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  face_index INTEGER NOT NULL,
+  bbox JSONB NOT NULL,
+  detection_score REAL,
+  model TEXT NOT NULL,
+  embedding extensions.vector(128) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (photo_id, face_index)
+);
+
+-- Enable RLS on photo_faces
+ALTER TABLE public.photo_faces ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX photo_faces_event_id_idx ON public.photo_faces (event_id);
+
+-- HNSW keeps cross-event lookups interactive on events with tens of thousands of photos
+CREATE INDEX photo_faces_embedding_idx ON public.photo_faces
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Biometric data follows the same rule as photos.face_data: admins and uploaders only.
+-- Rows are written exclusively by the sync trigger below.
+CREATE POLICY "Admins and uploaders can view detected faces"
+ON public.photo_faces
+FOR SELECT
+USING (
+  has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.photos
+    WHERE photos.id = photo_faces.photo_id
+    AND photos.uploaded_by = auth.uid()
+  )
+);
+
+-- Keep photo_faces in step with photos.face_data
+CREATE OR REPLACE FUNCTION public.sync_photo_faces()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  DELETE FROM public.photo_faces WHERE photo_id = NEW.id;
+
+  INSERT INTO public.photo_faces (photo_id, event_id, face_index, bbox, detection_score, model, embedding)
+  SELECT
+    NEW.id,
+    NEW.event_id,
+    f.face_index - 1,
+    f.face -> 'box',
+    (f.face ->> 'score')::real,
+    NEW.face_data ->> 'model',
+    (f.face ->> 'embedding')::vector
+  FROM jsonb_array_elements(COALESCE(NEW.face_data -> 'faces', '[]'::jsonb)) WITH ORDINALITY AS f(face, face_index)
+  WHERE jsonb_array_length(f.face -> 'embedding') = 128;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_photo_faces_on_write
+  AFTER INSERT OR UPDATE OF face_data, event_id ON public.photos
+  FOR EACH ROW EXECUTE FUNCTION public.sync_photo_faces();
+
+-- Backfill faces for photos uploaded before this migration
+INSERT INTO public.photo_faces (photo_id, event_id, face_index, bbox, detection_score, model, embedding)
+SELECT
+  p.id,
+  p.event_id,
+  f.face_index - 1,
+  f.face -> 'box',
+  (f.face ->> 'score')::real,
+  p.face_data ->> 'model',
+  (f.face ->> 'embedding')::extensions.vector
+FROM public.photos p
+CROSS JOIN LATERAL jsonb_array_elements(p.face_data -> 'faces') WITH ORDINALITY AS f(face, face_index)
+WHERE jsonb_typeof(p.face_data -> 'faces') = 'array'
+  AND jsonb_array_length(f.face -> 'embedding') = 128
+ON CONFLICT (photo_id, face_index) DO NOTHING;
+
+-- Replace the JSONB scan in match_faces with a nearest neighbour query on photo_faces
+DROP FUNCTION IF EXISTS public.match_faces(jsonb, text, uuid, numeric);
+
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding extensions.vector,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT 0.8,
+  match_count integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.photo_id,
+      pf.event_id,
+      pf.face_index,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE
+      (event_id_filter IS NULL OR pf.event_id = event_id_filter)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    LIMIT match_count
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_id, n.event_id, n.face_index, n.similarity
+    FROM nearest n
+    JOIN public.events e ON e.id = n.event_id
+    WHERE
+      n.similarity >= match_threshold
+      -- Same access rule as get_safe_photos
+      AND (e.visibility = 'public'::event_visibility OR auth.uid() IS NOT NULL)
+    ORDER BY n.photo_id, n.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object('face_index', b.face_index, 'similarity', b.similarity, 'model', probe_model),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+-- Grant minimal necessary permissions
+GRANT EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) FROM public;
+
+COMMENT ON TABLE public.photo_faces IS 'One row per face detected in a photo with its embedding, indexed for approximate nearest neighbour search. Maintained from photos.face_data by the sync_photo_faces trigger.';
+COMMENT ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) IS 'Finds the faces nearest to a scan embedding in accessible photos, upserts face_matches rows for the calling user above the similarity threshold and returns them. Confidence scores are cosine similarity as a percentage.';
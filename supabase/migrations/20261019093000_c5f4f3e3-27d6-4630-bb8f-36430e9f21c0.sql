@@ -0,0 +1,141 @@
+-- Create face_templates table holding each user's opt-in enrolled face profile
+CREATE TABLE public.face_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  embedding extensions.vector(128) NOT NULL,
+  model TEXT NOT NULL,
+  sample_count INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on face_templates
+ALTER TABLE public.face_templates ENABLE ROW LEVEL SECURITY;
+
+-- A template is only ever visible to and managed by its owner
+CREATE POLICY "Users can view their own face template" ON public.face_templates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own face template" ON public.face_templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own face template" ON public.face_templates
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own face template" ON public.face_templates
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_face_templates_updated_at
+  BEFORE UPDATE ON public.face_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Let match_faces fall back to the caller's enrolled template when no probe is given
+DROP FUNCTION IF EXISTS public.match_faces(extensions.vector, text, uuid, numeric, integer);
+
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding extensions.vector DEFAULT NULL,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT 0.8,
+  match_count integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  probe_source text := 'scan';
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF probe_embedding IS NULL THEN
+    SELECT t.embedding, t.model
+    INTO probe_embedding, probe_model
+    FROM public.face_templates t
+    WHERE t.user_id = current_user_id;
+
+    IF probe_embedding IS NULL THEN
+      RAISE EXCEPTION 'No probe embedding given and no enrolled face template found';
+    END IF;
+
+    probe_source := 'template';
+  END IF;
+
+  IF vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.photo_id,
+      pf.event_id,
+      pf.face_index,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE
+      (event_id_filter IS NULL OR pf.event_id = event_id_filter)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    LIMIT match_count
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_id, n.event_id, n.face_index, n.similarity
+    FROM nearest n
+    JOIN public.events e ON e.id = n.event_id
+    WHERE
+      n.similarity >= match_threshold
+      -- Same access rule as get_safe_photos
+      AND (e.visibility = 'public'::event_visibility OR auth.uid() IS NOT NULL)
+    ORDER BY n.photo_id, n.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object(
+        'face_index', b.face_index,
+        'similarity', b.similarity,
+        'model', probe_model,
+        'probe_source', probe_source
+      ),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+-- Grant minimal necessary permissions
+GRANT EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) FROM public;
+
+COMMENT ON TABLE public.face_templates IS 'Opt-in reference face template per user, averaged from several enrollment captures. Owner-only access; deleting the row removes all stored biometric data for the user.';
+COMMENT ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) IS 'Finds the faces nearest to a scan embedding (or the caller''s enrolled template when none is given) in accessible photos, upserts face_matches rows for the calling user above the similarity threshold and returns them. Confidence scores are cosine similarity as a percentage.';
@@ -0,0 +1,2 @@
+-- Record failed liveness (anti-spoofing) challenges during face scans as their own activity
+ALTER TYPE public.activity_type ADD VALUE IF NOT EXISTS 'liveness_failed';
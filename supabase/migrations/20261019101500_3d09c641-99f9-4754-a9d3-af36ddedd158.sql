@@ -0,0 +1,300 @@
+-- Create match feedback enum
+CREATE TYPE public.match_feedback AS ENUM ('confirmed', 'rejected');
+
+-- Record the user's verdict on each match
+ALTER TABLE public.face_matches
+  ADD COLUMN feedback public.match_feedback,
+  ADD COLUMN feedback_at timestamp with time zone;
+
+CREATE INDEX idx_face_matches_feedback ON public.face_matches(feedback) WHERE feedback IS NOT NULL;
+
+-- Return feedback from match_faces and skip rejected photos
+DROP FUNCTION IF EXISTS public.match_faces(extensions.vector, text, uuid, numeric, integer);
+
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding extensions.vector DEFAULT NULL,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT NULL,
+  match_count integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone,
+  feedback public.match_feedback
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  probe_source text := 'scan';
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF probe_embedding IS NULL THEN
+    SELECT t.embedding, t.model
+    INTO probe_embedding, probe_model
+    FROM public.face_templates t
+    WHERE t.user_id = current_user_id;
+
+    IF probe_embedding IS NULL THEN
+      RAISE EXCEPTION 'No probe embedding given and no enrolled face template found';
+    END IF;
+
+    probe_source := 'template';
+  END IF;
+
+  IF vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.photo_id,
+      pf.event_id,
+      pf.face_index,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE
+      (event_id_filter IS NULL OR pf.event_id = event_id_filter)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    LIMIT match_count
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_id, n.event_id, n.face_index, n.similarity
+    FROM nearest n
+    JOIN public.events e ON e.id = n.event_id
+    WHERE
+      -- An explicit threshold wins, then the event's own default; the parameter is qualified to avoid events.match_threshold
+      n.similarity >= COALESCE(match_faces.match_threshold, e.match_threshold, 0.8)
+      -- Same access rule as get_safe_photos
+      AND (e.visibility = 'public'::event_visibility OR auth.uid() IS NOT NULL)
+      -- Photos the user has said are not them stay hidden
+      AND NOT EXISTS (
+        SELECT 1 FROM public.face_matches r
+        WHERE r.user_id = current_user_id
+          AND r.photo_id = n.photo_id
+          AND r.feedback = 'rejected'::match_feedback
+      )
+    ORDER BY n.photo_id, n.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object(
+        'face_index', b.face_index,
+        'similarity', b.similarity,
+        'model', probe_model,
+        'probe_source', probe_source
+      ),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at, fm.feedback
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at, u.feedback
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) FROM public;
+
+COMMENT ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) IS 'Finds the faces nearest to a scan embedding (or the caller''s enrolled template when none is given) in accessible photos, upserts face_matches rows for the calling user above the similarity threshold and returns them. Without an explicit threshold each event''s match_threshold applies, defaulting to 0.8. Photos the user rejected are never returned. Confidence scores are cosine similarity as a percentage.';
+
+-- Return feedback from get_user_face_matches and hide rejected photos from their owner
+DROP FUNCTION IF EXISTS public.get_user_face_matches(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_user_face_matches(target_user_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  photo_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone,
+  feedback public.match_feedback
+  -- Deliberately exclude face_scan_data from regular access
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 
+    fm.id,
+    fm.user_id,
+    fm.photo_id,
+    fm.confidence_score,
+    fm.matched_at,
+    fm.feedback
+  FROM public.face_matches fm
+  WHERE 
+    -- Only return matches for the requesting user or if user is admin
+    (
+      target_user_id IS NULL
+      AND fm.user_id = auth.uid()
+      AND fm.feedback IS DISTINCT FROM 'rejected'::match_feedback
+    )
+    OR (target_user_id IS NOT NULL AND can_access_face_match(target_user_id, fm.id))
+  ORDER BY fm.matched_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_face_matches(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_user_face_matches(uuid) FROM public;
+
+COMMENT ON FUNCTION public.get_user_face_matches(uuid) IS 'Secure function to retrieve face matches for authenticated users. Excludes sensitive biometric scan data and photos the user rejected, and includes audit logging.';
+
+-- Create function for users to confirm or reject one of their matches
+CREATE OR REPLACE FUNCTION public.submit_match_feedback(
+  match_photo_id uuid,
+  verdict public.match_feedback
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  current_user_id uuid;
+  previous_feedback public.match_feedback;
+  matched_face_index integer;
+  matched_model text;
+  face_embedding vector;
+  template_record public.face_templates%ROWTYPE;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT fm.feedback, (fm.face_scan_data->>'face_index')::integer
+  INTO previous_feedback, matched_face_index
+  FROM public.face_matches fm
+  WHERE fm.user_id = current_user_id AND fm.photo_id = match_photo_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No face match found for this photo';
+  END IF;
+
+  UPDATE public.face_matches
+  SET feedback = verdict, feedback_at = now()
+  WHERE user_id = current_user_id AND photo_id = match_photo_id;
+
+  -- Only a new confirmation teaches the template anything
+  IF verdict <> 'confirmed'::match_feedback
+     OR previous_feedback = 'confirmed'::match_feedback
+     OR matched_face_index IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO template_record
+  FROM public.face_templates
+  WHERE user_id = current_user_id
+  FOR UPDATE;
+
+  -- Templates are opt-in, so confirmations never create one
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT pf.embedding, pf.model
+  INTO face_embedding, matched_model
+  FROM public.photo_faces pf
+  WHERE pf.photo_id = match_photo_id AND pf.face_index = matched_face_index;
+
+  IF face_embedding IS NULL OR matched_model <> template_record.model THEN
+    RETURN false;
+  END IF;
+
+  -- Running mean of all samples so far, renormalised for cosine matching
+  UPDATE public.face_templates
+  SET
+    embedding = (
+      SELECT l2_normalize(
+        array_agg((t_value * template_record.sample_count + f_value) / (template_record.sample_count + 1) ORDER BY ord)::vector
+      )
+      FROM unnest(template_record.embedding::real[], face_embedding::real[]) WITH ORDINALITY AS u(t_value, f_value, ord)
+    ),
+    sample_count = template_record.sample_count + 1
+  WHERE id = template_record.id;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_match_feedback(uuid, public.match_feedback) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_match_feedback(uuid, public.match_feedback) FROM public;
+
+COMMENT ON FUNCTION public.submit_match_feedback(uuid, public.match_feedback) IS 'Records the caller''s confirmation or rejection of a match. A first confirmation folds the matched face into the caller''s enrolled template, if any; returns whether the template changed.';
+
+-- Create function for editors to review false-positive rates per event
+CREATE OR REPLACE FUNCTION public.get_match_feedback_stats()
+RETURNS TABLE (
+  event_id uuid,
+  event_name text,
+  total_matches bigint,
+  confirmed_count bigint,
+  rejected_count bigint,
+  false_positive_rate numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can view match feedback statistics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.name,
+    count(fm.id),
+    count(fm.id) FILTER (WHERE fm.feedback = 'confirmed'::match_feedback),
+    count(fm.id) FILTER (WHERE fm.feedback = 'rejected'::match_feedback),
+    -- Share of reviewed matches the user said were not them
+    round(
+      count(fm.id) FILTER (WHERE fm.feedback = 'rejected'::match_feedback)::numeric
+        / NULLIF(count(fm.id) FILTER (WHERE fm.feedback IS NOT NULL), 0),
+      3
+    )
+  FROM public.events e
+  JOIN public.photos p ON p.event_id = e.id
+  JOIN public.face_matches fm ON fm.photo_id = p.id
+  GROUP BY e.id, e.name
+  ORDER BY e.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_match_feedback_stats() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_match_feedback_stats() FROM public;
+
+COMMENT ON FUNCTION public.get_match_feedback_stats() IS 'Admin/editor-only aggregate of match feedback per event. false_positive_rate is rejected / reviewed matches and is NULL until a match has been reviewed.';
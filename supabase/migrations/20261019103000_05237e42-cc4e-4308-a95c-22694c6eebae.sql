@@ -0,0 +1,362 @@
+-- Create face_clusters table: unnamed identity groups of faces within an event
+CREATE TABLE public.face_clusters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  representative_face_id UUID REFERENCES public.photo_faces(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on face_clusters
+ALTER TABLE public.face_clusters ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX face_clusters_event_id_idx ON public.face_clusters (event_id);
+
+-- Clusters are written only through the functions below
+CREATE POLICY "Admins and editors can view face clusters" ON public.face_clusters
+  FOR SELECT USING (public.is_admin_or_editor(auth.uid()));
+
+CREATE TRIGGER update_face_clusters_updated_at
+  BEFORE UPDATE ON public.face_clusters
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each detected face belongs to at most one cluster. sync_photo_faces recreates
+-- a photo's faces when its face_data changes, which drops them back to unclustered.
+ALTER TABLE public.photo_faces
+  ADD COLUMN cluster_id UUID REFERENCES public.face_clusters(id) ON DELETE SET NULL;
+
+CREATE INDEX photo_faces_cluster_id_idx ON public.photo_faces (cluster_id);
+
+-- Create function returning an event's faces, with embeddings, for client-side clustering
+CREATE OR REPLACE FUNCTION public.get_event_faces(target_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  face_index integer,
+  bbox jsonb,
+  detection_score real,
+  model text,
+  embedding text,
+  cluster_id uuid,
+  file_path text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can manage face clusters';
+  END IF;
+
+  RETURN QUERY
+  SELECT pf.id, pf.photo_id, pf.face_index, pf.bbox, pf.detection_score, pf.model, pf.embedding::text, pf.cluster_id, p.file_path
+  FROM public.photo_faces pf
+  JOIN public.photos p ON p.id = pf.photo_id
+  WHERE pf.event_id = target_event_id
+  ORDER BY pf.photo_id, pf.face_index;
+END;
+$$;
+
+-- Create function listing an event's clusters with the attached person, if any
+CREATE OR REPLACE FUNCTION public.get_event_face_clusters(target_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  full_name text,
+  email text,
+  representative_face_id uuid,
+  face_count bigint,
+  photo_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can manage face clusters';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.user_id,
+    pr.full_name,
+    pr.email,
+    c.representative_face_id,
+    count(pf.id),
+    count(DISTINCT pf.photo_id)
+  FROM public.face_clusters c
+  LEFT JOIN public.profiles pr ON pr.user_id = c.user_id
+  LEFT JOIN public.photo_faces pf ON pf.cluster_id = c.id
+  WHERE c.event_id = target_event_id
+  GROUP BY c.id, pr.full_name, pr.email
+  ORDER BY count(DISTINCT pf.photo_id) DESC, c.created_at;
+END;
+$$;
+
+-- Upsert face_matches for every photo in a cluster that is attached to a user.
+-- Internal helper: callers are responsible for authorisation.
+CREATE OR REPLACE FUNCTION public.record_cluster_matches(target_cluster_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  cluster_user_id uuid;
+  centroid vector;
+  written integer;
+BEGIN
+  SELECT c.user_id INTO cluster_user_id FROM public.face_clusters c WHERE c.id = target_cluster_id;
+
+  IF cluster_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT avg(pf.embedding) INTO centroid FROM public.photo_faces pf WHERE pf.cluster_id = target_cluster_id;
+
+  -- Scores are similarity to the cluster centroid; existing matches (and their feedback) are left alone
+  WITH best AS (
+    SELECT DISTINCT ON (pf.photo_id)
+      pf.photo_id,
+      pf.face_index,
+      pf.model,
+      1 - (pf.embedding <=> centroid) AS similarity
+    FROM public.photo_faces pf
+    WHERE pf.cluster_id = target_cluster_id
+    ORDER BY pf.photo_id, pf.embedding <=> centroid
+  )
+  INSERT INTO public.face_matches (user_id, photo_id, confidence_score, face_scan_data, matched_at)
+  SELECT
+    cluster_user_id,
+    b.photo_id,
+    round((b.similarity * 100)::numeric, 2),
+    jsonb_build_object(
+      'face_index', b.face_index,
+      'similarity', b.similarity,
+      'model', b.model,
+      'probe_source', 'cluster',
+      'cluster_id', target_cluster_id
+    ),
+    now()
+  FROM best b
+  ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO NOTHING;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  RETURN written;
+END;
+$$;
+
+-- Create function replacing an event's unattached clusters with a fresh clustering run
+CREATE OR REPLACE FUNCTION public.save_face_clusters(target_event_id uuid, clusters jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cluster jsonb;
+  new_cluster_id uuid;
+  created integer := 0;
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can manage face clusters';
+  END IF;
+
+  -- Clusters already attached to a person are kept as they are
+  DELETE FROM public.face_clusters c
+  WHERE c.event_id = target_event_id AND c.user_id IS NULL;
+
+  FOR cluster IN SELECT * FROM jsonb_array_elements(clusters)
+  LOOP
+    INSERT INTO public.face_clusters (event_id, representative_face_id, created_by)
+    VALUES (target_event_id, (cluster ->> 'representative_face_id')::uuid, auth.uid())
+    RETURNING id INTO new_cluster_id;
+
+    UPDATE public.photo_faces pf
+    SET cluster_id = new_cluster_id
+    WHERE pf.event_id = target_event_id
+      AND pf.cluster_id IS NULL
+      AND pf.id IN (SELECT jsonb_array_elements_text(cluster -> 'face_ids')::uuid);
+
+    created := created + 1;
+  END LOOP;
+
+  -- Drop clusters left empty because every face was already attached elsewhere
+  DELETE FROM public.face_clusters c
+  WHERE c.event_id = target_event_id
+    AND c.user_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.photo_faces pf WHERE pf.cluster_id = c.id);
+
+  RETURN created;
+END;
+$$;
+
+-- Create function merging several clusters into one
+CREATE OR REPLACE FUNCTION public.merge_face_clusters(target_cluster_id uuid, source_cluster_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  attached_users uuid[];
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can manage face clusters';
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT c.event_id) FROM public.face_clusters c
+    WHERE c.id = target_cluster_id OR c.id = ANY(source_cluster_ids)
+  ) <> 1 THEN
+    RAISE EXCEPTION 'Clusters must belong to the same event';
+  END IF;
+
+  SELECT array_agg(DISTINCT c.user_id) FILTER (WHERE c.user_id IS NOT NULL)
+  INTO attached_users
+  FROM public.face_clusters c
+  WHERE c.id = target_cluster_id OR c.id = ANY(source_cluster_ids);
+
+  IF coalesce(array_length(attached_users, 1), 0) > 1 THEN
+    RAISE EXCEPTION 'Cannot merge clusters attached to different people';
+  END IF;
+
+  UPDATE public.photo_faces pf
+  SET cluster_id = target_cluster_id
+  WHERE pf.cluster_id = ANY(source_cluster_ids);
+
+  UPDATE public.face_clusters c
+  SET user_id = attached_users[1]
+  WHERE c.id = target_cluster_id;
+
+  DELETE FROM public.face_clusters c
+  WHERE c.id = ANY(source_cluster_ids) AND c.id <> target_cluster_id;
+
+  RETURN public.record_cluster_matches(target_cluster_id);
+END;
+$$;
+
+-- Create function moving some faces of a cluster into a new cluster
+CREATE OR REPLACE FUNCTION public.split_face_cluster(source_cluster_id uuid, face_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source_event_id uuid;
+  new_cluster_id uuid;
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can manage face clusters';
+  END IF;
+
+  SELECT c.event_id INTO source_event_id FROM public.face_clusters c WHERE c.id = source_cluster_id;
+
+  IF source_event_id IS NULL THEN
+    RAISE EXCEPTION 'Cluster not found';
+  END IF;
+
+  INSERT INTO public.face_clusters (event_id, representative_face_id, created_by)
+  VALUES (source_event_id, face_ids[1], auth.uid())
+  RETURNING id INTO new_cluster_id;
+
+  UPDATE public.photo_faces pf
+  SET cluster_id = new_cluster_id
+  WHERE pf.cluster_id = source_cluster_id AND pf.id = ANY(face_ids);
+
+  -- Give the source a new representative if its old one moved
+  UPDATE public.face_clusters c
+  SET representative_face_id = (
+    SELECT pf.id FROM public.photo_faces pf
+    WHERE pf.cluster_id = source_cluster_id
+    ORDER BY pf.detection_score DESC NULLS LAST
+    LIMIT 1
+  )
+  WHERE c.id = source_cluster_id AND c.representative_face_id = ANY(face_ids);
+
+  RETURN new_cluster_id;
+END;
+$$;
+
+-- Create function attaching a cluster to a user and recording their matches
+CREATE OR REPLACE FUNCTION public.attach_face_cluster(target_cluster_id uuid, target_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can manage face clusters';
+  END IF;
+
+  UPDATE public.face_clusters c
+  SET user_id = target_user_id
+  WHERE c.id = target_cluster_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cluster not found';
+  END IF;
+
+  RETURN public.record_cluster_matches(target_cluster_id);
+END;
+$$;
+
+-- Create function for editors to find a profile to attach a cluster to
+CREATE OR REPLACE FUNCTION public.search_profiles(search_term text)
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  email text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin_or_editor(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and editors can search profiles';
+  END IF;
+
+  RETURN QUERY
+  SELECT pr.user_id, pr.full_name, pr.email
+  FROM public.profiles pr
+  WHERE pr.full_name ILIKE '%' || search_term || '%'
+     OR pr.email ILIKE '%' || search_term || '%'
+  ORDER BY pr.full_name
+  LIMIT 20;
+END;
+$$;
+
+-- Grant minimal necessary permissions
+GRANT EXECUTE ON FUNCTION public.get_event_faces(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_event_face_clusters(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_face_clusters(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_face_clusters(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.split_face_cluster(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.attach_face_cluster(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_profiles(text) TO authenticated;
+
+-- Revoke any public access
+REVOKE EXECUTE ON FUNCTION public.get_event_faces(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION public.get_event_face_clusters(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION public.record_cluster_matches(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION public.save_face_clusters(uuid, jsonb) FROM public;
+REVOKE EXECUTE ON FUNCTION public.merge_face_clusters(uuid, uuid[]) FROM public;
+REVOKE EXECUTE ON FUNCTION public.split_face_cluster(uuid, uuid[]) FROM public;
+REVOKE EXECUTE ON FUNCTION public.attach_face_cluster(uuid, uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION public.search_profiles(text) FROM public;
+
+COMMENT ON TABLE public.face_clusters IS 'Groups of faces within an event believed to be the same person. Optionally attached to a profile, in which case its photos are recorded as face_matches for that user.';
+COMMENT ON FUNCTION public.get_event_faces(uuid) IS 'Admin/editor-only list of an event''s detected faces with embeddings, used to cluster faces in the browser.';
+COMMENT ON FUNCTION public.save_face_clusters(uuid, jsonb) IS 'Replaces an event''s unattached clusters with the given [{face_ids, representative_face_id}] groups. Faces in attached clusters are never moved.';
+COMMENT ON FUNCTION public.attach_face_cluster(uuid, uuid) IS 'Attaches a cluster to a user and creates face_matches for each of its photos; returns the number of new matches.';
@@ -0,0 +1,307 @@
+-- Per-user privacy preferences, edited from the Privacy Settings dialog
+ALTER TABLE public.profiles
+  ADD COLUMN privacy_settings jsonb NOT NULL DEFAULT '{"publicPhotos": true, "faceDetection": true, "dataRetention": false, "emailNotifications": true}'::jsonb;
+
+COMMENT ON COLUMN public.profiles.privacy_settings IS 'User privacy preferences. publicPhotos controls whether the user''s name is shown on their face to other people viewing the same photo.';
+
+-- Link each match to the exact face that matched
+ALTER TABLE public.face_matches
+  ADD COLUMN photo_face_id uuid REFERENCES public.photo_faces(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_face_matches_photo_face_id ON public.face_matches(photo_face_id);
+
+-- Backfill from the face index recorded at match time
+UPDATE public.face_matches fm
+SET photo_face_id = pf.id
+FROM public.photo_faces pf
+WHERE pf.photo_id = fm.photo_id
+  AND pf.face_index = (fm.face_scan_data ->> 'face_index')::integer
+  AND fm.photo_face_id IS NULL;
+
+-- Return the matched face's bounding box from match_faces
+DROP FUNCTION IF EXISTS public.match_faces(extensions.vector, text, uuid, numeric, integer);
+
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding extensions.vector DEFAULT NULL,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT NULL,
+  match_count integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone,
+  feedback public.match_feedback,
+  photo_face_id uuid,
+  bbox jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  probe_source text := 'scan';
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF probe_embedding IS NULL THEN
+    SELECT t.embedding, t.model
+    INTO probe_embedding, probe_model
+    FROM public.face_templates t
+    WHERE t.user_id = current_user_id;
+
+    IF probe_embedding IS NULL THEN
+      RAISE EXCEPTION 'No probe embedding given and no enrolled face template found';
+    END IF;
+
+    probe_source := 'template';
+  END IF;
+
+  IF vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.id AS photo_face_id,
+      pf.photo_id,
+      pf.event_id,
+      pf.bbox,
+      pf.face_index,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE
+      (event_id_filter IS NULL OR pf.event_id = event_id_filter)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    LIMIT match_count
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_face_id, n.photo_id, n.event_id, n.face_index, n.bbox, n.similarity
+    FROM nearest n
+    JOIN public.events e ON e.id = n.event_id
+    WHERE
+      -- An explicit threshold wins, then the event's own default; the parameter is qualified to avoid events.match_threshold
+      n.similarity >= COALESCE(match_faces.match_threshold, e.match_threshold, 0.8)
+      -- Same access rule as get_safe_photos
+      AND (e.visibility = 'public'::event_visibility OR auth.uid() IS NOT NULL)
+      -- Photos the user has said are not them stay hidden
+      AND NOT EXISTS (
+        SELECT 1 FROM public.face_matches r
+        WHERE r.user_id = current_user_id
+          AND r.photo_id = n.photo_id
+          AND r.feedback = 'rejected'::match_feedback
+      )
+    ORDER BY n.photo_id, n.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      b.photo_face_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object(
+        'face_index', b.face_index,
+        'similarity', b.similarity,
+        'model', probe_model,
+        'probe_source', probe_source
+      ),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      photo_face_id = EXCLUDED.photo_face_id,
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at, fm.feedback
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at, u.feedback, b.photo_face_id, b.bbox
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+
+GRANT EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) FROM public;
+
+COMMENT ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) IS 'Finds the faces nearest to a scan embedding (or the caller''s enrolled template when none is given) in accessible photos, upserts face_matches rows for the calling user above the similarity threshold and returns them with the matched face''s normalised bounding box. Without an explicit threshold each event''s match_threshold applies, defaulting to 0.8. Photos the user rejected are never returned. Confidence scores are cosine similarity as a percentage.';
+
+-- Return the matched face's bounding box from get_user_face_matches
+DROP FUNCTION IF EXISTS public.get_user_face_matches(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_user_face_matches(target_user_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  photo_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone,
+  feedback public.match_feedback,
+  photo_face_id uuid,
+  bbox jsonb
+  -- Deliberately exclude face_scan_data from regular access
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 
+    fm.id,
+    fm.user_id,
+    fm.photo_id,
+    fm.confidence_score,
+    fm.matched_at,
+    fm.feedback,
+    fm.photo_face_id,
+    pf.bbox
+  FROM public.face_matches fm
+  LEFT JOIN public.photo_faces pf ON pf.id = fm.photo_face_id
+  WHERE 
+    -- Only return matches for the requesting user or if user is admin
+    (
+      target_user_id IS NULL
+      AND fm.user_id = auth.uid()
+      AND fm.feedback IS DISTINCT FROM 'rejected'::match_feedback
+    )
+    OR (target_user_id IS NOT NULL AND can_access_face_match(target_user_id, fm.id))
+  ORDER BY fm.matched_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_face_matches(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_user_face_matches(uuid) FROM public;
+
+COMMENT ON FUNCTION public.get_user_face_matches(uuid) IS 'Secure function to retrieve face matches for authenticated users, with the matched face''s bounding box. Excludes sensitive biometric scan data and photos the user rejected, and includes audit logging.';
+
+-- Record the matched face for cluster attachments too
+CREATE OR REPLACE FUNCTION public.record_cluster_matches(target_cluster_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  cluster_user_id uuid;
+  centroid vector;
+  written integer;
+BEGIN
+  SELECT c.user_id INTO cluster_user_id FROM public.face_clusters c WHERE c.id = target_cluster_id;
+
+  IF cluster_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT avg(pf.embedding) INTO centroid FROM public.photo_faces pf WHERE pf.cluster_id = target_cluster_id;
+
+  -- Scores are similarity to the cluster centroid; existing matches (and their feedback) are left alone
+  WITH best AS (
+    SELECT DISTINCT ON (pf.photo_id)
+      pf.id AS photo_face_id,
+      pf.photo_id,
+      pf.face_index,
+      pf.model,
+      1 - (pf.embedding <=> centroid) AS similarity
+    FROM public.photo_faces pf
+    WHERE pf.cluster_id = target_cluster_id
+    ORDER BY pf.photo_id, pf.embedding <=> centroid
+  )
+  INSERT INTO public.face_matches (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+  SELECT
+    cluster_user_id,
+    b.photo_id,
+    b.photo_face_id,
+    round((b.similarity * 100)::numeric, 2),
+    jsonb_build_object(
+      'face_index', b.face_index,
+      'similarity', b.similarity,
+      'model', b.model,
+      'probe_source', 'cluster',
+      'cluster_id', target_cluster_id
+    ),
+    now()
+  FROM best b
+  ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO NOTHING;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  RETURN written;
+END;
+$$;
+
+-- Create function returning the known people in photos, honouring their privacy settings
+CREATE OR REPLACE FUNCTION public.get_photo_face_labels(photo_ids uuid[])
+RETURNS TABLE (
+  photo_id uuid,
+  photo_face_id uuid,
+  bbox jsonb,
+  user_id uuid,
+  full_name text,
+  is_self boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  is_staff boolean;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  is_staff := is_admin_or_editor(current_user_id);
+
+  RETURN QUERY
+  SELECT
+    fm.photo_id,
+    fm.photo_face_id,
+    pf.bbox,
+    fm.user_id,
+    pr.full_name,
+    fm.user_id = current_user_id
+  FROM public.face_matches fm
+  JOIN public.photo_faces pf ON pf.id = fm.photo_face_id
+  JOIN public.profiles pr ON pr.user_id = fm.user_id
+  WHERE fm.photo_id = ANY(photo_ids)
+    AND fm.feedback IS DISTINCT FROM 'rejected'::match_feedback
+    -- Only people who are in the photo themselves, or staff, see who else is
+    AND (
+      is_staff OR EXISTS (
+        SELECT 1 FROM public.face_matches own
+        WHERE own.photo_id = fm.photo_id
+          AND own.user_id = current_user_id
+          AND own.feedback IS DISTINCT FROM 'rejected'::match_feedback
+      )
+    )
+    -- Other users are only named if they allow it
+    AND (
+      fm.user_id = current_user_id
+      OR COALESCE((pr.privacy_settings ->> 'publicPhotos')::boolean, true)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_photo_face_labels(uuid[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_photo_face_labels(uuid[]) FROM public;
+
+COMMENT ON FUNCTION public.get_photo_face_labels(uuid[]) IS 'Returns labelled face boxes of known users in the given photos. Visible to people matched in the photo and to admins/editors; other users appear only if their publicPhotos privacy setting allows it.';
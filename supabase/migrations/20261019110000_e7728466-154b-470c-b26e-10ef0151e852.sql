@@ -0,0 +1,202 @@
+-- Create job status enum
+CREATE TYPE public.job_status AS ENUM ('pending', 'processing', 'completed', 'failed');
+
+-- Create processing_jobs table: background work queued per photo, drained by scripts/process-jobs.ts
+CREATE TABLE public.processing_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_type TEXT NOT NULL DEFAULT 'match_photo',
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  status public.job_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  error TEXT,
+  result JSONB,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on processing_jobs
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX processing_jobs_pending_idx ON public.processing_jobs (run_after)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX processing_jobs_photo_id_idx ON public.processing_jobs (photo_id);
+
+-- Jobs are written by triggers and the worker only; staff can watch the queue
+CREATE POLICY "Admins and editors can view processing jobs" ON public.processing_jobs
+  FOR SELECT USING (public.is_admin_or_editor(auth.uid()));
+
+CREATE TRIGGER update_processing_jobs_updated_at
+  BEFORE UPDATE ON public.processing_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue a match job whenever a photo is added or its faces change
+CREATE OR REPLACE FUNCTION public.enqueue_photo_processing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.processing_jobs (photo_id, event_id)
+  SELECT NEW.id, NEW.event_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.processing_jobs j
+    WHERE j.photo_id = NEW.id AND j.status = 'pending'::job_status
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_photo_processing_on_write
+  AFTER INSERT OR UPDATE OF face_data ON public.photos
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_photo_processing();
+
+-- Match one photo's faces against the templates of users who scanned for its event
+CREATE OR REPLACE FUNCTION public.match_photo_for_enrolled_users(target_photo_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  photo_event_id uuid;
+  event_threshold numeric;
+  written integer;
+BEGIN
+  SELECT p.event_id, COALESCE(e.match_threshold, 0.8)
+  INTO photo_event_id, event_threshold
+  FROM public.photos p
+  JOIN public.events e ON e.id = p.event_id
+  WHERE p.id = target_photo_id;
+
+  IF photo_event_id IS NULL THEN
+    RAISE EXCEPTION 'Photo % not found', target_photo_id;
+  END IF;
+
+  -- One-off scans are never stored, so only enrolled templates can be matched later
+  WITH candidates AS (
+    SELECT t.user_id, t.embedding, t.model
+    FROM public.face_templates t
+    WHERE EXISTS (
+        SELECT 1 FROM public.activity_logs a
+        WHERE a.user_id = t.user_id
+          AND a.activity_type = 'face_scanned'::activity_type
+          AND a.metadata ->> 'event_id' = photo_event_id::text
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.face_matches fm
+        JOIN public.photos p ON p.id = fm.photo_id
+        WHERE fm.user_id = t.user_id AND p.event_id = photo_event_id
+      )
+  ),
+  best AS (
+    SELECT DISTINCT ON (c.user_id)
+      c.user_id,
+      pf.id AS photo_face_id,
+      pf.face_index,
+      pf.model,
+      1 - (pf.embedding <=> c.embedding) AS similarity
+    FROM candidates c
+    JOIN public.photo_faces pf ON pf.photo_id = target_photo_id AND pf.model = c.model
+    ORDER BY c.user_id, pf.embedding <=> c.embedding
+  )
+  INSERT INTO public.face_matches (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+  SELECT
+    b.user_id,
+    target_photo_id,
+    b.photo_face_id,
+    round((b.similarity * 100)::numeric, 2),
+    jsonb_build_object(
+      'face_index', b.face_index,
+      'similarity', b.similarity,
+      'model', b.model,
+      'probe_source', 'background'
+    ),
+    now()
+  FROM best b
+  WHERE b.similarity >= event_threshold
+  -- Existing matches keep their scores and any feedback
+  ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO NOTHING;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  RETURN written;
+END;
+$$;
+
+-- Claim a batch of due jobs. Jobs locked for longer than lock_timeout are assumed
+-- to belong to a crashed worker and are claimed again.
+CREATE OR REPLACE FUNCTION public.claim_processing_jobs(
+  batch_size integer DEFAULT 10,
+  lock_timeout interval DEFAULT '10 minutes'
+)
+RETURNS SETOF public.processing_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.processing_jobs j
+  SET status = 'processing'::job_status, attempts = j.attempts + 1, locked_at = now()
+  WHERE j.id IN (
+    SELECT q.id FROM public.processing_jobs q
+    WHERE (q.status = 'pending'::job_status AND q.run_after <= now())
+       OR (q.status = 'processing'::job_status AND q.locked_at < now() - lock_timeout)
+    ORDER BY q.created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_processing_job(job_id uuid, job_result jsonb DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.processing_jobs
+  SET status = 'completed'::job_status, result = job_result, error = NULL, locked_at = NULL, completed_at = now()
+  WHERE id = job_id;
+$$;
+
+-- Record a failure; the job is retried with exponential backoff until max_attempts
+CREATE OR REPLACE FUNCTION public.fail_processing_job(job_id uuid, error_message text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.processing_jobs
+  SET
+    status = CASE WHEN attempts >= max_attempts THEN 'failed'::job_status ELSE 'pending'::job_status END,
+    error = error_message,
+    locked_at = NULL,
+    run_after = now() + make_interval(secs => 30 * power(2, greatest(attempts - 1, 0)))
+  WHERE id = job_id;
+$$;
+
+-- Queue photos uploaded before this migration
+INSERT INTO public.processing_jobs (photo_id, event_id)
+SELECT p.id, p.event_id
+FROM public.photos p
+WHERE p.face_data IS NOT NULL;
+
+-- Queue functions are for the worker's service role only
+REVOKE EXECUTE ON FUNCTION public.match_photo_for_enrolled_users(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_processing_jobs(integer, interval) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_processing_job(uuid, jsonb) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_processing_job(uuid, text) FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.match_photo_for_enrolled_users(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_processing_jobs(integer, interval) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_processing_job(uuid, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_processing_job(uuid, text) TO service_role;
+
+COMMENT ON TABLE public.processing_jobs IS 'Background work per photo. A job is queued on every photo insert or face_data change and drained by the worker in scripts/process-jobs.ts.';
+COMMENT ON FUNCTION public.match_photo_for_enrolled_users(uuid) IS 'Matches a photo''s detected faces against the enrolled templates of users who scanned for, or already have matches in, its event. Inserts new face_matches and returns how many.';
+COMMENT ON FUNCTION public.claim_processing_jobs(integer, interval) IS 'Marks up to batch_size due jobs as processing and returns them. Safe to call from several workers at once.';
@@ -0,0 +1,83 @@
+-- Create notifications table. New matches for a user are folded into one unread
+-- notification per event ("5 new photos of you in Spring Gala").
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL DEFAULT 'new_matches',
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  match_count INTEGER NOT NULL DEFAULT 0,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on notifications
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- At most one unread notification per user, event and type
+CREATE UNIQUE INDEX notifications_unread_key ON public.notifications (user_id, event_id, type)
+  WHERE read_at IS NULL;
+CREATE INDEX notifications_user_id_idx ON public.notifications (user_id, updated_at DESC);
+
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications as read" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notifications_updated_at
+  BEFORE UPDATE ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Notify users of matches found for them in the background. Matches from the
+-- user's own search are skipped: they are looking at them already.
+CREATE OR REPLACE FUNCTION public.notify_new_face_match()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wants_notifications boolean;
+  match_event_id uuid;
+  match_event_name text;
+BEGIN
+  IF NEW.face_scan_data ->> 'probe_source' IN ('scan', 'template') THEN
+    RETURN NEW;
+  END IF;
+
+  -- The "Email notifications" privacy switch, on unless the user turned it off
+  SELECT COALESCE((p.privacy_settings ->> 'emailNotifications')::boolean, true)
+  INTO wants_notifications
+  FROM public.profiles p
+  WHERE p.user_id = NEW.user_id;
+
+  IF NOT COALESCE(wants_notifications, true) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT e.id, e.name
+  INTO match_event_id, match_event_name
+  FROM public.photos ph
+  JOIN public.events e ON e.id = ph.event_id
+  WHERE ph.id = NEW.photo_id;
+
+  INSERT INTO public.notifications (user_id, type, event_id, title, match_count)
+  VALUES (NEW.user_id, 'new_matches', match_event_id, format('1 new photo of you in %s', match_event_name), 1)
+  ON CONFLICT (user_id, event_id, type) WHERE read_at IS NULL DO UPDATE SET
+    match_count = notifications.match_count + 1,
+    title = format('%s new photos of you in %s', notifications.match_count + 1, match_event_name);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_face_match_on_insert
+  AFTER INSERT ON public.face_matches
+  FOR EACH ROW EXECUTE FUNCTION public.notify_new_face_match();
+
+-- Deliver notifications to signed-in clients over realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+COMMENT ON TABLE public.notifications IS 'In-app notifications. New face matches are aggregated into one unread row per user and event; only generated when privacy_settings.emailNotifications is not false.';
@@ -0,0 +1,70 @@
+-- Add activity type for digest emails
+ALTER TYPE public.activity_type ADD VALUE IF NOT EXISTS 'email_sent';
+
+-- Track which matches have been included in a digest email
+ALTER TABLE public.face_matches ADD COLUMN digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- Matches not yet emailed, grouped per user and finished event. Users who turned
+-- off notifications and matches they rejected are left out.
+CREATE OR REPLACE FUNCTION public.get_pending_match_digests()
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  event_id uuid,
+  event_name text,
+  match_ids uuid[],
+  file_paths text[],
+  match_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    fm.user_id,
+    p.email,
+    p.full_name,
+    e.id,
+    e.name,
+    array_agg(fm.id ORDER BY fm.confidence_score DESC),
+    array_agg(ph.file_path ORDER BY fm.confidence_score DESC),
+    count(*)::integer
+  FROM public.face_matches fm
+  JOIN public.photos ph ON ph.id = fm.photo_id
+  JOIN public.events e ON e.id = ph.event_id
+  JOIN public.profiles p ON p.user_id = fm.user_id
+  WHERE fm.digest_sent_at IS NULL
+    AND fm.feedback IS DISTINCT FROM 'rejected'::match_feedback
+    AND COALESCE(e.end_date, e.start_date) < current_date
+    AND COALESCE((p.privacy_settings ->> 'emailNotifications')::boolean, true)
+  GROUP BY fm.user_id, p.email, p.full_name, e.id, e.name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_match_digest_sent(match_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated integer;
+BEGIN
+  UPDATE public.face_matches
+  SET digest_sent_at = now()
+  WHERE id = ANY(match_ids) AND digest_sent_at IS NULL;
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- Digest functions are for the sending script's service role only
+REVOKE EXECUTE ON FUNCTION public.get_pending_match_digests() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_match_digest_sent(uuid[]) FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_pending_match_digests() TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_match_digest_sent(uuid[]) TO service_role;
+
+COMMENT ON FUNCTION public.get_pending_match_digests() IS 'Matches not yet sent in a digest email, one row per user and finished event. Respects privacy_settings.emailNotifications and skips rejected matches.';
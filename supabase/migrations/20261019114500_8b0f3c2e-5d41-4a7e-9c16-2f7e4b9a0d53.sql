@@ -0,0 +1,175 @@
+-- URL slug for public event pages (/e/:slug)
+ALTER TABLE public.events ADD COLUMN slug text;
+
+-- Slug from the event name, with part of the id appended when another event already uses it.
+-- Security definer so events the caller cannot see still count as taken.
+CREATE OR REPLACE FUNCTION public.generate_event_slug(event_name text, event_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  base text;
+BEGIN
+  base := left(trim(both '-' from regexp_replace(lower(event_name), '[^a-z0-9]+', '-', 'g')), 60);
+
+  IF base = '' THEN
+    base := 'event';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.events e WHERE e.slug = base AND e.id <> event_id) THEN
+    base := base || '-' || left(replace(event_id::text, '-', ''), 8);
+  END IF;
+
+  RETURN base;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_event_slug()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.slug IS NULL OR NEW.slug = '' THEN
+    NEW.slug := generate_event_slug(NEW.name, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_event_slug_on_insert
+  BEFORE INSERT ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.set_event_slug();
+
+-- Backfill oldest first so the earliest event keeps the plain slug
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id, name FROM public.events WHERE slug IS NULL ORDER BY created_at LOOP
+    UPDATE public.events SET slug = generate_event_slug(r.name, r.id) WHERE id = r.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.events ALTER COLUMN slug SET NOT NULL;
+ALTER TABLE public.events ADD CONSTRAINT events_slug_key UNIQUE (slug);
+
+COMMENT ON COLUMN public.events.slug IS 'Unique URL slug used by the public event page at /e/:slug. Generated from the name on insert when not given.';
+
+-- Details for the public event page. Returns nothing for events that are not public,
+-- so private events cannot be told apart from ones that do not exist.
+CREATE OR REPLACE FUNCTION public.get_public_event(event_slug text)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  name text,
+  description text,
+  start_date date,
+  end_date date,
+  photo_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    e.slug,
+    e.name,
+    e.description,
+    e.start_date,
+    e.end_date,
+    (SELECT count(*)::integer FROM public.photos p WHERE p.event_id = e.id)
+  FROM public.events e
+  WHERE e.slug = event_slug
+    AND e.visibility = 'public'::event_visibility;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_event(text) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_public_event(text) FROM public;
+
+COMMENT ON FUNCTION public.get_public_event(text) IS 'Returns a public event by slug for the no-login event page, with its photo count. Private and hybrid events are not returned.';
+
+-- Guest face search on a public event page. Unlike match_faces nothing is written:
+-- the probe embedding is only compared and no face_matches or logs are recorded.
+CREATE OR REPLACE FUNCTION public.search_public_event_photos(
+  event_slug text,
+  probe_embedding extensions.vector,
+  probe_model text DEFAULT NULL,
+  match_count integer DEFAULT 200
+)
+RETURNS TABLE (
+  photo_id uuid,
+  file_name text,
+  file_path text,
+  file_size bigint,
+  created_at timestamp with time zone,
+  confidence_score numeric,
+  bbox jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  target_event public.events%ROWTYPE;
+BEGIN
+  SELECT * INTO target_event
+  FROM public.events e
+  WHERE e.slug = event_slug
+    AND e.visibility = 'public'::event_visibility;
+
+  IF target_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF probe_embedding IS NULL OR vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.photo_id,
+      pf.bbox,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE pf.event_id = target_event.id
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    LIMIT LEAST(GREATEST(match_count, 1), 1000)
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_id, n.bbox, n.similarity
+    FROM nearest n
+    WHERE n.similarity >= COALESCE(target_event.match_threshold, 0.8)
+    ORDER BY n.photo_id, n.similarity DESC
+  )
+  SELECT
+    p.id,
+    p.file_name,
+    p.file_path,
+    p.file_size,
+    p.created_at,
+    round((b.similarity * 100)::numeric, 2),
+    b.bbox
+  FROM best b
+  JOIN public.photos p ON p.id = b.photo_id
+  ORDER BY b.similarity DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_public_event_photos(text, extensions.vector, text, integer) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_public_event_photos(text, extensions.vector, text, integer) FROM public;
+
+COMMENT ON FUNCTION public.search_public_event_photos(text, extensions.vector, text, integer) IS 'No-login face search within one public event. Compares the probe embedding with the event''s faces using the event''s match_threshold (default 0.8) and returns the matching photos. Stores nothing: no face_matches rows, templates or activity logs are written.';
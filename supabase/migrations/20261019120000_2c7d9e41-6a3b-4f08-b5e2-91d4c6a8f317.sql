@@ -0,0 +1,467 @@
+-- Hybrid events: the event page is public, but browsing photos and face search
+-- need a signed-in member. Users join with the event's access code.
+ALTER TABLE public.events ADD COLUMN access_code text;
+
+COMMENT ON COLUMN public.events.access_code IS 'Code attendees enter to join a hybrid event. Not readable through the API; staff fetch it with get_event_access_code.';
+
+-- Keep the code out of reach of anyone who can list events
+REVOKE SELECT ON public.events FROM anon, authenticated;
+GRANT SELECT (
+  id, name, description, start_date, end_date, visibility, match_threshold,
+  slug, created_by, created_at, updated_at
+) ON public.events TO anon, authenticated;
+
+-- Ten characters from an alphabet without look-alikes (no 0/O or 1/I)
+CREATE OR REPLACE FUNCTION public.generate_event_access_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public, extensions
+AS $$
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (get_byte(b, i) % 32) + 1, 1), '' ORDER BY i)
+  FROM (SELECT gen_random_bytes(10) AS b) bytes, generate_series(0, 9) AS i;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_event_access_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.visibility = 'hybrid'::event_visibility AND NEW.access_code IS NULL THEN
+    NEW.access_code := generate_event_access_code();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_event_access_code_on_write
+  BEFORE INSERT OR UPDATE OF visibility ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.set_event_access_code();
+
+UPDATE public.events
+SET access_code = generate_event_access_code()
+WHERE visibility = 'hybrid'::event_visibility AND access_code IS NULL;
+
+-- Users who joined an event
+CREATE TABLE public.event_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT event_members_event_user_key UNIQUE (event_id, user_id)
+);
+
+-- Enable RLS on event_members
+ALTER TABLE public.event_members ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX event_members_user_id_idx ON public.event_members (user_id);
+
+-- Rows are only added through join_event
+CREATE POLICY "Users can view their own memberships" ON public.event_members
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins and editors can view memberships" ON public.event_members
+  FOR SELECT USING (public.is_admin_or_editor(auth.uid()));
+
+CREATE POLICY "Users can leave events" ON public.event_members
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins and editors can remove members" ON public.event_members
+  FOR DELETE USING (public.is_admin_or_editor(auth.uid()));
+
+-- Single access rule for an event's photos:
+--   public  - everyone
+--   private - any signed-in user
+--   hybrid  - staff, the event's creator and members
+CREATE OR REPLACE FUNCTION public.can_view_event_photos(_event_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = _event_id
+      AND (
+        e.visibility = 'public'::event_visibility
+        OR (e.visibility = 'private'::event_visibility AND _user_id IS NOT NULL)
+        OR (
+          e.visibility = 'hybrid'::event_visibility
+          AND _user_id IS NOT NULL
+          AND (
+            e.created_by = _user_id
+            OR is_admin_or_editor(_user_id)
+            OR EXISTS (
+              SELECT 1 FROM public.event_members m
+              WHERE m.event_id = e.id AND m.user_id = _user_id
+            )
+          )
+        )
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_view_event_photos(uuid, uuid) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.can_view_event_photos(uuid, uuid) IS 'Whether a user (NULL for anonymous visitors) may browse and face-search an event''s photos. Public: everyone; private: signed-in users; hybrid: staff, the creator and members who joined with the access code.';
+
+DROP POLICY IF EXISTS "Secure photo access with biometric protection" ON public.photos;
+
+CREATE POLICY "Users can view photos of accessible events" ON public.photos
+  FOR SELECT USING (public.can_view_event_photos(event_id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.get_safe_photos(event_id_filter uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  event_id uuid,
+  file_name text,
+  file_path text,
+  mime_type text,
+  file_size bigint,
+  uploaded_by uuid,
+  created_at timestamp with time zone,
+  faces_detected integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 
+    p.id,
+    p.event_id,
+    p.file_name,
+    p.file_path,
+    p.mime_type,
+    p.file_size,
+    p.uploaded_by,
+    p.created_at,
+    p.faces_detected
+  FROM public.photos p
+  WHERE 
+    can_view_event_photos(p.event_id, auth.uid())
+    -- Optional event filter
+    AND (event_id_filter IS NULL OR p.event_id = event_id_filter)
+  ORDER BY p.created_at DESC;
+$$;
+
+-- Apply the same rule to face search
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding extensions.vector DEFAULT NULL,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT NULL,
+  match_count integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone,
+  feedback public.match_feedback,
+  photo_face_id uuid,
+  bbox jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  probe_source text := 'scan';
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF probe_embedding IS NULL THEN
+    SELECT t.embedding, t.model
+    INTO probe_embedding, probe_model
+    FROM public.face_templates t
+    WHERE t.user_id = current_user_id;
+
+    IF probe_embedding IS NULL THEN
+      RAISE EXCEPTION 'No probe embedding given and no enrolled face template found';
+    END IF;
+
+    probe_source := 'template';
+  END IF;
+
+  IF vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.id AS photo_face_id,
+      pf.photo_id,
+      pf.event_id,
+      pf.bbox,
+      pf.face_index,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE
+      (event_id_filter IS NULL OR pf.event_id = event_id_filter)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    LIMIT match_count
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_face_id, n.photo_id, n.event_id, n.face_index, n.bbox, n.similarity
+    FROM nearest n
+    JOIN public.events e ON e.id = n.event_id
+    WHERE
+      -- An explicit threshold wins, then the event's own default; the parameter is qualified to avoid events.match_threshold
+      n.similarity >= COALESCE(match_faces.match_threshold, e.match_threshold, 0.8)
+      -- Same access rule as get_safe_photos
+      AND can_view_event_photos(n.event_id, current_user_id)
+      -- Photos the user has said are not them stay hidden
+      AND NOT EXISTS (
+        SELECT 1 FROM public.face_matches r
+        WHERE r.user_id = current_user_id
+          AND r.photo_id = n.photo_id
+          AND r.feedback = 'rejected'::match_feedback
+      )
+    ORDER BY n.photo_id, n.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      b.photo_face_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object(
+        'face_index', b.face_index,
+        'similarity', b.similarity,
+        'model', probe_model,
+        'probe_source', probe_source
+      ),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      photo_face_id = EXCLUDED.photo_face_id,
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at, fm.feedback
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at, u.feedback, b.photo_face_id, b.bbox
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+-- Background matching only considers users who may see the photo
+CREATE OR REPLACE FUNCTION public.match_photo_for_enrolled_users(target_photo_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  photo_event_id uuid;
+  event_threshold numeric;
+  written integer;
+BEGIN
+  SELECT p.event_id, COALESCE(e.match_threshold, 0.8)
+  INTO photo_event_id, event_threshold
+  FROM public.photos p
+  JOIN public.events e ON e.id = p.event_id
+  WHERE p.id = target_photo_id;
+
+  IF photo_event_id IS NULL THEN
+    RAISE EXCEPTION 'Photo % not found', target_photo_id;
+  END IF;
+
+  -- One-off scans are never stored, so only enrolled templates can be matched later
+  WITH candidates AS (
+    SELECT t.user_id, t.embedding, t.model
+    FROM public.face_templates t
+    WHERE (
+        EXISTS (
+          SELECT 1 FROM public.activity_logs a
+          WHERE a.user_id = t.user_id
+            AND a.activity_type = 'face_scanned'::activity_type
+            AND a.metadata ->> 'event_id' = photo_event_id::text
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.face_matches fm
+          JOIN public.photos p ON p.id = fm.photo_id
+          WHERE fm.user_id = t.user_id AND p.event_id = photo_event_id
+        )
+      )
+      AND can_view_event_photos(photo_event_id, t.user_id)
+  ),
+  best AS (
+    SELECT DISTINCT ON (c.user_id)
+      c.user_id,
+      pf.id AS photo_face_id,
+      pf.face_index,
+      pf.model,
+      1 - (pf.embedding <=> c.embedding) AS similarity
+    FROM candidates c
+    JOIN public.photo_faces pf ON pf.photo_id = target_photo_id AND pf.model = c.model
+    ORDER BY c.user_id, pf.embedding <=> c.embedding
+  )
+  INSERT INTO public.face_matches (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+  SELECT
+    b.user_id,
+    target_photo_id,
+    b.photo_face_id,
+    round((b.similarity * 100)::numeric, 2),
+    jsonb_build_object(
+      'face_index', b.face_index,
+      'similarity', b.similarity,
+      'model', b.model,
+      'probe_source', 'background'
+    ),
+    now()
+  FROM best b
+  WHERE b.similarity >= event_threshold
+  -- Existing matches keep their scores and any feedback
+  ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO NOTHING;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  RETURN written;
+END;
+$$;
+
+-- Hybrid events get a public page too; the caller's access decides what it offers
+DROP FUNCTION IF EXISTS public.get_public_event(text);
+
+CREATE OR REPLACE FUNCTION public.get_public_event(event_slug text)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  name text,
+  description text,
+  start_date date,
+  end_date date,
+  visibility public.event_visibility,
+  photo_count integer,
+  can_view_photos boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    e.slug,
+    e.name,
+    e.description,
+    e.start_date,
+    e.end_date,
+    e.visibility,
+    (SELECT count(*)::integer FROM public.photos p WHERE p.event_id = e.id),
+    can_view_event_photos(e.id, auth.uid())
+  FROM public.events e
+  WHERE e.slug = event_slug
+    AND e.visibility IN ('public'::event_visibility, 'hybrid'::event_visibility);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_event(text) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_public_event(text) FROM public;
+
+COMMENT ON FUNCTION public.get_public_event(text) IS 'Returns a public or hybrid event by slug for the event page, with its photo count and whether the caller may browse its photos. Private events are not returned.';
+
+-- Join a hybrid event with its access code
+CREATE OR REPLACE FUNCTION public.join_event(target_event_id uuid, code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  expected_code text;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT e.access_code INTO expected_code
+  FROM public.events e
+  WHERE e.id = target_event_id AND e.visibility = 'hybrid'::event_visibility;
+
+  -- Codes are shown grouped and in upper case, so ignore spacing, dashes and case
+  IF expected_code IS NULL OR upper(regexp_replace(code, '[\s-]', '', 'g')) <> expected_code THEN
+    RAISE EXCEPTION 'Invalid access code';
+  END IF;
+
+  INSERT INTO public.event_members (event_id, user_id)
+  VALUES (target_event_id, current_user_id)
+  ON CONFLICT ON CONSTRAINT event_members_event_user_key DO NOTHING;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_event(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.join_event(uuid, text) FROM public;
+
+COMMENT ON FUNCTION public.join_event(uuid, text) IS 'Adds the caller to a hybrid event''s members when the access code matches. Raises "Invalid access code" otherwise.';
+
+-- Staff read and rotate codes through these instead of the table
+CREATE OR REPLACE FUNCTION public.get_event_access_code(target_event_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.access_code
+  FROM public.events e
+  WHERE e.id = target_event_id
+    AND (e.created_by = auth.uid() OR is_admin_or_editor(auth.uid()));
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_event_access_code(target_event_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_code text;
+BEGIN
+  UPDATE public.events e
+  SET access_code = generate_event_access_code()
+  WHERE e.id = target_event_id
+    AND e.visibility = 'hybrid'::event_visibility
+    AND (e.created_by = auth.uid() OR is_admin_or_editor(auth.uid()))
+  RETURNING e.access_code INTO new_code;
+
+  IF new_code IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to change this event''s access code';
+  END IF;
+
+  RETURN new_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_access_code(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_event_access_code(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_event_access_code(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION public.reset_event_access_code(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION public.generate_event_access_code() FROM public, anon, authenticated;
+
+COMMENT ON FUNCTION public.get_event_access_code(uuid) IS 'Returns a hybrid event''s access code to its creator and to admins/editors; NULL for anyone else.';
+COMMENT ON FUNCTION public.reset_event_access_code(uuid) IS 'Replaces a hybrid event''s access code. Existing members keep their access.';
@@ -0,0 +1,47 @@
+-- Archived events are kept with their photos but hidden from the event selector
+ALTER TABLE public.events ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- events is readable column by column since access codes were added
+GRANT SELECT (archived_at) ON public.events TO anon, authenticated;
+
+COMMENT ON COLUMN public.events.archived_at IS 'When the event was archived. Archived events keep their photos and matches but are left out of the dashboard event selector.';
+
+-- What deleting an event takes with it, for the confirmation dialog
+CREATE OR REPLACE FUNCTION public.get_event_deletion_summary(target_event_id uuid)
+RETURNS TABLE (
+  photo_count integer,
+  face_match_count integer,
+  matched_user_count integer,
+  member_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can delete events';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (SELECT count(*)::integer FROM public.photos p WHERE p.event_id = target_event_id),
+    (
+      SELECT count(*)::integer FROM public.face_matches fm
+      JOIN public.photos p ON p.id = fm.photo_id
+      WHERE p.event_id = target_event_id
+    ),
+    (
+      SELECT count(DISTINCT fm.user_id)::integer FROM public.face_matches fm
+      JOIN public.photos p ON p.id = fm.photo_id
+      WHERE p.event_id = target_event_id
+    ),
+    (SELECT count(*)::integer FROM public.event_members m WHERE m.event_id = target_event_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_deletion_summary(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_event_deletion_summary(uuid) FROM public;
+
+COMMENT ON FUNCTION public.get_event_deletion_summary(uuid) IS 'Counts the photos, face matches and members that are removed along with an event. Admins only.';
@@ -0,0 +1,80 @@
+-- Branding for event pages and the event selector
+ALTER TABLE public.events
+  ADD COLUMN cover_photo_url text,
+  ADD COLUMN logo_url text,
+  ADD COLUMN brand_color text,
+  ADD CONSTRAINT events_brand_color_check CHECK (brand_color ~ '^#[0-9a-fA-F]{6}$'),
+  -- Lower-case words joined by single dashes, as generate_event_slug produces
+  ADD CONSTRAINT events_slug_format_check CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND length(slug) <= 60);
+
+GRANT SELECT (cover_photo_url, logo_url, brand_color) ON public.events TO anon, authenticated;
+
+COMMENT ON COLUMN public.events.cover_photo_url IS 'Public URL of the cover image: one of the event''s photos or an upload under branding/<event id>/ in the event-photos bucket.';
+COMMENT ON COLUMN public.events.logo_url IS 'Public URL of the event logo, uploaded under branding/<event id>/ in the event-photos bucket.';
+COMMENT ON COLUMN public.events.brand_color IS 'Accent colour as #rrggbb.';
+
+-- Slug check for the event forms; sees every event, including ones the caller cannot
+CREATE OR REPLACE FUNCTION public.is_event_slug_available(candidate text, exclude_event_id uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.slug = candidate
+      AND (exclude_event_id IS NULL OR e.id <> exclude_event_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_event_slug_available(text, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_event_slug_available(text, uuid) FROM public;
+
+COMMENT ON FUNCTION public.is_event_slug_available(text, uuid) IS 'Whether no other event uses the slug. Pass the event being edited as exclude_event_id. The events_slug_key constraint still decides on save.';
+
+-- Return the branding with the public event page
+DROP FUNCTION IF EXISTS public.get_public_event(text);
+
+CREATE OR REPLACE FUNCTION public.get_public_event(event_slug text)
+RETURNS TABLE (
+  id uuid,
+  slug text,
+  name text,
+  description text,
+  start_date date,
+  end_date date,
+  visibility public.event_visibility,
+  cover_photo_url text,
+  logo_url text,
+  brand_color text,
+  photo_count integer,
+  can_view_photos boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    e.slug,
+    e.name,
+    e.description,
+    e.start_date,
+    e.end_date,
+    e.visibility,
+    e.cover_photo_url,
+    e.logo_url,
+    e.brand_color,
+    (SELECT count(*)::integer FROM public.photos p WHERE p.event_id = e.id),
+    can_view_event_photos(e.id, auth.uid())
+  FROM public.events e
+  WHERE e.slug = event_slug
+    AND e.visibility IN ('public'::event_visibility, 'hybrid'::event_visibility);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_event(text) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_public_event(text) FROM public;
+
+COMMENT ON FUNCTION public.get_public_event(text) IS 'Returns a public or hybrid event by slug for the event page, with its branding, photo count and whether the caller may browse its photos. Private events are not returned.';
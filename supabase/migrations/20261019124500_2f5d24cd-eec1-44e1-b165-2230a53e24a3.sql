@@ -0,0 +1,295 @@
+-- Per-event roles: owners manage the event, photographers upload to it, viewers browse it
+CREATE TYPE public.event_member_role AS ENUM ('owner', 'photographer', 'viewer');
+
+-- Existing members joined with an access code, so they are viewers
+ALTER TABLE public.event_members
+  ADD COLUMN role public.event_member_role NOT NULL DEFAULT 'viewer';
+
+CREATE INDEX event_members_event_id_idx ON public.event_members (event_id);
+
+-- Creators own their events; whoever uploaded to an event keeps uploading as its photographer
+INSERT INTO public.event_members (event_id, user_id, role)
+SELECT e.id, e.created_by, 'owner'::event_member_role
+FROM public.events e
+WHERE e.created_by IS NOT NULL
+ON CONFLICT ON CONSTRAINT event_members_event_user_key DO UPDATE SET role = 'owner';
+
+INSERT INTO public.event_members (event_id, user_id, role)
+SELECT DISTINCT p.event_id, p.uploaded_by, 'photographer'::event_member_role
+FROM public.photos p
+WHERE p.uploaded_by IS NOT NULL
+ON CONFLICT ON CONSTRAINT event_members_event_user_key DO UPDATE SET role = 'photographer'
+  WHERE event_members.role = 'viewer';
+
+CREATE OR REPLACE FUNCTION public.add_event_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.event_members (event_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner')
+  ON CONFLICT ON CONSTRAINT event_members_event_user_key DO UPDATE SET role = 'owner';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_event_owner
+  AFTER INSERT ON public.events
+  FOR EACH ROW EXECUTE FUNCTION public.add_event_owner();
+
+CREATE OR REPLACE FUNCTION public.get_event_role(_event_id uuid, _user_id uuid)
+RETURNS public.event_member_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.role FROM public.event_members m
+  WHERE m.event_id = _event_id AND m.user_id = _user_id;
+$$;
+
+-- Admins keep global access; everyone else needs a role in the event
+CREATE OR REPLACE FUNCTION public.can_manage_event(_event_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin')
+    OR COALESCE(get_event_role(_event_id, _user_id) = 'owner', false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_upload_event_photos(_event_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin')
+    OR COALESCE(get_event_role(_event_id, _user_id) IN ('owner', 'photographer'), false);
+$$;
+
+-- Storage paths are <event id>/<file> for photos and branding/<event id>/<file> for logos and covers
+CREATE OR REPLACE FUNCTION public.can_write_event_file(object_name text, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN (storage.foldername(object_name))[1] = 'branding' THEN EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id::text = (storage.foldername(object_name))[2]
+        AND can_manage_event(e.id, _user_id)
+    )
+    ELSE EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id::text = (storage.foldername(object_name))[1]
+        AND can_upload_event_photos(e.id, _user_id)
+    )
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_role(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_manage_event(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_upload_event_photos(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_write_event_file(text, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.can_manage_event(uuid, uuid) IS 'Whether a user may edit an event, change its branding and access code and manage its members: admins and the event''s owners.';
+COMMENT ON FUNCTION public.can_upload_event_photos(uuid, uuid) IS 'Whether a user may add photos to an event: admins, owners and photographers.';
+
+-- Private and hybrid events are now limited to their members
+CREATE OR REPLACE FUNCTION public.can_view_event_photos(_event_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id = _event_id
+      AND (
+        e.visibility = 'public'::event_visibility
+        OR (
+          _user_id IS NOT NULL
+          AND (
+            has_role(_user_id, 'admin')
+            OR EXISTS (
+              SELECT 1 FROM public.event_members m
+              WHERE m.event_id = e.id AND m.user_id = _user_id
+            )
+          )
+        )
+      )
+  );
+$$;
+
+COMMENT ON FUNCTION public.can_view_event_photos(uuid, uuid) IS 'Whether a user (NULL for anonymous visitors) may browse and face-search an event''s photos. Public: everyone; private and hybrid: admins and the event''s members.';
+
+-- Private events are only listed to their members; hybrid events stay visible to signed-in users so they can join
+DROP POLICY IF EXISTS "Everyone can view public events" ON public.events;
+
+CREATE POLICY "Users can view events they can access" ON public.events
+  FOR SELECT USING (
+    visibility = 'public'::event_visibility
+    OR (visibility = 'hybrid'::event_visibility AND auth.uid() IS NOT NULL)
+    OR created_by = auth.uid()
+    OR public.can_view_event_photos(id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Admins and event creators can update events" ON public.events;
+
+CREATE POLICY "Event owners can update events" ON public.events
+  FOR UPDATE USING (public.can_manage_event(id, auth.uid()));
+
+DROP POLICY IF EXISTS "Admins and editors can upload photos" ON public.photos;
+
+CREATE POLICY "Photographers can upload photos to their events" ON public.photos
+  FOR INSERT WITH CHECK (public.can_upload_event_photos(event_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Admins and editors can upload event photos" ON storage.objects;
+DROP POLICY IF EXISTS "Admins and editors can update event photos" ON storage.objects;
+
+CREATE POLICY "Event members can upload event files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'event-photos' AND
+    public.can_write_event_file(name, auth.uid())
+  );
+
+CREATE POLICY "Event members can update event files" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'event-photos' AND
+    public.can_write_event_file(name, auth.uid())
+  );
+
+-- Owners manage their events' members; members are added through add_event_member and join_event
+DROP POLICY IF EXISTS "Admins and editors can view memberships" ON public.event_members;
+DROP POLICY IF EXISTS "Admins and editors can remove members" ON public.event_members;
+
+CREATE POLICY "Event owners can view members" ON public.event_members
+  FOR SELECT USING (public.can_manage_event(event_id, auth.uid()));
+
+CREATE POLICY "Event owners can change member roles" ON public.event_members
+  FOR UPDATE USING (public.can_manage_event(event_id, auth.uid()))
+  WITH CHECK (public.can_manage_event(event_id, auth.uid()));
+
+CREATE POLICY "Event owners can remove members" ON public.event_members
+  FOR DELETE USING (public.can_manage_event(event_id, auth.uid()));
+
+-- Profiles are private, so owners list members with their names through this
+CREATE OR REPLACE FUNCTION public.get_event_members(target_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  full_name text,
+  email text,
+  role public.event_member_role,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can view members';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.id, m.user_id, pr.full_name, pr.email, m.role, m.created_at
+  FROM public.event_members m
+  LEFT JOIN public.profiles pr ON pr.user_id = m.user_id
+  WHERE m.event_id = target_event_id
+  ORDER BY m.role, pr.full_name NULLS LAST, pr.email;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_event_member(
+  target_event_id uuid,
+  member_email text,
+  member_role public.event_member_role DEFAULT 'viewer'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_user_id uuid;
+  member_id uuid;
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can add members';
+  END IF;
+
+  SELECT pr.user_id INTO member_user_id
+  FROM public.profiles pr
+  WHERE lower(pr.email) = lower(trim(member_email));
+
+  IF member_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account uses this email address';
+  END IF;
+
+  INSERT INTO public.event_members (event_id, user_id, role)
+  VALUES (target_event_id, member_user_id, member_role)
+  ON CONFLICT ON CONSTRAINT event_members_event_user_key DO UPDATE SET role = EXCLUDED.role
+  RETURNING event_members.id INTO member_id;
+
+  RETURN member_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_event_member(uuid, text, public.event_member_role) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_event_members(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION public.add_event_member(uuid, text, public.event_member_role) FROM public;
+
+COMMENT ON FUNCTION public.get_event_members(uuid) IS 'Lists an event''s members with their names and emails for its owners and admins.';
+COMMENT ON FUNCTION public.add_event_member(uuid, text, public.event_member_role) IS 'Adds the account with the given email to an event, or changes its role if it is already a member. Owners and admins only.';
+
+-- Access codes follow the same rule as the rest of the event settings
+CREATE OR REPLACE FUNCTION public.get_event_access_code(target_event_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.access_code
+  FROM public.events e
+  WHERE e.id = target_event_id
+    AND can_manage_event(e.id, auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.reset_event_access_code(target_event_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_code text;
+BEGIN
+  UPDATE public.events e
+  SET access_code = generate_event_access_code()
+  WHERE e.id = target_event_id
+    AND e.visibility = 'hybrid'::event_visibility
+    AND can_manage_event(e.id, auth.uid())
+  RETURNING e.access_code INTO new_code;
+
+  IF new_code IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to change this event''s access code';
+  END IF;
+
+  RETURN new_code;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_event_access_code(uuid) IS 'Returns a hybrid event''s access code to its owners and to admins; NULL for anyone else.';
@@ -0,0 +1,215 @@
+-- Record people joining events through invites
+ALTER TYPE public.activity_type ADD VALUE IF NOT EXISTS 'invite_redeemed';
+
+-- Invites add people to an event with a role, through a link token or a short numeric code
+CREATE TABLE public.event_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  token TEXT NOT NULL,
+  code TEXT NOT NULL,
+  role public.event_member_role NOT NULL DEFAULT 'viewer',
+  -- NULL for unlimited uses
+  max_uses INTEGER CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT event_invites_token_key UNIQUE (token),
+  CONSTRAINT event_invites_code_key UNIQUE (code)
+);
+
+-- Enable RLS on event_invites
+ALTER TABLE public.event_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX event_invites_event_id_idx ON public.event_invites (event_id);
+
+-- Invites are created through create_event_invite; owners list and revoke them
+CREATE POLICY "Event owners can view invites" ON public.event_invites
+  FOR SELECT USING (public.can_manage_event(event_id, auth.uid()));
+
+CREATE POLICY "Event owners can revoke invites" ON public.event_invites
+  FOR UPDATE USING (public.can_manage_event(event_id, auth.uid()))
+  WITH CHECK (public.can_manage_event(event_id, auth.uid()));
+
+-- 24 URL-safe characters (144 random bits) for invite links
+CREATE OR REPLACE FUNCTION public.generate_invite_token()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public, extensions
+AS $$
+  SELECT translate(encode(gen_random_bytes(18), 'base64'), '+/', '-_');
+$$;
+
+-- Eight digits, short enough to read out or type on a phone
+CREATE OR REPLACE FUNCTION public.generate_invite_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public, extensions
+AS $$
+  SELECT lpad((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint % 100000000)::text, 8, '0');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_invite_token() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_invite_code() FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_event_invite(
+  target_event_id uuid,
+  invite_role public.event_member_role DEFAULT 'viewer',
+  invite_max_uses integer DEFAULT NULL,
+  invite_expires_at timestamp with time zone DEFAULT NULL
+)
+RETURNS SETOF public.event_invites
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_code text;
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can create invites';
+  END IF;
+
+  -- Codes are short, so pick one no other invite has used
+  LOOP
+    new_code := generate_invite_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.event_invites i WHERE i.code = new_code);
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO public.event_invites (event_id, token, code, role, max_uses, expires_at, created_by)
+  VALUES (target_event_id, generate_invite_token(), new_code, invite_role, invite_max_uses, invite_expires_at, auth.uid())
+  RETURNING *;
+END;
+$$;
+
+-- What the join page shows before the visitor signs in. Only reachable with the secret token.
+CREATE OR REPLACE FUNCTION public.get_event_invite(invite_token text)
+RETURNS TABLE (
+  event_id uuid,
+  event_name text,
+  event_slug text,
+  logo_url text,
+  brand_color text,
+  role public.event_member_role,
+  status text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    e.name,
+    e.slug,
+    e.logo_url,
+    e.brand_color,
+    i.role,
+    CASE
+      WHEN i.revoked_at IS NOT NULL OR e.archived_at IS NOT NULL THEN 'revoked'
+      WHEN i.expires_at IS NOT NULL AND i.expires_at <= now() THEN 'expired'
+      WHEN i.max_uses IS NOT NULL AND i.use_count >= i.max_uses THEN 'used'
+      ELSE 'valid'
+    END
+  FROM public.event_invites i
+  JOIN public.events e ON e.id = i.event_id
+  WHERE i.token = invite_token;
+$$;
+
+CREATE OR REPLACE FUNCTION public.redeem_event_invite(invite_token text DEFAULT NULL, invite_code text DEFAULT NULL)
+RETURNS TABLE (event_id uuid, role public.event_member_role)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  invite public.event_invites%ROWTYPE;
+  existing_role public.event_member_role;
+  target_event_name text;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  -- Codes are shown grouped, so ignore anything but digits
+  SELECT * INTO invite
+  FROM public.event_invites i
+  WHERE (invite_token IS NOT NULL AND i.token = invite_token)
+     OR (invite_code IS NOT NULL AND i.code = regexp_replace(invite_code, '\D', '', 'g'))
+  FOR UPDATE;
+
+  IF NOT FOUND OR invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite is not valid';
+  END IF;
+
+  SELECT e.name INTO target_event_name
+  FROM public.events e
+  WHERE e.id = invite.event_id AND e.archived_at IS NULL;
+
+  IF target_event_name IS NULL THEN
+    RAISE EXCEPTION 'This invite is not valid';
+  END IF;
+
+  IF invite.expires_at IS NOT NULL AND invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+
+  SELECT m.role INTO existing_role
+  FROM public.event_members m
+  WHERE m.event_id = invite.event_id AND m.user_id = current_user_id;
+
+  -- Roles sort from owner to viewer: members who already have this role or a higher one don't use up the invite
+  IF existing_role IS NOT NULL AND existing_role <= invite.role THEN
+    RETURN QUERY SELECT invite.event_id, existing_role;
+    RETURN;
+  END IF;
+
+  IF invite.max_uses IS NOT NULL AND invite.use_count >= invite.max_uses THEN
+    RAISE EXCEPTION 'This invite has already been used';
+  END IF;
+
+  INSERT INTO public.event_members (event_id, user_id, role)
+  VALUES (invite.event_id, current_user_id, invite.role)
+  ON CONFLICT ON CONSTRAINT event_members_event_user_key DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE public.event_invites i
+  SET use_count = i.use_count + 1
+  WHERE i.id = invite.id;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, description, metadata)
+  VALUES (
+    current_user_id,
+    'invite_redeemed',
+    format('Joined %s as %s with an invite', target_event_name, invite.role),
+    jsonb_build_object(
+      'event_id', invite.event_id,
+      'event_name', target_event_name,
+      'invite_id', invite.id,
+      'role', invite.role,
+      'previous_role', existing_role,
+      'via', CASE WHEN invite_token IS NOT NULL THEN 'link' ELSE 'code' END
+    )
+  );
+
+  RETURN QUERY SELECT invite.event_id, invite.role;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_event_invite(uuid, public.event_member_role, integer, timestamp with time zone) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_event_invite(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_event_invite(text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_event_invite(uuid, public.event_member_role, integer, timestamp with time zone) FROM public;
+REVOKE EXECUTE ON FUNCTION public.get_event_invite(text) FROM public;
+REVOKE EXECUTE ON FUNCTION public.redeem_event_invite(text, text) FROM public;
+
+COMMENT ON FUNCTION public.create_event_invite(uuid, public.event_member_role, integer, timestamp with time zone) IS 'Creates an invite link and code for an event. Owners and admins only. NULL max uses or expiry means unlimited.';
+COMMENT ON FUNCTION public.get_event_invite(text) IS 'Returns the event and role behind an invite link, and whether the invite is valid, expired, used or revoked.';
+COMMENT ON FUNCTION public.redeem_event_invite(text, text) IS 'Adds the caller to an event by invite token or code, logs the redemption and returns the event and the caller''s role in it. Members who already have the role or a higher one are not counted as a use.';
@@ -0,0 +1,75 @@
+-- Photo files follow the same access rule as the photos table. The bucket was
+-- public, so anyone could list and download the files of private and hybrid events.
+UPDATE storage.buckets SET public = false WHERE id = 'event-photos';
+
+DROP POLICY IF EXISTS "Anyone can view event photos" ON storage.objects;
+
+CREATE POLICY "Users can view files of accessible events" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'event-photos' AND
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id::text = (storage.foldername(name))[1]
+        AND public.can_view_event_photos(e.id, auth.uid())
+    )
+  );
+
+-- file_path held the public URL; it is now the object path, which clients exchange for a signed URL
+UPDATE public.photos
+SET file_path = regexp_replace(file_path, '^https?://.*/storage/v1/object/public/event-photos/', '')
+WHERE file_path ~ '^https?://';
+
+COMMENT ON COLUMN public.photos.file_path IS 'Path of the file in the private event-photos bucket (<event id>/<file>). Clients show it through a signed URL.';
+
+-- Logos and covers appear on public event pages, posters and invite pages, so they live in a public bucket
+INSERT INTO storage.buckets (id, name, public) VALUES ('event-branding', 'event-branding', true);
+
+CREATE POLICY "Anyone can view event branding" ON storage.objects
+  FOR SELECT USING (bucket_id = 'event-branding');
+
+CREATE POLICY "Event owners can upload branding" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'event-branding' AND
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id::text = (storage.foldername(name))[1]
+        AND public.can_manage_event(e.id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Event owners can update branding" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'event-branding' AND
+    EXISTS (
+      SELECT 1 FROM public.events e
+      WHERE e.id::text = (storage.foldername(name))[1]
+        AND public.can_manage_event(e.id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can delete event branding" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'event-branding' AND
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Branding no longer goes in the photo bucket
+CREATE OR REPLACE FUNCTION public.can_write_event_file(object_name text, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.events e
+    WHERE e.id::text = (storage.foldername(object_name))[1]
+      AND can_upload_event_photos(e.id, _user_id)
+  );
+$$;
+
+-- Covers and logos uploaded before this still point at the now private photo bucket.
+-- `npm run copy-branding` copies them into event-branding and rewrites the URLs.
+
+COMMENT ON COLUMN public.events.cover_photo_url IS 'Public URL of the cover image, uploaded under <event id>/ in the event-branding bucket.';
+COMMENT ON COLUMN public.events.logo_url IS 'Public URL of the event logo, uploaded under <event id>/ in the event-branding bucket.';
@@ -0,0 +1,141 @@
+-- Record whether a scan passed the liveness check, and stop scans that did not
+-- (uploaded selfies) from finding photos of someone else
+DROP FUNCTION IF EXISTS public.match_faces(extensions.vector, text, uuid, numeric, integer);
+
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding extensions.vector DEFAULT NULL,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT NULL,
+  match_count integer DEFAULT 1000,
+  probe_live boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone,
+  feedback public.match_feedback,
+  photo_face_id uuid,
+  bbox jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  probe_source text := 'scan';
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF probe_embedding IS NULL THEN
+    SELECT t.embedding, t.model
+    INTO probe_embedding, probe_model
+    FROM public.face_templates t
+    WHERE t.user_id = current_user_id;
+
+    IF probe_embedding IS NULL THEN
+      RAISE EXCEPTION 'No probe embedding given and no enrolled face template found';
+    END IF;
+
+    probe_source := 'template';
+    -- Templates are only saved after a liveness check
+    probe_live := true;
+  END IF;
+
+  IF vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.id AS photo_face_id,
+      pf.photo_id,
+      pf.event_id,
+      pf.bbox,
+      pf.face_index,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE
+      (event_id_filter IS NULL OR pf.event_id = event_id_filter)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    -- Keep the number of rows one call can write bounded
+    LIMIT LEAST(GREATEST(match_count, 1), 1000)
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_face_id, n.photo_id, n.event_id, n.face_index, n.bbox, n.similarity
+    FROM nearest n
+    JOIN public.events e ON e.id = n.event_id
+    WHERE
+      -- An explicit threshold wins, then the event's own default; the parameter is qualified to avoid events.match_threshold.
+      -- Clamped to the range events.match_threshold allows, so a low threshold can't match every face
+      n.similarity >= LEAST(GREATEST(COALESCE(match_faces.match_threshold, e.match_threshold, 0.8), 0.5), 0.99)
+      -- Same access rule as get_safe_photos
+      AND can_view_event_photos(n.event_id, current_user_id)
+      -- Photos the user has said are not them stay hidden
+      AND NOT EXISTS (
+        SELECT 1 FROM public.face_matches r
+        WHERE r.user_id = current_user_id
+          AND r.photo_id = n.photo_id
+          AND r.feedback = 'rejected'::match_feedback
+      )
+      -- A probe that passed no liveness check (an uploaded picture could be anyone) only
+      -- refreshes photos the user already confirmed and never finds new ones
+      AND (
+        probe_live
+        OR EXISTS (
+          SELECT 1 FROM public.face_matches c
+          WHERE c.user_id = current_user_id
+            AND c.photo_id = n.photo_id
+            AND c.feedback = 'confirmed'::match_feedback
+        )
+      )
+    ORDER BY n.photo_id, n.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      b.photo_face_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object(
+        'face_index', b.face_index,
+        'similarity', b.similarity,
+        'model', probe_model,
+        'probe_source', probe_source,
+        'liveness_passed', probe_live
+      ),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      photo_face_id = EXCLUDED.photo_face_id,
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at, fm.feedback
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at, u.feedback, b.photo_face_id, b.bbox
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer, boolean) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer, boolean) FROM public;
+
+COMMENT ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer, boolean) IS 'Finds the faces nearest to a scan embedding (or the caller''s enrolled template when none is given) in accessible photos, upserts face_matches rows for the calling user above the similarity threshold and returns them with the matched face''s normalised bounding box. Without an explicit threshold each event''s match_threshold applies, defaulting to 0.8; thresholds are clamped to 0.5-0.99 and match_count to 1-1000. Scans that did not pass a liveness check (probe_live false) only return photos the user already confirmed. Photos the user rejected are never returned. Confidence scores are cosine similarity as a percentage.';
@@ -0,0 +1,78 @@
+-- Splitting now checks the faces it is given and takes back the attached person's
+-- matches on the photos that moved out, instead of leaving them behind
+CREATE OR REPLACE FUNCTION public.split_face_cluster(source_cluster_id uuid, face_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source_event_id uuid;
+  source_user_id uuid;
+  new_cluster_id uuid;
+  moved_count integer;
+BEGIN
+  SELECT c.event_id, c.user_id INTO source_event_id, source_user_id
+  FROM public.face_clusters c
+  WHERE c.id = source_cluster_id
+  FOR UPDATE;
+
+  IF source_event_id IS NULL THEN
+    RAISE EXCEPTION 'Cluster not found';
+  END IF;
+
+  IF NOT can_manage_event(source_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can manage face clusters';
+  END IF;
+
+  SELECT count(*) INTO moved_count
+  FROM public.photo_faces pf
+  WHERE pf.cluster_id = source_cluster_id AND pf.id = ANY(face_ids);
+
+  IF moved_count = 0 THEN
+    RAISE EXCEPTION 'None of the faces belong to this cluster';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.photo_faces pf
+    WHERE pf.cluster_id = source_cluster_id AND NOT (pf.id = ANY(face_ids))
+  ) THEN
+    RAISE EXCEPTION 'Leave at least one face in the cluster';
+  END IF;
+
+  INSERT INTO public.face_clusters (event_id, created_by)
+  VALUES (source_event_id, auth.uid())
+  RETURNING id INTO new_cluster_id;
+
+  UPDATE public.photo_faces pf
+  SET cluster_id = new_cluster_id
+  WHERE pf.cluster_id = source_cluster_id AND pf.id = ANY(face_ids);
+
+  -- Represent each side by its best detection among the faces it actually has
+  UPDATE public.face_clusters c
+  SET representative_face_id = (
+    SELECT pf.id FROM public.photo_faces pf
+    WHERE pf.cluster_id = c.id
+    ORDER BY pf.detection_score DESC NULLS LAST
+    LIMIT 1
+  )
+  WHERE c.id = new_cluster_id
+     OR (c.id = source_cluster_id AND c.representative_face_id = ANY(face_ids));
+
+  IF source_user_id IS NOT NULL THEN
+    -- Unreviewed matches the cluster made from the moved faces no longer hold
+    DELETE FROM public.face_matches fm
+    WHERE fm.user_id = source_user_id
+      AND fm.feedback IS NULL
+      AND fm.photo_face_id = ANY(face_ids)
+      AND fm.face_scan_data ->> 'probe_source' = 'cluster';
+
+    -- Photos that still have one of the person's faces get their match back on that face
+    PERFORM public.record_cluster_matches(source_cluster_id);
+  END IF;
+
+  RETURN new_cluster_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.split_face_cluster(uuid, uuid[]) IS 'Moves the given faces of a cluster into a new, unattached cluster and returns its id. At least one face must move and one must stay. Unreviewed matches the cluster created from the moved faces are removed from the attached person.';
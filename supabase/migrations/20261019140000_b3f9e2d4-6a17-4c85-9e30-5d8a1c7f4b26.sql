@@ -0,0 +1,11 @@
+-- Uploaders take a file back out of the bucket when saving its photo fails. Only
+-- files they stored themselves and that no photo points at can go this way.
+CREATE POLICY "Uploaders can remove their unsaved event photos" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'event-photos' AND
+    owner = auth.uid() AND
+    NOT EXISTS (
+      SELECT 1 FROM public.photos p
+      WHERE p.file_path = storage.objects.name
+    )
+  );
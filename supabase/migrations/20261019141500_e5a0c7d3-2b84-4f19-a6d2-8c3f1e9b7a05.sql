@@ -0,0 +1,83 @@
+-- Background matching also reaches event members and people who scanned across
+-- all events, not only those whose scan was logged against this event
+CREATE OR REPLACE FUNCTION public.match_photo_for_enrolled_users(target_photo_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  photo_event_id uuid;
+  event_threshold numeric;
+  written integer;
+BEGIN
+  SELECT p.event_id, COALESCE(e.match_threshold, 0.8)
+  INTO photo_event_id, event_threshold
+  FROM public.photos p
+  JOIN public.events e ON e.id = p.event_id
+  WHERE p.id = target_photo_id;
+
+  IF photo_event_id IS NULL THEN
+    RAISE EXCEPTION 'Photo % not found', target_photo_id;
+  END IF;
+
+  -- One-off scans are never stored, so only enrolled templates can be matched later.
+  -- "All events" scans are logged with a null event_id; enrollment logs have no event_id at all.
+  WITH candidates AS (
+    SELECT t.user_id, t.embedding, t.model
+    FROM public.face_templates t
+    WHERE can_view_event_photos(photo_event_id, t.user_id)
+      AND (
+        EXISTS (
+          SELECT 1 FROM public.event_members m
+          WHERE m.event_id = photo_event_id AND m.user_id = t.user_id
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.activity_logs a
+          WHERE a.user_id = t.user_id
+            AND a.activity_type = 'face_scanned'::activity_type
+            AND a.metadata ? 'event_id'
+            AND (a.metadata ->> 'event_id' IS NULL OR a.metadata ->> 'event_id' = photo_event_id::text)
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.face_matches fm
+          JOIN public.photos p ON p.id = fm.photo_id
+          WHERE fm.user_id = t.user_id AND p.event_id = photo_event_id
+        )
+      )
+  ),
+  best AS (
+    SELECT DISTINCT ON (c.user_id)
+      c.user_id,
+      pf.id AS photo_face_id,
+      pf.face_index,
+      pf.model,
+      1 - (pf.embedding <=> c.embedding) AS similarity
+    FROM candidates c
+    JOIN public.photo_faces pf ON pf.photo_id = target_photo_id AND pf.model = c.model
+    ORDER BY c.user_id, pf.embedding <=> c.embedding
+  )
+  INSERT INTO public.face_matches (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+  SELECT
+    b.user_id,
+    target_photo_id,
+    b.photo_face_id,
+    round((b.similarity * 100)::numeric, 2),
+    jsonb_build_object(
+      'face_index', b.face_index,
+      'similarity', b.similarity,
+      'model', b.model,
+      'probe_source', 'background'
+    ),
+    now()
+  FROM best b
+  WHERE b.similarity >= event_threshold
+  -- Existing matches keep their scores and any feedback
+  ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO NOTHING;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  RETURN written;
+END;
+$$;
+
+COMMENT ON FUNCTION public.match_photo_for_enrolled_users(uuid) IS 'Matches a photo''s detected faces against the enrolled templates of users who can see its event and are its members, scanned for it or for all events, or already have matches in it. Inserts new face_matches and returns how many.';
@@ -0,0 +1,69 @@
+-- Names are shown on faces only to people who opted in
+ALTER TABLE public.profiles
+  ALTER COLUMN privacy_settings SET DEFAULT '{"publicPhotos": false, "faceDetection": true, "dataRetention": false, "emailNotifications": true}'::jsonb;
+
+-- Only confirmed matches, or unreviewed ones at the event's threshold, put someone in a photo
+CREATE OR REPLACE FUNCTION public.get_photo_face_labels(photo_ids uuid[])
+RETURNS TABLE (
+  photo_id uuid,
+  photo_face_id uuid,
+  bbox jsonb,
+  user_id uuid,
+  full_name text,
+  is_self boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+  is_staff boolean;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  is_staff := is_admin_or_editor(current_user_id);
+
+  RETURN QUERY
+  SELECT
+    fm.photo_id,
+    fm.photo_face_id,
+    pf.bbox,
+    fm.user_id,
+    pr.full_name,
+    fm.user_id = current_user_id
+  FROM public.face_matches fm
+  JOIN public.photo_faces pf ON pf.id = fm.photo_face_id
+  JOIN public.profiles pr ON pr.user_id = fm.user_id
+  JOIN public.events e ON e.id = pf.event_id
+  WHERE fm.photo_id = ANY(photo_ids)
+    AND (
+      fm.feedback = 'confirmed'::match_feedback
+      OR (fm.feedback IS NULL AND fm.confidence_score >= COALESCE(e.match_threshold, 0.8) * 100)
+    )
+    -- Only people who are in the photo themselves, or staff, see who else is
+    AND (
+      is_staff OR EXISTS (
+        SELECT 1 FROM public.face_matches own
+        WHERE own.photo_id = fm.photo_id
+          AND own.user_id = current_user_id
+          AND (
+            own.feedback = 'confirmed'::match_feedback
+            OR (own.feedback IS NULL AND own.confidence_score >= COALESCE(e.match_threshold, 0.8) * 100)
+          )
+      )
+    )
+    -- Other users are only named if they opted in
+    AND (
+      fm.user_id = current_user_id
+      OR COALESCE((pr.privacy_settings ->> 'publicPhotos')::boolean, false)
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_photo_face_labels(uuid[]) IS 'Returns labelled face boxes of known users in the given photos. Only confirmed matches or matches at the event''s threshold count. Visible to people matched in the photo that way and to admins/editors; other users appear only if they turned on their publicPhotos privacy setting.';
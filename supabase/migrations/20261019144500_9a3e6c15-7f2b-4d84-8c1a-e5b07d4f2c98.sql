@@ -0,0 +1,25 @@
+-- Generated slugs must pass events_slug_format_check: trim dashes again after
+-- cutting to 60 characters, and shorten the name part so the id suffix still fits
+CREATE OR REPLACE FUNCTION public.generate_event_slug(event_name text, event_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  base text;
+BEGIN
+  base := rtrim(left(trim(both '-' from regexp_replace(lower(event_name), '[^a-z0-9]+', '-', 'g')), 60), '-');
+
+  IF base = '' THEN
+    base := 'event';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.events e WHERE e.slug = base AND e.id <> event_id) THEN
+    base := rtrim(left(base, 51), '-') || '-' || left(replace(event_id::text, '-', ''), 8);
+  END IF;
+
+  RETURN base;
+END;
+$$;
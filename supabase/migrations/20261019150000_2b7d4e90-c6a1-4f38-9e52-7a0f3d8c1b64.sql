@@ -0,0 +1,304 @@
+-- Face clusters belong to an event, so its owners manage them instead of global editors
+DROP POLICY IF EXISTS "Admins and editors can view face clusters" ON public.face_clusters;
+
+CREATE POLICY "Event owners can view face clusters" ON public.face_clusters
+  FOR SELECT USING (public.can_manage_event(event_id, auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.get_event_faces(target_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  face_index integer,
+  bbox jsonb,
+  detection_score real,
+  model text,
+  embedding text,
+  cluster_id uuid,
+  file_path text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can manage face clusters';
+  END IF;
+
+  RETURN QUERY
+  SELECT pf.id, pf.photo_id, pf.face_index, pf.bbox, pf.detection_score, pf.model, pf.embedding::text, pf.cluster_id, p.file_path
+  FROM public.photo_faces pf
+  JOIN public.photos p ON p.id = pf.photo_id
+  WHERE pf.event_id = target_event_id
+  ORDER BY pf.photo_id, pf.face_index;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_event_face_clusters(target_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  full_name text,
+  email text,
+  representative_face_id uuid,
+  face_count bigint,
+  photo_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can manage face clusters';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.user_id,
+    pr.full_name,
+    pr.email,
+    c.representative_face_id,
+    count(pf.id),
+    count(DISTINCT pf.photo_id)
+  FROM public.face_clusters c
+  LEFT JOIN public.profiles pr ON pr.user_id = c.user_id
+  LEFT JOIN public.photo_faces pf ON pf.cluster_id = c.id
+  WHERE c.event_id = target_event_id
+  GROUP BY c.id, pr.full_name, pr.email
+  ORDER BY count(DISTINCT pf.photo_id) DESC, c.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_face_clusters(target_event_id uuid, clusters jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cluster jsonb;
+  new_cluster_id uuid;
+  created integer := 0;
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can manage face clusters';
+  END IF;
+
+  -- Clusters already attached to a person are kept as they are
+  DELETE FROM public.face_clusters c
+  WHERE c.event_id = target_event_id AND c.user_id IS NULL;
+
+  FOR cluster IN SELECT * FROM jsonb_array_elements(clusters)
+  LOOP
+    INSERT INTO public.face_clusters (event_id, representative_face_id, created_by)
+    VALUES (target_event_id, (cluster ->> 'representative_face_id')::uuid, auth.uid())
+    RETURNING id INTO new_cluster_id;
+
+    UPDATE public.photo_faces pf
+    SET cluster_id = new_cluster_id
+    WHERE pf.event_id = target_event_id
+      AND pf.cluster_id IS NULL
+      AND pf.id IN (SELECT jsonb_array_elements_text(cluster -> 'face_ids')::uuid);
+
+    created := created + 1;
+  END LOOP;
+
+  -- Drop clusters left empty because every face was already attached elsewhere
+  DELETE FROM public.face_clusters c
+  WHERE c.event_id = target_event_id
+    AND c.user_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.photo_faces pf WHERE pf.cluster_id = c.id);
+
+  RETURN created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_face_clusters(target_cluster_id uuid, source_cluster_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cluster_event_ids uuid[];
+  attached_users uuid[];
+BEGIN
+  SELECT array_agg(DISTINCT c.event_id) INTO cluster_event_ids
+  FROM public.face_clusters c
+  WHERE c.id = target_cluster_id OR c.id = ANY(source_cluster_ids);
+
+  IF coalesce(array_length(cluster_event_ids, 1), 0) <> 1 THEN
+    RAISE EXCEPTION 'Clusters must belong to the same event';
+  END IF;
+
+  IF NOT can_manage_event(cluster_event_ids[1], auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can manage face clusters';
+  END IF;
+
+  SELECT array_agg(DISTINCT c.user_id) FILTER (WHERE c.user_id IS NOT NULL)
+  INTO attached_users
+  FROM public.face_clusters c
+  WHERE c.id = target_cluster_id OR c.id = ANY(source_cluster_ids);
+
+  IF coalesce(array_length(attached_users, 1), 0) > 1 THEN
+    RAISE EXCEPTION 'Cannot merge clusters attached to different people';
+  END IF;
+
+  UPDATE public.photo_faces pf
+  SET cluster_id = target_cluster_id
+  WHERE pf.cluster_id = ANY(source_cluster_ids);
+
+  UPDATE public.face_clusters c
+  SET user_id = attached_users[1]
+  WHERE c.id = target_cluster_id;
+
+  DELETE FROM public.face_clusters c
+  WHERE c.id = ANY(source_cluster_ids) AND c.id <> target_cluster_id;
+
+  RETURN public.record_cluster_matches(target_cluster_id);
+END;
+$$;
+
+-- Owners can only attach a cluster to one of the event's members; admins to anyone
+CREATE OR REPLACE FUNCTION public.attach_face_cluster(target_cluster_id uuid, target_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cluster_event_id uuid;
+BEGIN
+  SELECT c.event_id INTO cluster_event_id FROM public.face_clusters c WHERE c.id = target_cluster_id;
+
+  IF cluster_event_id IS NULL THEN
+    RAISE EXCEPTION 'Cluster not found';
+  END IF;
+
+  IF NOT can_manage_event(cluster_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can manage face clusters';
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'admin') AND get_event_role(cluster_event_id, target_user_id) IS NULL THEN
+    RAISE EXCEPTION 'Only members of the event can be attached';
+  END IF;
+
+  UPDATE public.face_clusters c
+  SET user_id = target_user_id
+  WHERE c.id = target_cluster_id;
+
+  RETURN public.record_cluster_matches(target_cluster_id);
+END;
+$$;
+
+-- Searching now needs the event, so owners only see its members
+DROP FUNCTION IF EXISTS public.search_profiles(text);
+
+CREATE OR REPLACE FUNCTION public.search_profiles(search_term text, target_event_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  email text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_admin boolean;
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can search profiles';
+  END IF;
+
+  is_admin := has_role(auth.uid(), 'admin');
+
+  RETURN QUERY
+  SELECT pr.user_id, pr.full_name, pr.email
+  FROM public.profiles pr
+  WHERE (pr.full_name ILIKE '%' || search_term || '%' OR pr.email ILIKE '%' || search_term || '%')
+    AND (
+      is_admin OR EXISTS (
+        SELECT 1 FROM public.event_members m
+        WHERE m.event_id = target_event_id AND m.user_id = pr.user_id
+      )
+    )
+  ORDER BY pr.full_name
+  LIMIT 20;
+END;
+$$;
+
+-- Owners see who is in their own events' photos, like the people matched in them
+CREATE OR REPLACE FUNCTION public.get_photo_face_labels(photo_ids uuid[])
+RETURNS TABLE (
+  photo_id uuid,
+  photo_face_id uuid,
+  bbox jsonb,
+  user_id uuid,
+  full_name text,
+  is_self boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    fm.photo_id,
+    fm.photo_face_id,
+    pf.bbox,
+    fm.user_id,
+    pr.full_name,
+    fm.user_id = current_user_id
+  FROM public.face_matches fm
+  JOIN public.photo_faces pf ON pf.id = fm.photo_face_id
+  JOIN public.profiles pr ON pr.user_id = fm.user_id
+  JOIN public.events e ON e.id = pf.event_id
+  WHERE fm.photo_id = ANY(photo_ids)
+    -- Only confirmed matches or ones at the event's threshold count as being in the photo
+    AND (
+      fm.feedback = 'confirmed'::match_feedback
+      OR (fm.feedback IS NULL AND fm.confidence_score >= COALESCE(e.match_threshold, 0.8) * 100)
+    )
+    -- Only people who are in the photo themselves, or the event's owners, see who else is
+    AND (
+      can_manage_event(e.id, current_user_id) OR EXISTS (
+        SELECT 1 FROM public.face_matches own
+        WHERE own.photo_id = fm.photo_id
+          AND own.user_id = current_user_id
+          AND (
+            own.feedback = 'confirmed'::match_feedback
+            OR (own.feedback IS NULL AND own.confidence_score >= COALESCE(e.match_threshold, 0.8) * 100)
+          )
+      )
+    )
+    -- Other users are only named if they opted in
+    AND (
+      fm.user_id = current_user_id
+      OR COALESCE((pr.privacy_settings ->> 'publicPhotos')::boolean, false)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_profiles(text, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_profiles(text, uuid) FROM public;
+
+COMMENT ON FUNCTION public.get_event_faces(uuid) IS 'Lists an event''s detected faces with embeddings for its owners and admins, used to cluster faces in the browser.';
+COMMENT ON FUNCTION public.attach_face_cluster(uuid, uuid) IS 'Attaches a cluster to a member of its event (anyone, for admins) and creates face_matches for each of its photos; returns the number of new matches. Owners and admins only.';
+COMMENT ON FUNCTION public.search_profiles(text, uuid) IS 'Finds profiles by name or email to attach a face cluster to: the event''s members for its owners, everyone for admins.';
+COMMENT ON FUNCTION public.get_photo_face_labels(uuid[]) IS 'Returns labelled face boxes of known users in the given photos. Only confirmed matches or matches at the event''s threshold count. Visible to people matched in the photo that way and to the event''s owners and admins; other users appear only if they turned on their publicPhotos privacy setting.';
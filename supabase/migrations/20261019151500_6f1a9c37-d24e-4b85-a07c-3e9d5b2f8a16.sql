@@ -0,0 +1,10 @@
+-- Uploaders could change event_id and move their photos into events they don't belong to.
+-- Updated rows now have to stay in an event the caller can upload to.
+DROP POLICY IF EXISTS "Admins and photo uploaders can update photos" ON public.photos;
+
+CREATE POLICY "Admins and photo uploaders can update photos" ON public.photos
+  FOR UPDATE USING (
+    public.has_role(auth.uid(), 'admin') OR
+    uploaded_by = auth.uid()
+  )
+  WITH CHECK (public.can_upload_event_photos(event_id, auth.uid()));
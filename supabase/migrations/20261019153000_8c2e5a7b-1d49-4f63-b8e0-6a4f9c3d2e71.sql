@@ -0,0 +1,177 @@
+-- Numeric codes are far easier to guess than link tokens: make them longer, limit
+-- wrong guesses per user, and only give them to viewer invites that run out.
+-- Uploader and owner invites, and viewer invites that never run out, keep their link only.
+ALTER TABLE public.event_invites ALTER COLUMN code DROP NOT NULL;
+
+UPDATE public.event_invites
+SET code = NULL
+WHERE NOT (role = 'viewer' AND (max_uses IS NOT NULL OR expires_at IS NOT NULL));
+
+ALTER TABLE public.event_invites
+  ADD CONSTRAINT event_invites_code_check CHECK (
+    code IS NULL OR (role = 'viewer' AND (max_uses IS NOT NULL OR expires_at IS NOT NULL))
+  );
+
+-- Codes that didn't match a usable invite, to slow down guessing. Only redeem_event_invite reads and writes it.
+CREATE TABLE public.event_invite_code_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.event_invite_code_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX event_invite_code_attempts_user_idx ON public.event_invite_code_attempts (user_id, attempted_at);
+
+-- Twelve digits, still short enough to read out or type on a phone
+CREATE OR REPLACE FUNCTION public.generate_invite_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public, extensions
+AS $$
+  SELECT lpad((('x' || encode(gen_random_bytes(6), 'hex'))::bit(48)::bigint % 1000000000000)::text, 12, '0');
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_event_invite(
+  target_event_id uuid,
+  invite_role public.event_member_role DEFAULT 'viewer',
+  invite_max_uses integer DEFAULT NULL,
+  invite_expires_at timestamp with time zone DEFAULT NULL
+)
+RETURNS SETOF public.event_invites
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_code text;
+BEGIN
+  IF NOT can_manage_event(target_event_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only event owners can create invites';
+  END IF;
+
+  -- Uploader and owner invites, and viewer invites that never run out, are link only
+  IF invite_role = 'viewer' AND (invite_max_uses IS NOT NULL OR invite_expires_at IS NOT NULL) THEN
+    -- Pick a code no other invite has used
+    LOOP
+      new_code := generate_invite_code();
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM public.event_invites i WHERE i.code = new_code);
+    END LOOP;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.event_invites (event_id, token, code, role, max_uses, expires_at, created_by)
+  VALUES (target_event_id, generate_invite_token(), new_code, invite_role, invite_max_uses, invite_expires_at, auth.uid())
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.redeem_event_invite(invite_token text DEFAULT NULL, invite_code text DEFAULT NULL)
+RETURNS TABLE (event_id uuid, role public.event_member_role)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  invite public.event_invites%ROWTYPE;
+  existing_role public.event_member_role;
+  target_event_name text;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF invite_token IS NULL AND invite_code IS NOT NULL THEN
+    IF (
+      SELECT count(*) FROM public.event_invite_code_attempts a
+      WHERE a.user_id = current_user_id AND a.attempted_at > now() - interval '15 minutes'
+    ) >= 5 THEN
+      RAISE EXCEPTION 'Too many invalid codes. Wait a few minutes before trying again';
+    END IF;
+
+    -- Codes are shown grouped, so ignore anything but digits
+    SELECT i.* INTO invite
+    FROM public.event_invites i
+    JOIN public.events e ON e.id = i.event_id
+    WHERE i.code = regexp_replace(invite_code, '\D', '', 'g')
+      AND i.revoked_at IS NULL
+      AND e.archived_at IS NULL
+      AND (i.expires_at IS NULL OR i.expires_at > now())
+    FOR UPDATE OF i;
+
+    -- Raising would roll back the attempt, so a wrong code returns no rows instead
+    IF NOT FOUND THEN
+      INSERT INTO public.event_invite_code_attempts (user_id) VALUES (current_user_id);
+      RETURN;
+    END IF;
+  ELSE
+    SELECT * INTO invite
+    FROM public.event_invites i
+    WHERE i.token = invite_token
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND OR invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite is not valid';
+  END IF;
+
+  SELECT e.name INTO target_event_name
+  FROM public.events e
+  WHERE e.id = invite.event_id AND e.archived_at IS NULL;
+
+  IF target_event_name IS NULL THEN
+    RAISE EXCEPTION 'This invite is not valid';
+  END IF;
+
+  IF invite.expires_at IS NOT NULL AND invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+
+  SELECT m.role INTO existing_role
+  FROM public.event_members m
+  WHERE m.event_id = invite.event_id AND m.user_id = current_user_id;
+
+  -- Roles sort from owner to viewer: members who already have this role or a higher one don't use up the invite
+  IF existing_role IS NOT NULL AND existing_role <= invite.role THEN
+    RETURN QUERY SELECT invite.event_id, existing_role;
+    RETURN;
+  END IF;
+
+  IF invite.max_uses IS NOT NULL AND invite.use_count >= invite.max_uses THEN
+    RAISE EXCEPTION 'This invite has already been used';
+  END IF;
+
+  INSERT INTO public.event_members (event_id, user_id, role)
+  VALUES (invite.event_id, current_user_id, invite.role)
+  ON CONFLICT ON CONSTRAINT event_members_event_user_key DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE public.event_invites i
+  SET use_count = i.use_count + 1
+  WHERE i.id = invite.id;
+
+  INSERT INTO public.activity_logs (user_id, activity_type, description, metadata)
+  VALUES (
+    current_user_id,
+    'invite_redeemed',
+    format('Joined %s as %s with an invite', target_event_name, invite.role),
+    jsonb_build_object(
+      'event_id', invite.event_id,
+      'event_name', target_event_name,
+      'invite_id', invite.id,
+      'role', invite.role,
+      'previous_role', existing_role,
+      'via', CASE WHEN invite_token IS NOT NULL THEN 'link' ELSE 'code' END
+    )
+  );
+
+  RETURN QUERY SELECT invite.event_id, invite.role;
+END;
+$$;
+
+COMMENT ON FUNCTION public.create_event_invite(uuid, public.event_member_role, integer, timestamp with time zone) IS 'Creates an invite link for an event, with a code for viewer invites limited by uses or expiry. Owners and admins only. NULL max uses or expiry means unlimited.';
+COMMENT ON FUNCTION public.redeem_event_invite(text, text) IS 'Adds the caller to an event by invite token or code, logs the redemption and returns the event and the caller''s role in it. Members who already have the role or a higher one are not counted as a use. A code that matches no usable invite returns no rows and counts towards a limit of 5 wrong codes per 15 minutes.';
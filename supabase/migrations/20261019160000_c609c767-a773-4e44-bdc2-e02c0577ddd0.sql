@@ -0,0 +1,231 @@
+-- Face templates are trusted by matching, so owners can no longer write them directly.
+-- Templates are saved through save_face_template, which needs a server-issued liveness
+-- check per capture that the server has replayed from the client's frame measurements.
+DROP POLICY IF EXISTS "Users can create their own face template" ON public.face_templates;
+DROP POLICY IF EXISTS "Users can update their own face template" ON public.face_templates;
+
+-- One liveness challenge issued by start_liveness_check. Only the liveness functions read and write it.
+CREATE TABLE public.liveness_checks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  challenge TEXT NOT NULL CHECK (challenge IN ('blink', 'turn_left', 'turn_right')),
+  passed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.liveness_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX liveness_checks_user_idx ON public.liveness_checks (user_id, created_at);
+CREATE INDEX liveness_checks_created_at_idx ON public.liveness_checks (created_at);
+
+-- Replays a challenge over per-frame measurements with the same thresholds as
+-- src/lib/face/liveness.ts: a neutral pose first, then the requested movement,
+-- within 8 seconds and never with more than one face in view.
+CREATE OR REPLACE FUNCTION public.verify_liveness_trace(challenge text, trace jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  sample jsonb;
+  sample_t numeric;
+  sample_faces integer;
+  sample_ear numeric;
+  sample_yaw numeric;
+  previous_t numeric := 0;
+  direction integer := CASE WHEN challenge = 'turn_left' THEN 1 ELSE -1 END;
+  saw_neutral boolean := false;
+  saw_action boolean := false;
+BEGIN
+  IF jsonb_typeof(trace) IS DISTINCT FROM 'array' OR jsonb_array_length(trace) > 1000 THEN
+    RETURN false;
+  END IF;
+
+  FOR sample IN SELECT value FROM jsonb_array_elements(trace) LOOP
+    sample_t := (sample->>'t')::numeric;
+    sample_faces := (sample->>'faces')::integer;
+    sample_ear := (sample->>'ear')::numeric;
+    sample_yaw := (sample->>'yaw')::numeric;
+
+    IF sample_t IS NULL OR sample_faces IS NULL OR sample_t < previous_t OR sample_t > 8000 OR sample_faces > 1 THEN
+      RETURN false;
+    END IF;
+    previous_t := sample_t;
+
+    CONTINUE WHEN sample_faces <> 1 OR sample_ear IS NULL OR sample_yaw IS NULL;
+
+    IF challenge = 'blink' THEN
+      IF sample_ear > 0.25 THEN
+        IF saw_action THEN
+          RETURN true;
+        END IF;
+        saw_neutral := true;
+      ELSIF sample_ear < 0.2 AND saw_neutral THEN
+        saw_action := true;
+      END IF;
+    ELSIF abs(sample_yaw) < 0.1 THEN
+      saw_neutral := true;
+    ELSIF saw_neutral AND sample_yaw * direction > 0.25 THEN
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_liveness_check(requested_challenge text DEFAULT NULL)
+RETURNS TABLE (id uuid, challenge text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF requested_challenge IS NOT NULL AND requested_challenge NOT IN ('blink', 'turn_left', 'turn_right') THEN
+    RAISE EXCEPTION 'Unknown liveness challenge: %', requested_challenge;
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.liveness_checks c
+    WHERE c.user_id = current_user_id AND c.created_at > now() - interval '10 minutes'
+  ) >= 60 THEN
+    RAISE EXCEPTION 'Too many liveness checks. Wait a few minutes before trying again';
+  END IF;
+
+  -- Checks are only useful for minutes, so old ones are cleared as new ones are issued
+  DELETE FROM public.liveness_checks c WHERE c.created_at < now() - interval '1 day';
+
+  RETURN QUERY
+  INSERT INTO public.liveness_checks (user_id, challenge)
+  VALUES (
+    current_user_id,
+    COALESCE(requested_challenge, (ARRAY['blink', 'turn_left', 'turn_right'])[1 + floor(random() * 3)::integer])
+  )
+  RETURNING id, challenge;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_liveness_check(check_id uuid, trace jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  check_row public.liveness_checks%ROWTYPE;
+  trace_ms numeric;
+  check_passed boolean;
+BEGIN
+  SELECT * INTO check_row
+  FROM public.liveness_checks c
+  WHERE c.id = check_id AND c.user_id IS NOT DISTINCT FROM auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Liveness check not found';
+  END IF;
+
+  IF check_row.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This liveness check has already been completed';
+  END IF;
+
+  SELECT max((s->>'t')::numeric) INTO trace_ms
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(trace) = 'array' THEN trace ELSE '[]'::jsonb END) s;
+
+  -- The frames cannot span more time than has passed since the challenge was issued
+  check_passed := now() - check_row.created_at <= interval '2 minutes'
+    AND trace_ms IS NOT NULL
+    AND trace_ms <= extract(epoch FROM now() - check_row.created_at) * 1000
+    AND verify_liveness_trace(check_row.challenge, trace);
+
+  -- A failed check is spent too, so traces cannot be retried against the same challenge
+  UPDATE public.liveness_checks c
+  SET passed = check_passed, completed_at = now()
+  WHERE c.id = check_row.id;
+
+  RETURN check_passed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_face_template(
+  template_embedding extensions.vector,
+  template_model text,
+  liveness_check_ids uuid[]
+)
+RETURNS SETOF public.face_templates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  current_user_id uuid;
+  claimed_count integer;
+  claimed_challenges text[];
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF template_embedding IS NULL OR vector_dims(template_embedding) <> 128 THEN
+    RAISE EXCEPTION 'template_embedding must have 128 dimensions';
+  END IF;
+
+  IF coalesce(template_model, '') = '' THEN
+    RAISE EXCEPTION 'template_model is required';
+  END IF;
+
+  -- Each capture needs its own passed, unused and recent check, covering every challenge
+  WITH claimed AS (
+    UPDATE public.liveness_checks c
+    SET used_at = now()
+    WHERE c.id = ANY(liveness_check_ids)
+      AND c.user_id = current_user_id
+      AND c.passed
+      AND c.used_at IS NULL
+      AND c.completed_at > now() - interval '10 minutes'
+    RETURNING c.challenge
+  )
+  SELECT count(*), array_agg(DISTINCT claimed.challenge) INTO claimed_count, claimed_challenges
+  FROM claimed;
+
+  IF claimed_count <> cardinality(liveness_check_ids)
+    OR NOT coalesce(claimed_challenges @> ARRAY['blink', 'turn_left', 'turn_right'], false) THEN
+    RAISE EXCEPTION 'Enrollment needs a passed liveness check for each capture';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.face_templates (user_id, embedding, model, sample_count)
+  VALUES (current_user_id, template_embedding, template_model, claimed_count)
+  ON CONFLICT (user_id) DO UPDATE
+  SET embedding = EXCLUDED.embedding, model = EXCLUDED.model, sample_count = EXCLUDED.sample_count
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_liveness_trace(text, jsonb) FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.start_liveness_check(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_liveness_check(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_face_template(extensions.vector, text, uuid[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.start_liveness_check(text) FROM public;
+REVOKE EXECUTE ON FUNCTION public.complete_liveness_check(uuid, jsonb) FROM public;
+REVOKE EXECUTE ON FUNCTION public.save_face_template(extensions.vector, text, uuid[]) FROM public;
+
+COMMENT ON TABLE public.liveness_checks IS 'Liveness challenges issued to clients. A check passes once complete_liveness_check has replayed the client''s frame measurements; passed checks are spent by the call that relies on them.';
+COMMENT ON FUNCTION public.start_liveness_check(text) IS 'Issues a liveness challenge to the caller: the requested one, or a random one when none is given. Limited to 60 per caller per 10 minutes.';
+COMMENT ON FUNCTION public.complete_liveness_check(uuid, jsonb) IS 'Replays the caller''s per-frame measurements ({t, faces, ear, yaw}) against the issued challenge and records whether it passed. Each check can be completed once, within 2 minutes of being issued.';
+COMMENT ON FUNCTION public.save_face_template(extensions.vector, text, uuid[]) IS 'Saves the caller''s face template. Needs one passed liveness check per capture, completed in the last 10 minutes and covering the blink, turn left and turn right challenges; the checks are spent.';
@@ -0,0 +1,190 @@
+-- Guest face search is open to anyone, so it needs a server-confirmed liveness check
+-- per search and is throttled per client IP and per event.
+
+-- First address in X-Forwarded-For as passed through by the API gateway; NULL outside HTTP requests
+CREATE OR REPLACE FUNCTION public.request_ip()
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(trim(split_part(
+    NULLIF(current_setting('request.headers', true), '')::json ->> 'x-forwarded-for', ',', 1
+  )), '');
+$$;
+
+-- Signed-out guests have no user id, so their checks are limited by IP instead
+ALTER TABLE public.liveness_checks ADD COLUMN client_ip TEXT;
+
+CREATE INDEX liveness_checks_client_ip_idx ON public.liveness_checks (client_ip, created_at);
+
+-- Guest searches, to limit how often one client and one event can be searched. Only search_public_event_photos reads and writes it.
+CREATE TABLE public.public_search_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  client_ip TEXT,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.public_search_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX public_search_attempts_event_idx ON public.public_search_attempts (event_id, attempted_at);
+
+CREATE OR REPLACE FUNCTION public.start_liveness_check(requested_challenge text DEFAULT NULL)
+RETURNS TABLE (id uuid, challenge text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  current_ip text;
+BEGIN
+  current_user_id := auth.uid();
+  current_ip := request_ip();
+
+  IF requested_challenge IS NOT NULL AND requested_challenge NOT IN ('blink', 'turn_left', 'turn_right') THEN
+    RAISE EXCEPTION 'Unknown liveness challenge: %', requested_challenge;
+  END IF;
+
+  IF (
+    SELECT count(*) FROM public.liveness_checks c
+    WHERE (CASE WHEN current_user_id IS NULL
+             THEN c.user_id IS NULL AND c.client_ip IS NOT DISTINCT FROM current_ip
+             ELSE c.user_id = current_user_id END)
+      AND c.created_at > now() - interval '10 minutes'
+  ) >= 60 THEN
+    RAISE EXCEPTION 'Too many liveness checks. Wait a few minutes before trying again';
+  END IF;
+
+  -- Checks are only useful for minutes, so old ones are cleared as new ones are issued
+  DELETE FROM public.liveness_checks c WHERE c.created_at < now() - interval '1 day';
+
+  RETURN QUERY
+  INSERT INTO public.liveness_checks (user_id, client_ip, challenge)
+  VALUES (
+    current_user_id,
+    current_ip,
+    COALESCE(requested_challenge, (ARRAY['blink', 'turn_left', 'turn_right'])[1 + floor(random() * 3)::integer])
+  )
+  RETURNING id, challenge;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.search_public_event_photos(text, extensions.vector, text, integer);
+
+CREATE OR REPLACE FUNCTION public.search_public_event_photos(
+  event_slug text,
+  probe_embedding extensions.vector,
+  liveness_check_id uuid,
+  probe_model text DEFAULT NULL,
+  match_count integer DEFAULT 200
+)
+RETURNS TABLE (
+  photo_id uuid,
+  file_name text,
+  file_path text,
+  file_size bigint,
+  created_at timestamp with time zone,
+  confidence_score numeric,
+  bbox jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  target_event public.events%ROWTYPE;
+  current_ip text;
+BEGIN
+  SELECT * INTO target_event
+  FROM public.events e
+  WHERE e.slug = event_slug
+    AND e.visibility = 'public'::event_visibility;
+
+  IF target_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF probe_embedding IS NULL OR vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  current_ip := request_ip();
+
+  IF (
+    SELECT count(*) FROM public.public_search_attempts a
+    WHERE a.event_id = target_event.id
+      AND a.client_ip IS NOT DISTINCT FROM current_ip
+      AND a.attempted_at > now() - interval '10 minutes'
+  ) >= 10 OR (
+    SELECT count(*) FROM public.public_search_attempts a
+    WHERE a.event_id = target_event.id
+      AND a.attempted_at > now() - interval '10 minutes'
+  ) >= 500 THEN
+    RAISE EXCEPTION 'Too many searches. Wait a few minutes before trying again';
+  END IF;
+
+  -- Each search spends its own passed check, issued to this caller and confirmed in the last 10 minutes
+  UPDATE public.liveness_checks c
+  SET used_at = now()
+  WHERE c.id = liveness_check_id
+    AND c.user_id IS NOT DISTINCT FROM auth.uid()
+    AND c.passed
+    AND c.used_at IS NULL
+    AND c.completed_at > now() - interval '10 minutes';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A passed liveness check is required to search';
+  END IF;
+
+  INSERT INTO public.public_search_attempts (event_id, client_ip)
+  VALUES (target_event.id, current_ip);
+
+  -- Widen the HNSW candidate list so filtering by event still leaves enough neighbours
+  PERFORM set_config('hnsw.ef_search', '400', true);
+
+  RETURN QUERY
+  WITH nearest AS (
+    SELECT
+      pf.photo_id,
+      pf.bbox,
+      1 - (pf.embedding <=> probe_embedding) AS similarity
+    FROM public.photo_faces pf
+    WHERE pf.event_id = target_event.id
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+    ORDER BY pf.embedding <=> probe_embedding
+    LIMIT LEAST(GREATEST(match_count, 1), 1000)
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_id, n.bbox, n.similarity
+    FROM nearest n
+    WHERE n.similarity >= COALESCE(target_event.match_threshold, 0.8)
+    ORDER BY n.photo_id, n.similarity DESC
+  )
+  SELECT
+    p.id,
+    p.file_name,
+    p.file_path,
+    p.file_size,
+    p.created_at,
+    round((b.similarity * 100)::numeric, 2),
+    b.bbox
+  FROM best b
+  JOIN public.photos p ON p.id = b.photo_id
+  ORDER BY b.similarity DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_ip() FROM public, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.start_liveness_check(text) TO anon;
+GRANT EXECUTE ON FUNCTION public.complete_liveness_check(uuid, jsonb) TO anon;
+GRANT EXECUTE ON FUNCTION public.search_public_event_photos(text, extensions.vector, uuid, text, integer) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_public_event_photos(text, extensions.vector, uuid, text, integer) FROM public;
+
+COMMENT ON FUNCTION public.start_liveness_check(text) IS 'Issues a liveness challenge to the caller: the requested one, or a random one when none is given. Limited to 60 per signed-in user, or per IP for guests, per 10 minutes.';
+COMMENT ON FUNCTION public.search_public_event_photos(text, extensions.vector, uuid, text, integer) IS 'No-login face search within one public event. Needs a passed liveness check from complete_liveness_check, which the search spends, and is limited to 10 searches per IP and 500 in total per event per 10 minutes. Compares the probe embedding with the event''s faces using the event''s match_threshold (default 0.8) and returns the matching photos. Stores no face data: no face_matches rows, templates or activity logs are written.';
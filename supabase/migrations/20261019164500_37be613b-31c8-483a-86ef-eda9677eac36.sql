@@ -0,0 +1,256 @@
+-- Taking the nearest neighbours from the whole HNSW index and filtering by event afterwards
+-- can leave few or none of an event's faces. Searches within one event now compare every
+-- face in that event exactly, and searches across events filter inside an iterative HNSW scan.
+CREATE OR REPLACE FUNCTION public.match_faces(
+  probe_embedding extensions.vector DEFAULT NULL,
+  probe_model text DEFAULT NULL,
+  event_id_filter uuid DEFAULT NULL,
+  match_threshold numeric DEFAULT NULL,
+  match_count integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  photo_id uuid,
+  event_id uuid,
+  confidence_score numeric,
+  matched_at timestamp with time zone,
+  feedback public.match_feedback,
+  photo_face_id uuid,
+  bbox jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  current_user_id uuid;
+  probe_source text := 'scan';
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF probe_embedding IS NULL THEN
+    SELECT t.embedding, t.model
+    INTO probe_embedding, probe_model
+    FROM public.face_templates t
+    WHERE t.user_id = current_user_id;
+
+    IF probe_embedding IS NULL THEN
+      RAISE EXCEPTION 'No probe embedding given and no enrolled face template found';
+    END IF;
+
+    probe_source := 'template';
+  END IF;
+
+  IF vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  -- Across events, keep scanning the HNSW index until enough neighbours pass the
+  -- access and model filters rather than filtering a fixed candidate list (pgvector 0.8+)
+  PERFORM set_config('hnsw.iterative_scan', 'relaxed_order', true);
+
+  RETURN QUERY
+  WITH event_faces AS MATERIALIZED (
+    -- Within one event every face is compared exactly; materialising keeps the HNSW index out of it
+    SELECT pf.id, pf.photo_id, pf.event_id, pf.bbox, pf.face_index, pf.embedding
+    FROM public.photo_faces pf
+    WHERE event_id_filter IS NOT NULL
+      AND pf.event_id = event_id_filter
+      AND can_view_event_photos(event_id_filter, current_user_id)
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+  ),
+  nearest AS (
+    (
+      SELECT
+        ef.id AS photo_face_id,
+        ef.photo_id,
+        ef.event_id,
+        ef.bbox,
+        ef.face_index,
+        1 - (ef.embedding <=> probe_embedding) AS similarity
+      FROM event_faces ef
+      ORDER BY ef.embedding <=> probe_embedding
+      -- Keep the number of rows one call can write bounded
+      LIMIT LEAST(GREATEST(match_count, 1), 1000)
+    )
+    UNION ALL
+    (
+      SELECT
+        pf.id AS photo_face_id,
+        pf.photo_id,
+        pf.event_id,
+        pf.bbox,
+        pf.face_index,
+        1 - (pf.embedding <=> probe_embedding) AS similarity
+      FROM public.photo_faces pf
+      WHERE event_id_filter IS NULL
+        -- Same access rule as get_safe_photos
+        AND can_view_event_photos(pf.event_id, current_user_id)
+        AND (probe_model IS NULL OR pf.model = probe_model)
+      ORDER BY pf.embedding <=> probe_embedding
+      LIMIT LEAST(GREATEST(match_count, 1), 1000)
+    )
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_face_id, n.photo_id, n.event_id, n.face_index, n.bbox, n.similarity
+    FROM nearest n
+    JOIN public.events e ON e.id = n.event_id
+    WHERE
+      -- An explicit threshold wins, then the event's own default; the parameter is qualified to avoid events.match_threshold.
+      -- Clamped to the range events.match_threshold allows, so a low threshold can't match every face
+      n.similarity >= LEAST(GREATEST(COALESCE(match_faces.match_threshold, e.match_threshold, 0.8), 0.5), 0.99)
+      -- Photos the user has said are not them stay hidden
+      AND NOT EXISTS (
+        SELECT 1 FROM public.face_matches r
+        WHERE r.user_id = current_user_id
+          AND r.photo_id = n.photo_id
+          AND r.feedback = 'rejected'::match_feedback
+      )
+    ORDER BY n.photo_id, n.similarity DESC
+  ),
+  upserted AS (
+    INSERT INTO public.face_matches AS fm (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+    SELECT
+      current_user_id,
+      b.photo_id,
+      b.photo_face_id,
+      round((b.similarity * 100)::numeric, 2),
+      jsonb_build_object(
+        'face_index', b.face_index,
+        'similarity', b.similarity,
+        'model', probe_model,
+        'probe_source', probe_source
+      ),
+      now()
+    FROM best b
+    ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO UPDATE SET
+      photo_face_id = EXCLUDED.photo_face_id,
+      confidence_score = EXCLUDED.confidence_score,
+      face_scan_data = EXCLUDED.face_scan_data,
+      matched_at = EXCLUDED.matched_at
+    RETURNING fm.id, fm.photo_id, fm.confidence_score, fm.matched_at, fm.feedback
+  )
+  SELECT u.id, u.photo_id, b.event_id, u.confidence_score, u.matched_at, u.feedback, b.photo_face_id, b.bbox
+  FROM upserted u
+  JOIN best b ON b.photo_id = u.photo_id
+  ORDER BY u.confidence_score DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) FROM public;
+
+COMMENT ON FUNCTION public.match_faces(extensions.vector, text, uuid, numeric, integer) IS 'Finds the faces nearest to a scan embedding (or the caller''s enrolled template when none is given) in accessible photos, upserts face_matches rows for the calling user above the similarity threshold and returns them with the matched face''s normalised bounding box. Without an explicit threshold each event''s match_threshold applies, defaulting to 0.8; thresholds are clamped to 0.5-0.99 and match_count to 1-1000. Photos the user rejected are never returned. Within one event every face is compared exactly. Confidence scores are cosine similarity as a percentage.';
+
+CREATE OR REPLACE FUNCTION public.search_public_event_photos(
+  event_slug text,
+  probe_embedding extensions.vector,
+  liveness_check_id uuid,
+  probe_model text DEFAULT NULL,
+  match_count integer DEFAULT 200
+)
+RETURNS TABLE (
+  photo_id uuid,
+  file_name text,
+  file_path text,
+  file_size bigint,
+  created_at timestamp with time zone,
+  confidence_score numeric,
+  bbox jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  target_event public.events%ROWTYPE;
+  current_ip text;
+BEGIN
+  SELECT * INTO target_event
+  FROM public.events e
+  WHERE e.slug = event_slug
+    AND e.visibility = 'public'::event_visibility;
+
+  IF target_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF probe_embedding IS NULL OR vector_dims(probe_embedding) <> 128 THEN
+    RAISE EXCEPTION 'probe_embedding must have 128 dimensions';
+  END IF;
+
+  current_ip := request_ip();
+
+  IF (
+    SELECT count(*) FROM public.public_search_attempts a
+    WHERE a.event_id = target_event.id
+      AND a.client_ip IS NOT DISTINCT FROM current_ip
+      AND a.attempted_at > now() - interval '10 minutes'
+  ) >= 10 OR (
+    SELECT count(*) FROM public.public_search_attempts a
+    WHERE a.event_id = target_event.id
+      AND a.attempted_at > now() - interval '10 minutes'
+  ) >= 500 THEN
+    RAISE EXCEPTION 'Too many searches. Wait a few minutes before trying again';
+  END IF;
+
+  -- Each search spends its own passed check, issued to this caller and confirmed in the last 10 minutes
+  UPDATE public.liveness_checks c
+  SET used_at = now()
+  WHERE c.id = liveness_check_id
+    AND c.user_id IS NOT DISTINCT FROM auth.uid()
+    AND c.passed
+    AND c.used_at IS NULL
+    AND c.completed_at > now() - interval '10 minutes';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A passed liveness check is required to search';
+  END IF;
+
+  INSERT INTO public.public_search_attempts (event_id, client_ip)
+  VALUES (target_event.id, current_ip);
+
+  RETURN QUERY
+  WITH event_faces AS MATERIALIZED (
+    -- Every face in the event is compared exactly; materialising keeps the HNSW index out of it
+    SELECT pf.photo_id, pf.bbox, pf.embedding
+    FROM public.photo_faces pf
+    WHERE pf.event_id = target_event.id
+      -- Never compare vectors produced by different models
+      AND (probe_model IS NULL OR pf.model = probe_model)
+  ),
+  nearest AS (
+    SELECT
+      ef.photo_id,
+      ef.bbox,
+      1 - (ef.embedding <=> probe_embedding) AS similarity
+    FROM event_faces ef
+    ORDER BY ef.embedding <=> probe_embedding
+    LIMIT LEAST(GREATEST(match_count, 1), 1000)
+  ),
+  best AS (
+    SELECT DISTINCT ON (n.photo_id) n.photo_id, n.bbox, n.similarity
+    FROM nearest n
+    WHERE n.similarity >= COALESCE(target_event.match_threshold, 0.8)
+    ORDER BY n.photo_id, n.similarity DESC
+  )
+  SELECT
+    p.id,
+    p.file_name,
+    p.file_path,
+    p.file_size,
+    p.created_at,
+    round((b.similarity * 100)::numeric, 2),
+    b.bbox
+  FROM best b
+  JOIN public.photos p ON p.id = b.photo_id
+  ORDER BY b.similarity DESC;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Notifications are written by triggers; users may only mark their own as read.
+-- Other columns (title, counts, event) are no longer updatable through the API.
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+DROP POLICY IF EXISTS "Users can mark their own notifications as read" ON public.notifications;
+
+CREATE POLICY "Users can mark their own notifications as read" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id AND read_at IS NOT NULL);
@@ -0,0 +1,75 @@
+-- Attaching a cluster is an owner labelling someone's face without asking them, so it
+-- no longer creates matches for people who never opted in to face matching.
+-- The cluster stays attached; the person's own scans and enrollment find the photos.
+CREATE OR REPLACE FUNCTION public.record_cluster_matches(target_cluster_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  cluster_user_id uuid;
+  centroid vector;
+  written integer;
+BEGIN
+  SELECT c.user_id INTO cluster_user_id FROM public.face_clusters c WHERE c.id = target_cluster_id;
+
+  IF cluster_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- Only people who use face matching themselves, with an enrolled template or a search
+  -- with their own face, and who haven't turned face detection off
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.user_id = cluster_user_id
+      AND COALESCE((p.privacy_settings ->> 'faceDetection')::boolean, true)
+      AND (
+        EXISTS (SELECT 1 FROM public.face_templates t WHERE t.user_id = cluster_user_id)
+        OR EXISTS (
+          SELECT 1 FROM public.face_matches m
+          WHERE m.user_id = cluster_user_id
+            AND m.face_scan_data ->> 'probe_source' IN ('scan', 'template')
+        )
+      )
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT avg(pf.embedding) INTO centroid FROM public.photo_faces pf WHERE pf.cluster_id = target_cluster_id;
+
+  -- Scores are similarity to the cluster centroid; existing matches (and their feedback) are left alone
+  WITH best AS (
+    SELECT DISTINCT ON (pf.photo_id)
+      pf.id AS photo_face_id,
+      pf.photo_id,
+      pf.face_index,
+      pf.model,
+      1 - (pf.embedding <=> centroid) AS similarity
+    FROM public.photo_faces pf
+    WHERE pf.cluster_id = target_cluster_id
+    ORDER BY pf.photo_id, pf.embedding <=> centroid
+  )
+  INSERT INTO public.face_matches (user_id, photo_id, photo_face_id, confidence_score, face_scan_data, matched_at)
+  SELECT
+    cluster_user_id,
+    b.photo_id,
+    b.photo_face_id,
+    round((b.similarity * 100)::numeric, 2),
+    jsonb_build_object(
+      'face_index', b.face_index,
+      'similarity', b.similarity,
+      'model', b.model,
+      'probe_source', 'cluster',
+      'cluster_id', target_cluster_id
+    ),
+    now()
+  FROM best b
+  ON CONFLICT ON CONSTRAINT face_matches_user_photo_key DO NOTHING;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  RETURN written;
+END;
+$$;
+
+COMMENT ON FUNCTION public.record_cluster_matches(uuid) IS 'Records face_matches for the person a cluster is attached to, one per photo, scored by similarity to the cluster centroid. Nothing is recorded unless the person has face detection on and has enrolled or searched with their own face. Existing matches and their feedback are left alone. Returns the number of matches created.';
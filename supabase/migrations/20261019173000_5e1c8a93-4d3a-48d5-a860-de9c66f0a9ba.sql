@@ -0,0 +1,35 @@
+-- The worker now detects faces itself and writes the result to face_data with the
+-- service role. Those writes must not queue the photo again, or it would loop.
+CREATE OR REPLACE FUNCTION public.enqueue_photo_processing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.processing_jobs (photo_id, event_id)
+  SELECT NEW.id, NEW.event_id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.processing_jobs j
+    WHERE j.photo_id = NEW.id AND j.status = 'pending'::job_status
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Photos without face data were skipped so far; the worker can detect their faces now
+INSERT INTO public.processing_jobs (photo_id, event_id)
+SELECT p.id, p.event_id
+FROM public.photos p
+WHERE p.face_data IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.processing_jobs j
+    WHERE j.photo_id = p.id AND j.status = 'pending'::job_status
+  );
+
+COMMENT ON TABLE public.processing_jobs IS 'Background work per photo. A job is queued on every photo insert or face_data change by a user and drained by the worker in scripts/process-jobs.ts, which detects the faces in the stored file, replaces face_data with the result and matches them.';
@@ -1,8 +1,37 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// The face-api weights the app loads, taken from the installed package so they always match its version
+const FACE_MODEL_DIR = path.resolve(__dirname, "node_modules/@vladmandic/face-api/model");
+const FACE_MODEL_FILES = ["ssd_mobilenetv1_model", "face_landmark_68_model", "face_recognition_model"]
+  .flatMap((name) => [`${name}-weights_manifest.json`, `${name}.bin`]);
+
+/** Serves the weights under /models in development and copies them into the build output. */
+const faceApiModels = (): Plugin => ({
+  name: "face-api-models",
+  configureServer(server) {
+    server.middlewares.use("/models", (req, res, next) => {
+      const file = path.basename(req.url?.split("?")[0] ?? "");
+      if (!FACE_MODEL_FILES.includes(file)) return next();
+
+      res.setHeader("Content-Type", file.endsWith(".json") ? "application/json" : "application/octet-stream");
+      fs.createReadStream(path.join(FACE_MODEL_DIR, file)).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const file of FACE_MODEL_FILES) {
+      this.emitFile({
+        type: "asset",
+        fileName: `models/${file}`,
+        source: fs.readFileSync(path.join(FACE_MODEL_DIR, file)),
+      });
+    }
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +40,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    faceApiModels(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),